@@ -8,18 +8,29 @@ import Landing from "@/pages/Landing";
 import Home from "@/pages/Home";
 import Admin from "@/pages/Admin";
 import CaseStudy from "@/pages/CaseStudy";
+import Login from "@/pages/Login";
+import ResetPassword from "@/pages/ResetPassword";
+import TwoFactorChallenge from "@/pages/TwoFactorChallenge";
 import NotFound from "@/pages/not-found";
 
 function Router() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
 
   return (
     <Switch>
+      <Route path="/login" component={Login} />
+      <Route path="/reset-password" component={ResetPassword} />
       {isLoading || !isAuthenticated ? (
         <>
           <Route path="/" component={Landing} />
           <Route path="/case-study/:slug" component={CaseStudy} />
         </>
+      ) : user?.twoFactorPending ? (
+        <>
+          <Route path="/" component={Landing} />
+          <Route path="/admin" component={TwoFactorChallenge} />
+          <Route path="/case-study/:slug" component={CaseStudy} />
+        </>
       ) : (
         <>
           <Route path="/" component={Home} />
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { format, formatDistance } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { permissions, type Permission } from "@shared/permissions";
+import type { CreateApiToken, PublicApiToken } from "@shared/schema";
+
+const expiryOptions = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+export default function ApiTokensManager() {
+  const [name, setName] = useState("");
+  const [expiry, setExpiry] = useState("30");
+  const [scopes, setScopes] = useState<Permission[]>([]);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: tokens = [], isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/admin/tokens"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateApiToken) => {
+      const response = await apiRequest("POST", "/api/admin/tokens", data);
+      return (await response.json()) as PublicApiToken & { token: string };
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tokens"] });
+      setCreatedToken(created.token);
+      setName("");
+      setScopes([]);
+      toast({
+        title: "Token created",
+        description: "Copy it now. It won't be shown again.",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to create token. Please try again."),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tokens"] });
+      toast({
+        title: "Token revoked",
+        description: "Requests using it will now be rejected.",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to revoke token. Please try again."),
+  });
+
+  const toggleScope = (scope: Permission, checked: boolean) => {
+    setScopes(checked ? [...scopes, scope] : scopes.filter((s) => s !== scope));
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      name,
+      scopes,
+      expiresInDays: expiry === "never" ? null : parseInt(expiry),
+    });
+  };
+
+  const handleRevoke = (token: PublicApiToken) => {
+    if (confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      revokeMutation.mutate(token.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Tokens</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Personal tokens let scripts call admin endpoints with an <code>Authorization: Bearer</code> header.
+          A token can only do what both its scopes and your role allow.
+        </p>
+
+        {createdToken && (
+          <div className="rounded-lg border border-border p-4 space-y-2">
+            <p className="text-sm font-medium text-foreground">Your new token. It won't be shown again.</p>
+            <div className="flex items-center space-x-2">
+              <code className="text-sm break-all flex-1">{createdToken}</code>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigator.clipboard.writeText(createdToken)}
+                title="Copy token"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="token-name">Name</Label>
+              <Input
+                id="token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="CI project import"
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label>Scopes</Label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+              {permissions.filter((permission) => can(permission)).map((permission) => (
+                <label key={permission} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={scopes.includes(permission)}
+                    onCheckedChange={(checked) => toggleScope(permission, checked === true)}
+                  />
+                  <span className="font-mono">{permission}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button type="submit" disabled={createMutation.isPending || !name.trim() || scopes.length === 0}>
+            <KeyRound className="w-4 h-4 mr-2" />
+            Create token
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="h-12 bg-muted rounded animate-pulse"></div>
+        ) : tokens.length > 0 && (
+          <div className="divide-y divide-border">
+            {tokens.map((token) => {
+              const expired = token.expiresAt && new Date(token.expiresAt) <= new Date();
+              return (
+                <div key={token.id} className="flex items-center justify-between py-3">
+                  <div className="space-y-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground">
+                      {token.name}
+                      <code className="ml-2 text-xs text-muted-foreground">{token.prefix}…</code>
+                      {expired && <Badge variant="destructive" className="ml-2 text-xs">Expired</Badge>}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="secondary" className="text-xs font-mono">{scope}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {token.lastUsedAt
+                        ? `Last used ${formatDistance(new Date(token.lastUsedAt), new Date(), { addSuffix: true })}`
+                        : "Never used"}
+                      {" · "}
+                      {token.expiresAt ? `Expires ${format(new Date(token.expiresAt), "MMM d, yyyy")}` : "No expiry"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(token)}
+                    disabled={revokeMutation.isPending}
+                    title="Revoke"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download } from "lucide-react";
+import { format } from "date-fns";
+import {
+  auditActions,
+  auditEntityTypes,
+  type AuditEvent,
+  type AuditEventPage,
+  type User,
+} from "@shared/schema";
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+interface Filters {
+  actorId: string;
+  action: string;
+  entityType: string;
+  from: string;
+  to: string;
+}
+
+const emptyFilters: Filters = { actorId: ALL, action: ALL, entityType: ALL, from: "", to: "" };
+
+function toQueryString(filters: Filters, offset?: number) {
+  const params = new URLSearchParams();
+  if (filters.actorId !== ALL) params.set("actorId", filters.actorId);
+  if (filters.action !== ALL) params.set("action", filters.action);
+  if (filters.entityType !== ALL) params.set("entityType", filters.entityType);
+  // Dates are whole days in the browser's time zone
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (offset !== undefined) {
+    params.set("limit", String(PAGE_SIZE));
+    params.set("offset", String(offset));
+  }
+  return params.toString();
+}
+
+function ChangeSummary({ event }: { event: AuditEvent }) {
+  const before = (event.before ?? {}) as Record<string, unknown>;
+  const after = (event.after ?? {}) as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  if (keys.length === 0) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  const show = (value: unknown) => (value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value));
+
+  return (
+    <details>
+      <summary className="cursor-pointer text-sm">{keys.length} field{keys.length === 1 ? "" : "s"}</summary>
+      <div className="mt-2 space-y-1 text-xs font-mono max-w-md">
+        {keys.map((key) => (
+          <div key={key} className="break-all">
+            <span className="text-foreground">{key}: </span>
+            {key in before && <span className="line-through text-destructive">{show(before[key])}</span>}
+            {key in before && key in after && " "}
+            {key in after && <span className="text-green-600">{show(after[key])}</span>}
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+export default function AuditLog() {
+  const [draft, setDraft] = useState<Filters>(emptyFilters);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [offset, setOffset] = useState(0);
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/admin/users"],
+    retry: false,
+  });
+
+  const { data, isLoading } = useQuery<AuditEventPage>({
+    queryKey: [`/api/admin/audit?${toQueryString(filters, offset)}`],
+    retry: false,
+  });
+  const events = data?.events ?? [];
+  const total = data?.total ?? 0;
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+    setOffset(0);
+  };
+
+  const resetFilters = () => {
+    setDraft(emptyFilters);
+    setFilters(emptyFilters);
+    setOffset(0);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label>Actor</Label>
+              <Select value={draft.actorId} onValueChange={(actorId) => setDraft({ ...draft, actorId })}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Anyone</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.email || user.id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Action</Label>
+              <Select value={draft.action} onValueChange={(action) => setDraft({ ...draft, action })}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {auditActions.map((action) => (
+                    <SelectItem key={action} value={action}>
+                      {action}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Entity</Label>
+              <Select value={draft.entityType} onValueChange={(entityType) => setDraft({ ...draft, entityType })}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All entities</SelectItem>
+                  {auditEntityTypes.map((entityType) => (
+                    <SelectItem key={entityType} value={entityType}>
+                      {entityType}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={draft.from}
+                  onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={draft.to}
+                  onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button type="submit">Apply</Button>
+              <Button type="button" variant="outline" onClick={resetFilters}>
+                Reset
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-muted-foreground">
+          {total} event{total === 1 ? "" : "s"}
+        </p>
+        <Button variant="outline" asChild>
+          <a href={`/api/admin/audit/export.csv?${toQueryString(filters)}`} download>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-10 bg-muted rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-center text-muted-foreground py-16">No audit events match these filters.</p>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>IP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {event.createdAt ? format(new Date(event.createdAt), "MMM d, yyyy HH:mm:ss") : "Unknown"}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {event.actorEmail || event.actorId || "Unknown"}
+                    {event.apiTokenId && (
+                      <span className="block text-xs text-muted-foreground">via API token #{event.apiTokenId}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{event.action}</TableCell>
+                  <TableCell className="text-sm">
+                    {event.entityType}
+                    {event.entityId && <span className="text-muted-foreground"> #{event.entityId.slice(0, 12)}</span>}
+                  </TableCell>
+                  <TableCell>
+                    <ChangeSummary event={event} />
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground" title={event.userAgent ?? undefined}>
+                    {event.ip}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex justify-between items-center">
+          <Button variant="outline" onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))} disabled={offset === 0}>
+            Previous
+          </Button>
+          <p className="text-sm text-muted-foreground">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </p>
+          <Button variant="outline" onClick={() => setOffset(offset + PAGE_SIZE)} disabled={offset + PAGE_SIZE >= total}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
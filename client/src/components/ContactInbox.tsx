@@ -0,0 +1,552 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient, type Query } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Archive, ArchiveRestore, ShieldAlert, ShieldCheck, Star, StickyNote, Trash2 } from "lucide-react";
+import ContactReplies from "@/components/ContactReplies";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatDistance } from "date-fns";
+import {
+  contactStatuses,
+  type ContactNoteWithAuthor,
+  type ContactSubmission,
+  type UpdateContact,
+  type User,
+} from "@shared/schema";
+
+const ALL = "all";
+const UNASSIGNED = "unassigned";
+
+type View = "inbox" | "starred" | "archived" | "spam";
+
+interface Filters {
+  view: View;
+  status: string;
+  assignedTo: string;
+  search: string;
+}
+
+function toQueryString(filters: Filters) {
+  const params = new URLSearchParams();
+  params.set("archived", String(filters.view === "archived"));
+  if (filters.view === "starred") params.set("starred", "true");
+  // Spam is quarantined: the server only lists it when asked for by status
+  if (filters.view === "spam") {
+    params.set("status", "spam");
+  } else if (filters.status !== ALL) {
+    params.set("status", filters.status);
+  }
+  if (filters.assignedTo !== ALL) params.set("assignedTo", filters.assignedTo);
+  if (filters.search) params.set("search", filters.search);
+  return params.toString();
+}
+
+// Contact list queries carry their filters in the key, so match on the prefix
+const isContactsQuery = (query: Query) =>
+  typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/admin/contacts");
+
+const userName = (user: User) => [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id;
+
+export default function ContactInbox() {
+  const [filters, setFilters] = useState<Filters>({ view: "inbox", status: ALL, assignedTo: ALL, search: "" });
+  const [search, setSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [openId, setOpenId] = useState<number | null>(null);
+  const [note, setNote] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: contacts = [], isLoading } = useQuery<ContactSubmission[]>({
+    queryKey: [`/api/admin/contacts?${toQueryString(filters)}`],
+    retry: false,
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/admin/users"],
+    retry: false,
+  });
+
+  const { data: notes = [] } = useQuery<ContactNoteWithAuthor[]>({
+    queryKey: ["/api/admin/contacts", openId, "notes"],
+    enabled: openId !== null,
+    retry: false,
+  });
+
+  const openContact = contacts.find((contact) => contact.id === openId);
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, update }: { id: number; update: UpdateContact }) => {
+      await apiRequest("PATCH", `/api/admin/contacts/${id}`, update);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: isContactsQuery });
+    },
+    onError: (error) => handleError(error, "Failed to update the message. Please try again."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/contacts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: isContactsQuery });
+      setOpenId(null);
+      toast({
+        title: "Message deleted",
+        description: "The message has been permanently deleted.",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to delete the message. Please try again."),
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: async ({ ids, update }: { ids: number[]; update: UpdateContact | "delete" }) => {
+      const response = update === "delete"
+        ? await apiRequest("POST", "/api/admin/contacts/bulk-delete", { ids })
+        : await apiRequest("POST", "/api/admin/contacts/bulk", { ids, update });
+      return (await response.json()) as { updated?: number; deleted?: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ predicate: isContactsQuery });
+      setSelectedIds(new Set());
+      const changed = result.deleted ?? result.updated ?? 0;
+      toast({
+        title: result.deleted !== undefined ? "Messages deleted" : "Messages updated",
+        description: `${changed} message${changed === 1 ? "" : "s"} ${result.deleted !== undefined ? "deleted" : "updated"}.`,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to apply the bulk action. Please try again."),
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: async ({ id, body }: { id: number; body: string }) => {
+      await apiRequest("POST", `/api/admin/contacts/${id}/notes`, { body });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/contacts", openId, "notes"] });
+      setNote("");
+    },
+    onError: (error) => handleError(error, "Failed to add the note. Please try again."),
+  });
+
+  const changeFilters = (changes: Partial<Filters>) => {
+    setFilters({ ...filters, ...changes });
+    setSelectedIds(new Set());
+  };
+
+  const handleOpen = (contact: ContactSubmission) => {
+    setOpenId(contact.id);
+    setNote("");
+    if (contact.status === "new" && can("contacts:write")) {
+      updateMutation.mutate({ id: contact.id, update: { status: "read" } });
+    }
+  };
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const allSelected = contacts.length > 0 && contacts.every((contact) => selectedIds.has(contact.id));
+
+  const handleBulk = (update: UpdateContact | "delete") => {
+    const ids = Array.from(selectedIds);
+    if (update === "delete" && !confirm(`Permanently delete ${ids.length} message${ids.length === 1 ? "" : "s"}?`)) {
+      return;
+    }
+    bulkMutation.mutate({ ids, update });
+  };
+
+  const handleDelete = (contact: ContactSubmission) => {
+    if (confirm(`Permanently delete the message from ${contact.name}?`)) {
+      deleteMutation.mutate(contact.id);
+    }
+  };
+
+  const handleAddNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (openId !== null && note.trim()) {
+      noteMutation.mutate({ id: openId, body: note });
+    }
+  };
+
+  const archived = filters.view === "archived";
+  const quarantine = filters.view === "spam";
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <Label>View</Label>
+              <Select value={filters.view} onValueChange={(view) => changeFilters({ view: view as View })}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="inbox">Inbox</SelectItem>
+                  <SelectItem value="starred">Starred</SelectItem>
+                  <SelectItem value="archived">Archived</SelectItem>
+                  <SelectItem value="spam">Spam</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Status</Label>
+              <Select value={filters.status} onValueChange={(status) => changeFilters({ status })} disabled={quarantine}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any status</SelectItem>
+                  {contactStatuses.filter((status) => status !== "spam").map((status) => (
+                    <SelectItem key={status} value={status}>
+                      <span className="capitalize">{status}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Assigned to</Label>
+              <Select value={filters.assignedTo} onValueChange={(assignedTo) => changeFilters({ assignedTo })}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Anyone</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {userName(user)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                changeFilters({ search: search.trim() });
+              }}
+            >
+              <Label htmlFor="contact-search">Search</Label>
+              <Input
+                id="contact-search"
+                type="search"
+                placeholder="Name, email or text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="mt-2"
+              />
+            </form>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedIds.size > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border p-3">
+          <span className="text-sm text-muted-foreground mr-2">{selectedIds.size} selected</span>
+          {can("contacts:write") && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => handleBulk({ status: "read" })} disabled={bulkMutation.isPending}>
+                Mark read
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleBulk({ status: "replied" })} disabled={bulkMutation.isPending}>
+                Mark replied
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleBulk({ starred: true })} disabled={bulkMutation.isPending}>
+                <Star className="w-4 h-4 mr-1" />
+                Star
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleBulk({ archived: !archived })} disabled={bulkMutation.isPending}>
+                {archived ? <ArchiveRestore className="w-4 h-4 mr-1" /> : <Archive className="w-4 h-4 mr-1" />}
+                {archived ? "Unarchive" : "Archive"}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleBulk({ status: quarantine ? "read" : "spam" })}
+                disabled={bulkMutation.isPending}
+              >
+                {quarantine ? <ShieldCheck className="w-4 h-4 mr-1" /> : <ShieldAlert className="w-4 h-4 mr-1" />}
+                {quarantine ? "Not spam" : "Mark spam"}
+              </Button>
+            </>
+          )}
+          {can("contacts:delete") && (
+            <Button variant="outline" size="sm" onClick={() => handleBulk("delete")} disabled={bulkMutation.isPending}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              Delete
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+            Clear
+          </Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        <div className="lg:col-span-2">
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-16 bg-muted rounded animate-pulse"></div>
+              ))}
+            </div>
+          ) : contacts.length === 0 ? (
+            <div className="text-center py-16">
+              <div className="text-6xl mb-4">📬</div>
+              <h3 className="text-2xl font-semibold text-foreground mb-2">No messages</h3>
+              <p className="text-muted-foreground">Nothing matches these filters</p>
+            </div>
+          ) : (
+            <div className="rounded-lg border border-border divide-y divide-border">
+              <label className="flex items-center gap-3 px-3 py-2 text-xs text-muted-foreground">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) =>
+                    setSelectedIds(checked === true ? new Set(contacts.map((contact) => contact.id)) : new Set())
+                  }
+                />
+                Select all
+              </label>
+              {contacts.map((contact) => (
+                <div
+                  key={contact.id}
+                  className={`flex items-start gap-3 px-3 py-3 cursor-pointer hover:bg-muted/50 ${contact.id === openId ? "bg-muted" : ""}`}
+                  onClick={() => handleOpen(contact)}
+                >
+                  <div className="pt-0.5" onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={selectedIds.has(contact.id)}
+                      onCheckedChange={(checked) => toggleSelected(contact.id, checked === true)}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    title={contact.starred ? "Unstar" : "Star"}
+                    disabled={!can("contacts:write")}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      updateMutation.mutate({ id: contact.id, update: { starred: !contact.starred } });
+                    }}
+                  >
+                    <Star className={`w-4 h-4 ${contact.starred ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"}`} />
+                  </button>
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className={`text-sm truncate ${contact.status === "new" ? "font-semibold text-foreground" : "text-foreground"}`}>
+                        {contact.name}
+                      </p>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {contact.createdAt ? formatDistance(new Date(contact.createdAt), new Date(), { addSuffix: true }) : "Unknown"}
+                      </span>
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">{contact.subject}</p>
+                    <Badge variant={contact.status === "new" ? "default" : contact.status === "spam" ? "destructive" : "secondary"} className="capitalize">
+                      {contact.status}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-3">
+          {!openContact ? (
+            <div className="h-full min-h-48 flex items-center justify-center rounded-lg border border-dashed border-border text-muted-foreground">
+              Select a message to read it
+            </div>
+          ) : (
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-start gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <CardTitle className="text-lg">{openContact.subject}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      From: {openContact.name} (
+                      <a href={`mailto:${openContact.email}`} className="underline">
+                        {openContact.email}
+                      </a>
+                      )
+                    </p>
+                  </div>
+                  <div className="flex space-x-2 shrink-0">
+                    {can("contacts:write") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title={openContact.archivedAt ? "Unarchive" : "Archive"}
+                        onClick={() => updateMutation.mutate({ id: openContact.id, update: { archived: !openContact.archivedAt } })}
+                        disabled={updateMutation.isPending}
+                      >
+                        {openContact.archivedAt ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                      </Button>
+                    )}
+                    {can("contacts:delete") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Delete"
+                        onClick={() => handleDelete(openContact)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {openContact.status === "spam" && (
+                  <div className="flex items-start justify-between gap-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3">
+                    <div className="space-y-1 text-sm">
+                      <p className="font-medium text-destructive">Quarantined as spam (score {openContact.spamScore})</p>
+                      {openContact.spamReasons && openContact.spamReasons.length > 0 && (
+                        <p className="text-muted-foreground">{openContact.spamReasons.join(", ")}</p>
+                      )}
+                    </div>
+                    {can("contacts:write") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateMutation.mutate({ id: openContact.id, update: { status: "read" } })}
+                        disabled={updateMutation.isPending}
+                      >
+                        Not spam
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                <p className="text-sm text-foreground whitespace-pre-wrap">{openContact.message}</p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label>Status</Label>
+                    <Select
+                      value={openContact.status}
+                      onValueChange={(status) =>
+                        updateMutation.mutate({ id: openContact.id, update: { status: status as UpdateContact["status"] } })
+                      }
+                      disabled={!can("contacts:write")}
+                    >
+                      <SelectTrigger className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {contactStatuses.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            <span className="capitalize">{status}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Assigned to</Label>
+                    <Select
+                      value={openContact.assignedTo ?? UNASSIGNED}
+                      onValueChange={(assignedTo) =>
+                        updateMutation.mutate({
+                          id: openContact.id,
+                          update: { assignedTo: assignedTo === UNASSIGNED ? null : assignedTo },
+                        })
+                      }
+                      disabled={!can("contacts:write")}
+                    >
+                      <SelectTrigger className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                        {users.map((user) => (
+                          <SelectItem key={user.id} value={user.id}>
+                            {userName(user)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <ContactReplies key={openContact.id} contact={openContact} />
+
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium text-foreground flex items-center gap-2">
+                    <StickyNote className="w-4 h-4" />
+                    Internal notes
+                  </h4>
+                  {notes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No notes yet. Notes are only visible to the team.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {notes.map((item) => (
+                        <div key={item.id} className="rounded-lg bg-muted p-3 space-y-1">
+                          <p className="text-sm text-foreground whitespace-pre-wrap">{item.body}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {item.authorName ?? "Former team member"} ·{" "}
+                            {item.createdAt ? formatDistance(new Date(item.createdAt), new Date(), { addSuffix: true }) : "Unknown"}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {can("contacts:write") && (
+                    <form onSubmit={handleAddNote} className="space-y-2">
+                      <Textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Add a note for the team"
+                        rows={3}
+                      />
+                      <Button type="submit" size="sm" disabled={noteMutation.isPending || !note.trim()}>
+                        Add note
+                      </Button>
+                    </form>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Reply } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatDistance } from "date-fns";
+import type { ContactReplyWithAuthor, ContactSubmission } from "@shared/schema";
+
+interface ContactRepliesProps {
+  contact: ContactSubmission;
+}
+
+export default function ContactReplies({ contact }: ContactRepliesProps) {
+  const [body, setBody] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: replies = [] } = useQuery<ContactReplyWithAuthor[]>({
+    queryKey: ["/api/admin/contacts", contact.id, "replies"],
+    retry: false,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async (text: string) => {
+      await apiRequest("POST", `/api/admin/contacts/${contact.id}/replies`, { body: text });
+    },
+    onSuccess: () => {
+      // Sending a reply also marks the submission replied
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/admin/contacts"),
+      });
+      setBody("");
+      toast({
+        title: "Reply sent",
+        description: `Your reply is on its way to ${contact.email}.`,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message.startsWith("502")
+          ? "The email could not be sent. Check the mail settings and try again."
+          : "Failed to send reply. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (body.trim()) {
+      replyMutation.mutate(body);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium text-foreground flex items-center gap-2">
+        <Reply className="w-4 h-4" />
+        Replies
+      </h4>
+      {replies.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No replies sent yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {replies.map((reply) => (
+            <div key={reply.id} className="rounded-lg border border-border p-3 space-y-1">
+              <p className="text-xs text-muted-foreground">
+                {reply.authorName ?? "Former team member"} ·{" "}
+                {reply.createdAt ? formatDistance(new Date(reply.createdAt), new Date(), { addSuffix: true }) : "Unknown"}
+              </p>
+              <p className="text-sm text-foreground whitespace-pre-wrap">{reply.body}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      {can("contacts:write") && contact.status !== "spam" && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={`Reply to ${contact.name}`}
+            rows={5}
+          />
+          <Button type="submit" size="sm" disabled={replyMutation.isPending || !body.trim()}>
+            {replyMutation.isPending ? "Sending..." : "Send reply"}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
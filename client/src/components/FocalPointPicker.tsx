@@ -0,0 +1,65 @@
+import type { MouseEvent } from "react";
+import { Button } from "@/components/ui/button";
+import type { FocalPoint } from "@shared/schema";
+
+interface FocalPointPickerProps {
+  src: string;
+  value: FocalPoint | null | undefined;
+  onChange: (focus: FocalPoint | null) => void;
+}
+
+const clamp = (value: number) => Math.min(100, Math.max(0, Math.round(value)));
+
+// Sets the point of an image that project cards keep in view, by clicking on
+// the image, with a preview of the card's crop beside it
+export default function FocalPointPicker({ src, value, onChange }: FocalPointPickerProps) {
+  const focus = value ?? { x: 50, y: 50 };
+
+  const handleClick = (e: MouseEvent<HTMLImageElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    onChange({
+      x: clamp(((e.clientX - bounds.left) / bounds.width) * 100),
+      y: clamp(((e.clientY - bounds.top) / bounds.height) * 100),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-start gap-4">
+        <div className="relative inline-block">
+          <img
+            src={src}
+            alt="Click to set the focal point"
+            onClick={handleClick}
+            className="block max-h-56 max-w-full rounded-md cursor-crosshair"
+          />
+          <span
+            className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-primary/60 shadow pointer-events-none"
+            style={{ left: `${focus.x}%`, top: `${focus.y}%` }}
+          />
+        </div>
+        <div className="space-y-1">
+          <div className="w-48 aspect-video rounded-md overflow-hidden bg-muted">
+            <img
+              src={src}
+              alt=""
+              className="w-full h-full object-cover"
+              style={{ objectPosition: `${focus.x}% ${focus.y}%` }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">Card preview</p>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <p className="text-sm text-muted-foreground">
+          {value ? `Focused at ${value.x}% across, ${value.y}% down` : "Click the image to choose what cards keep in view"}
+        </p>
+        {value && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+            Reset
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import MediaPicker from "@/components/MediaPicker";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import { ArrowDown, ArrowUp, Images, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { galleryLayouts, type GalleryLayout, type Media } from "@shared/schema";
+
+// A gallery image being edited, before the gallery is saved
+export interface GalleryDraft {
+  media: Media;
+  caption: string;
+  layout: GalleryLayout;
+}
+
+const layoutLabels: Record<GalleryLayout, string> = {
+  full: "Full width",
+  half: "Half width",
+  third: "Third width",
+};
+
+interface GalleryEditorProps {
+  items: GalleryDraft[];
+  onChange: (items: GalleryDraft[]) => void;
+}
+
+// Adds, orders, captions and sizes the images in a project's gallery
+export default function GalleryEditor({ items, onChange }: GalleryEditorProps) {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const { toast } = useToast();
+
+  const addImage = (media: Media) => {
+    if (items.some((item) => item.media.id === media.id)) {
+      toast({ title: "Already in the gallery", description: `${media.originalName} is already in this gallery.` });
+      return;
+    }
+    onChange([...items, { media, caption: "", layout: "half" }]);
+  };
+
+  const updateItem = (index: number, changes: Partial<GalleryDraft>) =>
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  const moveItem = (index: number, offset: number) => {
+    const moved = [...items];
+    [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+    onChange(moved);
+  };
+
+  return (
+    <div className="space-y-3">
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No gallery images yet. Add screenshots, before and after shots or process images.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map((item, index) => (
+            <li key={item.media.id} className="flex items-center gap-3 p-2 border border-border rounded-lg">
+              <div className="relative w-20 h-14 shrink-0 bg-muted rounded overflow-hidden">
+                <ResponsiveImage
+                  src={item.media.url}
+                  image={item.media}
+                  alt={item.media.altText || item.media.originalName}
+                  sizes="5rem"
+                  className="w-full h-full object-cover"
+                />
+              </div>
+              <Input
+                value={item.caption}
+                onChange={(e) => updateItem(index, { caption: e.target.value })}
+                placeholder={item.media.caption || "Caption (optional)"}
+                maxLength={1000}
+              />
+              <Select value={item.layout} onValueChange={(layout) => updateItem(index, { layout: layout as GalleryLayout })}>
+                <SelectTrigger className="w-36 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {galleryLayouts.map((layout) => (
+                    <SelectItem key={layout} value={layout}>
+                      {layoutLabels[layout]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex shrink-0">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveItem(index, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveItem(index, 1)}
+                  disabled={index === items.length - 1}
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange(items.filter((_, i) => i !== index))}
+                  title="Remove from gallery"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Button type="button" variant="outline" onClick={() => setPickerOpen(true)}>
+        <Images className="w-4 h-4 mr-2" />
+        Add image
+      </Button>
+
+      <MediaPicker
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        onSelect={addImage}
+        title="Add a gallery image"
+        kind="image"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isMediaQuery, useMediaFolders } from "@/hooks/useMediaFolders";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { format } from "date-fns";
+import { formatDuration, formatPageCount } from "@shared/media";
+import type { MediaWithUsage, UpdateMedia } from "@shared/schema";
+
+const NO_FOLDER = "none";
+
+interface MediaDetailsProps {
+  file: MediaWithUsage;
+  onClose: () => void;
+}
+
+// Tags are edited as a comma-separated list
+const toTags = (text: string) =>
+  text
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+export default function MediaDetails({ file, onClose }: MediaDetailsProps) {
+  const [altText, setAltText] = useState(file.altText ?? "");
+  const [caption, setCaption] = useState(file.caption ?? "");
+  const [tags, setTags] = useState((file.tags ?? []).join(", "));
+  const [folder, setFolder] = useState(file.folderId === null ? NO_FOLDER : String(file.folderId));
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { folders } = useMediaFolders();
+  const readOnly = !can("media:write");
+
+  const mutation = useMutation({
+    mutationFn: async (update: UpdateMedia) => {
+      await apiRequest("PATCH", `/api/admin/media/${file.id}`, update);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: isMediaQuery });
+      toast({
+        title: "File updated",
+        description: "The file details have been saved.",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save the file details. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({
+      altText,
+      caption,
+      tags: toTags(tags),
+      folderId: folder === NO_FOLDER ? null : parseInt(folder),
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{file.originalName}</DialogTitle>
+          <DialogDescription>
+            {file.mimeType}
+            {file.width && file.height ? ` · ${file.width}×${file.height}` : ""}
+            {file.duration ? ` · ${formatDuration(file.duration)}` : ""}
+            {file.pageCount ? ` · ${formatPageCount(file.pageCount)}` : ""}
+            {file.createdAt ? ` · uploaded ${format(new Date(file.createdAt), "MMM d, yyyy")}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="media-details" onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="media-alt">Alt text</Label>
+            <Input
+              id="media-alt"
+              value={altText}
+              onChange={(e) => setAltText(e.target.value)}
+              maxLength={255}
+              placeholder="Describe the image for screen readers"
+              disabled={readOnly}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label htmlFor="media-caption">Caption</Label>
+            <Textarea
+              id="media-caption"
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              maxLength={1000}
+              rows={2}
+              disabled={readOnly}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label htmlFor="media-tags">Tags</Label>
+            <Input
+              id="media-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g. logo, mobile, hero"
+              disabled={readOnly}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label>Folder</Label>
+            <Select value={folder} onValueChange={setFolder} disabled={readOnly}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_FOLDER}>Not in a folder</SelectItem>
+                {folders.map((option) => (
+                  <SelectItem key={option.id} value={String(option.id)}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Used in</Label>
+            {file.usedIn.length === 0 ? (
+              <p className="text-sm text-muted-foreground mt-2">No projects link to this file.</p>
+            ) : (
+              <ul className="mt-2 space-y-1 text-sm">
+                {file.usedIn.map((project) => (
+                  <li key={project.id}>
+                    <a href={`/case-study/${project.slug}`} target="_blank" rel="noreferrer" className="underline">
+                      {project.title}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {readOnly ? "Close" : "Cancel"}
+          </Button>
+          {!readOnly && (
+            <Button type="submit" form="media-details" disabled={mutation.isPending}>
+              {mutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
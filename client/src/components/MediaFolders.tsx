@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Folder, FolderOpen, Inbox, Images, Pencil, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isMediaQuery, useMediaFolders } from "@/hooks/useMediaFolders";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { MediaFolderWithCount } from "@shared/schema";
+
+// "all" shows every file, "none" the files outside any folder
+export type FolderFilter = "all" | "none" | number;
+
+interface MediaFoldersProps {
+  selected: FolderFilter;
+  onSelect: (folder: FolderFilter) => void;
+}
+
+export default function MediaFolders({ selected, onSelect }: MediaFoldersProps) {
+  const [name, setName] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { folders } = useMediaFolders();
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message.startsWith("409") ? "A folder with that name already exists." : description,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (folderName: string) => {
+      await apiRequest("POST", "/api/admin/media-folders", { name: folderName });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/media-folders"] });
+      setName("");
+    },
+    onError: (error) => handleError(error, "Failed to create the folder. Please try again."),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      await apiRequest("PATCH", `/api/admin/media-folders/${id}`, { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/media-folders"] });
+    },
+    onError: (error) => handleError(error, "Failed to rename the folder. Please try again."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/media-folders/${id}`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ predicate: isMediaQuery });
+      if (selected === id) {
+        onSelect("all");
+      }
+    },
+    onError: (error) => handleError(error, "Failed to delete the folder. Please try again."),
+  });
+
+  const handleRename = (folder: MediaFolderWithCount) => {
+    const newName = prompt("Rename folder", folder.name)?.trim();
+    if (newName && newName !== folder.name) {
+      renameMutation.mutate({ id: folder.id, name: newName });
+    }
+  };
+
+  const handleDelete = (folder: MediaFolderWithCount) => {
+    const files = folder.fileCount === 1 ? "Its file stays" : `Its ${folder.fileCount} files stay`;
+    if (confirm(`Delete the folder "${folder.name}"? ${files} in the library, outside any folder.`)) {
+      deleteMutation.mutate(folder.id);
+    }
+  };
+
+  const itemClass = (active: boolean) =>
+    `flex w-full items-center gap-2 rounded-md px-3 py-2 text-sm text-left ${
+      active ? "bg-muted font-medium text-foreground" : "text-muted-foreground hover:bg-muted/50"
+    }`;
+
+  return (
+    <nav className="space-y-1">
+      <button type="button" className={itemClass(selected === "all")} onClick={() => onSelect("all")}>
+        <Images className="w-4 h-4" />
+        All files
+      </button>
+      <button type="button" className={itemClass(selected === "none")} onClick={() => onSelect("none")}>
+        <Inbox className="w-4 h-4" />
+        Not in a folder
+      </button>
+
+      {folders.map((folder) => (
+        <div key={folder.id} className="group flex items-center">
+          <button type="button" className={itemClass(selected === folder.id)} onClick={() => onSelect(folder.id)}>
+            {selected === folder.id ? <FolderOpen className="w-4 h-4" /> : <Folder className="w-4 h-4" />}
+            <span className="flex-1 truncate">{folder.name}</span>
+            <span className="text-xs text-muted-foreground">{folder.fileCount}</span>
+          </button>
+          {can("media:write") && (
+            <div className="flex opacity-0 group-hover:opacity-100">
+              <Button variant="ghost" size="icon" className="h-7 w-7" title="Rename" onClick={() => handleRename(folder)}>
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" title="Delete" onClick={() => handleDelete(folder)}>
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {can("media:write") && (
+        <form
+          className="flex gap-2 pt-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) {
+              createMutation.mutate(name.trim());
+            }
+          }}
+        >
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="New folder" className="h-8" />
+          <Button type="submit" size="icon" className="h-8 w-8 shrink-0" title="Create folder" disabled={createMutation.isPending}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </form>
+      )}
+    </nav>
+  );
+}
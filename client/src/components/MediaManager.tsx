@@ -3,106 +3,237 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import MediaFolders, { type FolderFilter } from "@/components/MediaFolders";
+import MediaDetails from "@/components/MediaDetails";
 import { Input } from "@/components/ui/input";
-import { Upload, Trash2, Copy, Image, FileText, Film } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, Trash2, Copy, Image, FileText, Film, Link2, Pencil, X } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { discardMediaUpload, uploadMediaFile } from "@/lib/uploads";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistance } from "date-fns";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { Media } from "@shared/schema";
+import { useAuth } from "@/hooks/useAuth";
+import { isMediaQuery, useMediaFolders } from "@/hooks/useMediaFolders";
+import { mediaKinds, type MediaPage, type MediaSort, type MediaWithUsage } from "@shared/schema";
+import { uploadProblem, uploadSizeLimits } from "@shared/uploads";
+import { formatDuration, formatPageCount } from "@shared/media";
+
+const PAGE_SIZE = 48;
+const ALL = "all";
+const NO_FOLDER = "none";
+
+interface Filters {
+  search: string;
+  kind: string;
+  tag: string;
+  from: string;
+  to: string;
+}
+
+const emptyFilters: Filters = { search: "", kind: ALL, tag: ALL, from: "", to: "" };
+
+const kindLabels: Record<(typeof mediaKinds)[number], string> = {
+  image: "Images",
+  video: "Videos",
+  document: "Documents",
+};
+
+const sortLabels: Record<MediaSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  name: "Name",
+  largest: "Largest first",
+  smallest: "Smallest first",
+};
+
+function toQueryString(filters: Filters, folder: FolderFilter, sort: MediaSort, offset: number) {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("search", filters.search);
+  if (filters.kind !== ALL) params.set("kind", filters.kind);
+  if (filters.tag !== ALL) params.set("tag", filters.tag);
+  if (folder !== ALL) params.set("folder", String(folder));
+  // Dates are whole days in the browser's time zone
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  params.set("sort", sort);
+  params.set("limit", String(PAGE_SIZE));
+  params.set("offset", String(offset));
+  return params.toString();
+}
+
+interface UploadItem {
+  id: number;
+  file: File;
+  loaded: number;
+  controller: AbortController;
+  error?: string;
+}
+
+const formatLimit = (bytes: number) =>
+  bytes >= 1024 ** 3 ? `${bytes / 1024 ** 3}GB` : `${bytes / 1024 ** 2}MB`;
+
+// The server's message from an "<status>: <json>" error, when it sent one
+function errorMessage(error: Error): string {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+let nextUploadId = 1;
+
+const describeUsage = (file: MediaWithUsage) =>
+  `${file.usedIn.length} project${file.usedIn.length === 1 ? "" : "s"}`;
 
 export default function MediaManager() {
   const [dragOver, setDragOver] = useState(false);
+  const [folder, setFolder] = useState<FolderFilter>(ALL);
+  const [draft, setDraft] = useState<Filters>(emptyFilters);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [sort, setSort] = useState<MediaSort>("newest");
+  const [offset, setOffset] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const { folders } = useMediaFolders();
 
-  const { data: mediaFiles = [], isLoading } = useQuery<Media[]>({
-    queryKey: ["/api/admin/media"],
+  const { data, isLoading } = useQuery<MediaPage<MediaWithUsage>>({
+    queryKey: [`/api/admin/media?${toQueryString(filters, folder, sort, offset)}`],
     retry: false,
   });
+  const mediaFiles = data?.files ?? [];
+  const total = data?.total ?? 0;
+  const editing = mediaFiles.find((file) => file.id === editingId);
 
-  const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append("file", file);
-      
-      const response = await fetch("/api/admin/media", {
-        method: "POST",
-        body: formData,
-        credentials: "include",
+  const { data: tags = [] } = useQuery<string[]>({
+    queryKey: ["/api/admin/media/tags"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    // Someone linked a file to a project since the library was loaded
+    if (error.message.startsWith("409")) {
+      queryClient.invalidateQueries({ predicate: isMediaQuery });
+      toast({
+        title: "File in use",
+        description: "A file is now used in a project. Review where it is used before deleting it.",
+        variant: "destructive",
       });
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
 
-      if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`${response.status}: ${text}`);
-      }
+  const updateUpload = (id: number, changes: Partial<UploadItem>) =>
+    setUploads((items) => items.map((item) => (item.id === id ? { ...item, ...changes } : item)));
 
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/media"] });
+  const removeUpload = (id: number) => setUploads((items) => items.filter((item) => item.id !== id));
+
+  const startUpload = async (file: File) => {
+    const item: UploadItem = { id: nextUploadId++, file, loaded: 0, controller: new AbortController() };
+    const problem = uploadProblem(file.name, file.size);
+    if (problem) {
+      setUploads((items) => [...items, { ...item, error: problem }]);
+      return;
+    }
+    setUploads((items) => [...items, item]);
+
+    try {
+      await uploadMediaFile(file, {
+        // New files land in the folder being viewed
+        folderId: typeof folder === "number" ? folder : null,
+        onProgress: (loaded) => updateUpload(item.id, { loaded }),
+        signal: item.controller.signal,
+      });
+      removeUpload(item.id);
+      queryClient.invalidateQueries({ predicate: isMediaQuery });
       toast({
         title: "File uploaded",
-        description: "The file has been successfully uploaded.",
+        description: `${file.name} has been successfully uploaded.`,
       });
-    },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
+    } catch (error) {
+      if (item.controller.signal.aborted) return;
+      if (isUnauthorizedError(error as Error)) {
+        handleError(error as Error, "Failed to upload file. Please try again.");
         return;
       }
-      toast({
-        title: "Upload failed",
-        description: "Failed to upload file. Please try again.",
-        variant: "destructive",
-      });
-    },
-  });
+      updateUpload(item.id, { error: errorMessage(error as Error) });
+    }
+  };
+
+  // Stops an upload in progress and drops the parts already sent
+  const cancelUpload = (item: UploadItem) => {
+    item.controller.abort();
+    removeUpload(item.id);
+    if (!item.error) {
+      void discardMediaUpload(item.file);
+    }
+  };
 
   const deleteMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/admin/media/${id}`);
+    mutationFn: async ({ id, force }: { id: number; force: boolean }) => {
+      await apiRequest("DELETE", `/api/admin/media/${id}${force ? "?force=true" : ""}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/media"] });
+      queryClient.invalidateQueries({ predicate: isMediaQuery });
       toast({
         title: "File deleted",
         description: "The file has been successfully deleted.",
       });
     },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
+    onError: (error) => handleError(error, "Failed to delete file. Please try again."),
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: async (action: { ids: number[]; folderId: number | null } | { ids: number[]; force: boolean }) => {
+      const response = "folderId" in action
+        ? await apiRequest("POST", "/api/admin/media/bulk-move", action)
+        : await apiRequest("POST", "/api/admin/media/bulk-delete", action);
+      return (await response.json()) as { moved?: number; deleted?: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ predicate: isMediaQuery });
+      setSelectedIds(new Set());
+      const changed = result.deleted ?? result.moved ?? 0;
       toast({
-        title: "Error",
-        description: "Failed to delete file. Please try again.",
-        variant: "destructive",
+        title: result.deleted !== undefined ? "Files deleted" : "Files moved",
+        description: `${changed} file${changed === 1 ? "" : "s"} ${result.deleted !== undefined ? "deleted" : "moved"}.`,
       });
     },
+    onError: (error) => handleError(error, "Failed to apply the bulk action. Please try again."),
   });
 
   const handleFileSelect = (files: FileList | null) => {
     if (!files) return;
     
     Array.from(files).forEach(file => {
-      uploadMutation.mutate(file);
+      void startUpload(file);
     });
   };
 
@@ -122,6 +253,69 @@ export default function MediaManager() {
     setDragOver(false);
   };
 
+  const changeFolder = (next: FolderFilter) => {
+    setFolder(next);
+    setOffset(0);
+    setSelectedIds(new Set());
+  };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({ ...draft, search: draft.search.trim() });
+    setOffset(0);
+    setSelectedIds(new Set());
+  };
+
+  const resetFilters = () => {
+    setDraft(emptyFilters);
+    setFilters(emptyFilters);
+    setOffset(0);
+    setSelectedIds(new Set());
+  };
+
+  const changePage = (next: number) => {
+    setOffset(next);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const allSelected = mediaFiles.length > 0 && mediaFiles.every((file) => selectedIds.has(file.id));
+
+  const confirmDelete = (file: MediaWithUsage) => {
+    const inUse = file.usedIn.length > 0;
+    const message = inUse
+      ? `This file is used in ${describeUsage(file)}:\n\n${file.usedIn.map((project) => project.title).join("\n")}\n\nThose projects will show a broken link. Delete it anyway?`
+      : "Are you sure you want to delete this file?";
+    if (confirm(message)) {
+      deleteMutation.mutate({ id: file.id, force: inUse });
+    }
+  };
+
+  const handleBulkDelete = () => {
+    const ids = Array.from(selectedIds);
+    const inUse = mediaFiles.filter((file) => selectedIds.has(file.id) && file.usedIn.length > 0).length;
+    const files = `${ids.length} file${ids.length === 1 ? "" : "s"}`;
+    const message = inUse > 0
+      ? `${inUse} of the selected files ${inUse === 1 ? "is" : "are"} used in projects, which will show broken links. Delete ${files} anyway?`
+      : `Permanently delete ${files}?`;
+    if (confirm(message)) {
+      bulkMutation.mutate({ ids, force: inUse > 0 });
+    }
+  };
+
+  const handleBulkMove = (target: string) => {
+    bulkMutation.mutate({ ids: Array.from(selectedIds), folderId: target === NO_FOLDER ? null : parseInt(target) });
+  };
+
   const copyToClipboard = (url: string) => {
     navigator.clipboard.writeText(url);
     toast({
@@ -143,132 +337,403 @@ export default function MediaManager() {
     return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + " " + sizes[i];
   };
 
+  const filtered = JSON.stringify(filters) !== JSON.stringify(emptyFilters) || folder !== ALL;
+
   return (
     <div className="space-y-6">
       <h2 className="text-3xl font-bold text-foreground">Media Library</h2>
       
       {/* Upload Area */}
-      <Card
-        className={`transition-colors duration-200 ${
-          dragOver ? "border-primary bg-primary/5" : "border-dashed border-muted-foreground/25"
-        }`}
-        onDrop={handleDrop}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-      >
-        <CardContent className="p-8 text-center">
-          <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-          <p className="text-muted-foreground mb-4">
-            Drag and drop files here, or click to select
-          </p>
-          <p className="text-sm text-muted-foreground mb-4">
-            Supports images, videos, and documents (max 10MB)
-          </p>
-          <Button onClick={() => fileInputRef.current?.click()}>
-            Choose Files
-          </Button>
-          <input
-            ref={fileInputRef}
-            type="file"
-            multiple
-            className="hidden"
-            accept="image/*,video/*,.pdf,.doc,.docx"
-            onChange={(e) => handleFileSelect(e.target.files)}
-          />
-        </CardContent>
-      </Card>
-
-      {/* Loading State */}
-      {isLoading && (
-        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
-          {[...Array(12)].map((_, i) => (
-            <Card key={i} className="animate-pulse">
-              <CardContent className="p-4">
-                <div className="aspect-square bg-muted rounded mb-2"></div>
-                <div className="h-4 bg-muted rounded mb-1"></div>
-                <div className="h-3 bg-muted rounded w-2/3"></div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
+      {can("media:write") && (
+        <Card
+          className={`transition-colors duration-200 ${
+            dragOver ? "border-primary bg-primary/5" : "border-dashed border-muted-foreground/25"
+          }`}
+          onDrop={handleDrop}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+        >
+          <CardContent className="p-8 text-center">
+            <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground mb-4">
+              Drag and drop files here, or click to select
+            </p>
+            <p className="text-sm text-muted-foreground mb-4">
+              Images up to {formatLimit(uploadSizeLimits.image)}, videos up to {formatLimit(uploadSizeLimits.video)} and
+              documents up to {formatLimit(uploadSizeLimits.document)}
+            </p>
+            <Button onClick={() => fileInputRef.current?.click()}>
+              Choose Files
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              accept="image/*,video/*,.pdf,.doc,.docx"
+              onChange={(e) => {
+                handleFileSelect(e.target.files);
+                // Choosing the same file again after a failure should still upload it
+                e.target.value = "";
+              }}
+            />
+          </CardContent>
+        </Card>
       )}
 
-      {/* Media Grid */}
-      {!isLoading && mediaFiles.length === 0 && (
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="text-center py-16"
-        >
-          <div className="text-6xl mb-4">📁</div>
-          <h3 className="text-2xl font-semibold text-foreground mb-2">No media files</h3>
-          <p className="text-muted-foreground">Upload your first file to get started</p>
-        </motion.div>
+      {uploads.length > 0 && (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            {uploads.map((item) => (
+              <div key={item.id} className="flex items-center gap-4">
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex justify-between gap-4 text-sm">
+                    <span className="truncate">{item.file.name}</span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {item.error ? "Failed" : `${Math.floor((item.loaded / Math.max(item.file.size, 1)) * 100)}%`}
+                    </span>
+                  </div>
+                  {item.error ? (
+                    <p className="text-sm text-destructive">{item.error}</p>
+                  ) : (
+                    <Progress value={(item.loaded / Math.max(item.file.size, 1)) * 100} className="h-2" />
+                  )}
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  {item.error && !uploadProblem(item.file.name, item.file.size) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        removeUpload(item.id);
+                        void startUpload(item.file);
+                      }}
+                    >
+                      Retry
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title={item.error ? "Dismiss" : "Cancel upload"}
+                    onClick={() => cancelUpload(item)}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
       )}
 
-      {!isLoading && mediaFiles.length > 0 && (
-        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
-          {mediaFiles.map((file, index) => (
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <MediaFolders selected={folder} onSelect={changeFolder} />
+
+        <div className="lg:col-span-3 space-y-6">
+          {/* Filters */}
+          <Card>
+            <CardContent className="pt-6">
+              <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 items-end">
+                <div>
+                  <Label htmlFor="media-search">Search</Label>
+                  <Input
+                    id="media-search"
+                    type="search"
+                    placeholder="Name, alt text or caption"
+                    value={draft.search}
+                    onChange={(e) => setDraft({ ...draft, search: e.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label>Type</Label>
+                  <Select value={draft.kind} onValueChange={(kind) => setDraft({ ...draft, kind })}>
+                    <SelectTrigger className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All types</SelectItem>
+                      {mediaKinds.map((kind) => (
+                        <SelectItem key={kind} value={kind}>
+                          {kindLabels[kind]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Tag</Label>
+                  <Select value={draft.tag} onValueChange={(tag) => setDraft({ ...draft, tag })}>
+                    <SelectTrigger className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Any tag</SelectItem>
+                      {tags.map((tag) => (
+                        <SelectItem key={tag} value={tag}>
+                          {tag}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="media-from">From</Label>
+                    <Input
+                      id="media-from"
+                      type="date"
+                      value={draft.from}
+                      onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+                      className="mt-2"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="media-to">To</Label>
+                    <Input
+                      id="media-to"
+                      type="date"
+                      value={draft.to}
+                      onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+                      className="mt-2"
+                    />
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button type="submit">Apply</Button>
+                  <Button type="button" variant="outline" onClick={resetFilters}>
+                    Reset
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <div className="flex flex-wrap justify-between items-center gap-4">
+            <label className="flex items-center gap-3 text-sm text-muted-foreground">
+              <Checkbox
+                checked={allSelected}
+                disabled={mediaFiles.length === 0}
+                onCheckedChange={(checked) =>
+                  setSelectedIds(checked === true ? new Set(mediaFiles.map((file) => file.id)) : new Set())
+                }
+              />
+              {total} file{total === 1 ? "" : "s"}
+            </label>
+            <Select
+              value={sort}
+              onValueChange={(value) => {
+                setSort(value as MediaSort);
+                changePage(0);
+              }}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(sortLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedIds.size > 0 && (
+            <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border p-3">
+              <span className="text-sm text-muted-foreground mr-2">{selectedIds.size} selected</span>
+              {can("media:write") && (
+                <Select value="" onValueChange={handleBulkMove} disabled={bulkMutation.isPending}>
+                  <SelectTrigger className="w-44 h-9">
+                    <SelectValue placeholder="Move to folder" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_FOLDER}>Not in a folder</SelectItem>
+                    {folders.map((option) => (
+                      <SelectItem key={option.id} value={String(option.id)}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {can("media:delete") && (
+                <Button variant="outline" size="sm" onClick={handleBulkDelete} disabled={bulkMutation.isPending}>
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Delete
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                Clear
+              </Button>
+            </div>
+          )}
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+              {[...Array(12)].map((_, i) => (
+                <Card key={i} className="animate-pulse">
+                  <CardContent className="p-4">
+                    <div className="aspect-square bg-muted rounded mb-2"></div>
+                    <div className="h-4 bg-muted rounded mb-1"></div>
+                    <div className="h-3 bg-muted rounded w-2/3"></div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {/* Media Grid */}
+          {!isLoading && mediaFiles.length === 0 && (
             <motion.div
-              key={file.id}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.6, delay: index * 0.05 }}
+              className="text-center py-16"
             >
-              <Card className="group hover:shadow-lg transition-shadow duration-200">
-                <CardContent className="p-4">
-                  <div className="aspect-square bg-muted rounded mb-2 overflow-hidden relative">
-                    {file.mimeType.startsWith("image/") ? (
-                      <img
-                        src={file.url}
-                        alt={file.originalName}
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <div className="w-full h-full flex items-center justify-center text-muted-foreground">
-                        {getFileIcon(file.mimeType)}
-                      </div>
-                    )}
-                    
-                    {/* Overlay with actions */}
-                    <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center justify-center space-x-2">
-                      <Button
-                        size="sm"
-                        variant="secondary"
-                        onClick={() => copyToClipboard(file.url)}
-                      >
-                        <Copy className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="destructive"
-                        onClick={() => {
-                          if (confirm("Are you sure you want to delete this file?")) {
-                            deleteMutation.mutate(file.id);
-                          }
-                        }}
-                        disabled={deleteMutation.isPending}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  </div>
-                  
-                  <p className="text-sm font-medium text-foreground truncate" title={file.originalName}>
-                    {file.originalName}
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                    {formatFileSize(parseInt(file.size))}
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                    {formatDistance(new Date(file.createdAt), new Date(), { addSuffix: true })}
-                  </p>
-                </CardContent>
-              </Card>
+              <div className="text-6xl mb-4">📁</div>
+              <h3 className="text-2xl font-semibold text-foreground mb-2">No media files</h3>
+              <p className="text-muted-foreground">
+                {filtered ? "Nothing matches these filters" : "Upload your first file to get started"}
+              </p>
             </motion.div>
-          ))}
+          )}
+
+          {!isLoading && mediaFiles.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+              {mediaFiles.map((file, index) => (
+                <motion.div
+                  key={file.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.6, delay: Math.min(index, 12) * 0.05 }}
+                >
+                  <Card
+                    className={`group hover:shadow-lg transition-shadow duration-200 ${
+                      selectedIds.has(file.id) ? "ring-2 ring-primary" : ""
+                    }`}
+                  >
+                    <CardContent className="p-4">
+                      <div className="aspect-square bg-muted rounded mb-2 overflow-hidden relative">
+                        {file.mimeType.startsWith("image/") ? (
+                          <ResponsiveImage
+                            src={file.url}
+                            image={file}
+                            alt={file.altText || file.originalName}
+                            sizes="(min-width: 1280px) 16vw, (min-width: 768px) 25vw, 50vw"
+                            className="w-full h-full object-cover"
+                          />
+                        ) : file.preview ? (
+                          <ResponsiveImage
+                            src={file.preview.url}
+                            image={{ ...file.preview, variants: null, placeholder: file.placeholder }}
+                            alt={file.altText || file.originalName}
+                            sizes="(min-width: 1280px) 16vw, (min-width: 768px) 25vw, 50vw"
+                            className="w-full h-full object-cover object-top"
+                          />
+                        ) : (
+                          <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+                            {getFileIcon(file.mimeType)}
+                          </div>
+                        )}
+
+                        {(file.duration || file.pageCount) && (
+                          <span className="absolute bottom-2 right-2 flex items-center gap-1 rounded bg-black/70 px-1.5 py-0.5 text-xs text-white">
+                            {file.duration ? <Film className="w-3 h-3" /> : <FileText className="w-3 h-3" />}
+                            {file.duration ? formatDuration(file.duration) : formatPageCount(file.pageCount!)}
+                          </span>
+                        )}
+                        
+                        {/* Overlay with actions */}
+                        <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center justify-center space-x-2">
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => copyToClipboard(file.url)}
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            title="Details"
+                            onClick={() => setEditingId(file.id)}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          {can("media:delete") && (
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => confirmDelete(file)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+
+                        <div
+                          className={`absolute top-2 left-2 rounded bg-background/90 p-1 ${
+                            selectedIds.has(file.id) ? "" : "opacity-0 group-hover:opacity-100"
+                          }`}
+                        >
+                          <Checkbox
+                            checked={selectedIds.has(file.id)}
+                            onCheckedChange={(checked) => toggleSelected(file.id, checked === true)}
+                            aria-label={`Select ${file.originalName}`}
+                          />
+                        </div>
+                      </div>
+                      
+                      <p className="text-sm font-medium text-foreground truncate" title={file.originalName}>
+                        {file.originalName}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatFileSize(parseInt(file.size))}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistance(new Date(file.createdAt), new Date(), { addSuffix: true })}
+                      </p>
+                      {file.usedIn.length > 0 ? (
+                        <Badge
+                          variant="secondary"
+                          className="mt-1 text-xs"
+                          title={file.usedIn.map((project) => project.title).join("\n")}
+                        >
+                          <Link2 className="w-3 h-3 mr-1" />
+                          Used in {describeUsage(file)}
+                        </Badge>
+                      ) : (
+                        <p className="text-xs text-muted-foreground mt-1">Not used</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              ))}
+            </div>
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex justify-between items-center">
+              <Button variant="outline" onClick={() => changePage(Math.max(0, offset - PAGE_SIZE))} disabled={offset === 0}>
+                Previous
+              </Button>
+              <p className="text-sm text-muted-foreground">
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+              </p>
+              <Button variant="outline" onClick={() => changePage(offset + PAGE_SIZE)} disabled={offset + PAGE_SIZE >= total}>
+                Next
+              </Button>
+            </div>
+          )}
         </div>
-      )}
+      </div>
+
+      {editing && <MediaDetails key={editing.id} file={editing} onClose={() => setEditingId(null)} />}
     </div>
   );
 }
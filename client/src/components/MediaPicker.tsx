@@ -0,0 +1,284 @@
+import { useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import { FileText, Film, Search, Upload, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isMediaQuery, useMediaFolders } from "@/hooks/useMediaFolders";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { discardMediaUpload, uploadMediaFile } from "@/lib/uploads";
+import type { Media, MediaKind, MediaPage } from "@shared/schema";
+import { uploadKind, uploadProblem } from "@shared/uploads";
+import { formatDuration, formatPageCount } from "@shared/media";
+
+const PAGE_SIZE = 24;
+const ALL = "all";
+const NO_FOLDER = "none";
+
+const kindNames: Record<MediaKind, string> = {
+  image: "images",
+  video: "videos",
+  document: "documents",
+};
+
+interface MediaPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (file: Media) => void;
+  title: string;
+  // Only offers files of this kind, e.g. images for a featured image
+  kind?: MediaKind;
+}
+
+interface PickerUpload {
+  file: File;
+  loaded: number;
+  controller: AbortController;
+}
+
+// Browses the media library, or uploads a new file, and hands back the
+// chosen media record
+export default function MediaPicker({ open, onOpenChange, onSelect, title, kind }: MediaPickerProps) {
+  const [search, setSearch] = useState("");
+  const [appliedSearch, setAppliedSearch] = useState("");
+  const [folder, setFolder] = useState(ALL);
+  const [offset, setOffset] = useState(0);
+  const [upload, setUpload] = useState<PickerUpload | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { folders } = useMediaFolders();
+
+  const params = new URLSearchParams({ sort: "newest", limit: String(PAGE_SIZE), offset: String(offset) });
+  if (appliedSearch) params.set("search", appliedSearch);
+  if (kind) params.set("kind", kind);
+  if (folder !== ALL) params.set("folder", folder);
+
+  const { data, isLoading } = useQuery<MediaPage>({
+    queryKey: [`/api/admin/media?${params}`],
+    enabled: open,
+    retry: false,
+  });
+  const files = data?.files ?? [];
+  const total = data?.total ?? 0;
+
+  const choose = (file: Media) => {
+    onSelect(file);
+    onOpenChange(false);
+  };
+
+  const handleUploadError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    let description = "Failed to upload file. Please try again.";
+    try {
+      description = JSON.parse(error.message.replace(/^\d+: /, "")).message || description;
+    } catch {
+      // Non-JSON error body, keep the generic description
+    }
+    toast({ title: "Upload failed", description, variant: "destructive" });
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    const problem =
+      uploadProblem(file.name, file.size) ??
+      (kind && uploadKind(file.name) !== kind ? `Only ${kindNames[kind]} can be chosen here` : undefined);
+    if (problem) {
+      toast({ title: "Upload failed", description: problem, variant: "destructive" });
+      return;
+    }
+
+    const controller = new AbortController();
+    setUpload({ file, loaded: 0, controller });
+    try {
+      const media = await uploadMediaFile(file, {
+        // Files uploaded here land in the folder being browsed
+        folderId: folder === ALL || folder === NO_FOLDER ? null : parseInt(folder),
+        onProgress: (loaded) => setUpload((current) => current && { ...current, loaded }),
+        signal: controller.signal,
+      });
+      queryClient.invalidateQueries({ predicate: isMediaQuery });
+      choose(media);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        handleUploadError(error as Error);
+      }
+    } finally {
+      setUpload(null);
+    }
+  };
+
+  const cancelUpload = () => {
+    if (!upload) return;
+    upload.controller.abort();
+    void discardMediaUpload(upload.file);
+    setUpload(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Choose a file from the media library{can("media:write") ? " or upload a new one" : ""}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <form
+            className="flex flex-1 min-w-[12rem] gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setAppliedSearch(search.trim());
+              setOffset(0);
+            }}
+          >
+            <Input
+              type="search"
+              placeholder="Name, alt text or caption"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <Button type="submit" variant="outline" size="icon" title="Search">
+              <Search className="w-4 h-4" />
+            </Button>
+          </form>
+          <Select
+            value={folder}
+            onValueChange={(value) => {
+              setFolder(value);
+              setOffset(0);
+            }}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All folders</SelectItem>
+              <SelectItem value={NO_FOLDER}>Not in a folder</SelectItem>
+              {folders.map((option) => (
+                <SelectItem key={option.id} value={String(option.id)}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {can("media:write") && (
+            <>
+              <Button type="button" onClick={() => fileInputRef.current?.click()} disabled={!!upload}>
+                <Upload className="w-4 h-4 mr-2" />
+                Upload
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                className="hidden"
+                accept={kind === "image" ? "image/*" : "image/*,video/*,.pdf,.doc,.docx"}
+                onChange={(e) => {
+                  void handleUpload(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </>
+          )}
+        </div>
+
+        {upload && (
+          <div className="flex items-center gap-4">
+            <div className="flex-1 min-w-0 space-y-2">
+              <p className="text-sm truncate">Uploading {upload.file.name}</p>
+              <Progress value={(upload.loaded / Math.max(upload.file.size, 1)) * 100} className="h-2" />
+            </div>
+            <Button variant="ghost" size="icon" className="h-8 w-8" title="Cancel upload" onClick={cancelUpload}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
+        <div className="max-h-[55vh] overflow-y-auto">
+          {isLoading ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">Loading media...</p>
+          ) : files.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              {appliedSearch || folder !== ALL ? "Nothing matches these filters" : "The media library is empty"}
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3">
+              {files.map((file) => {
+                const thumbnail = file.mimeType.startsWith("image/") ? file : file.preview;
+                return (
+                  <button
+                    key={file.id}
+                    type="button"
+                    onClick={() => choose(file)}
+                    className="group text-left rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                  >
+                    <div className="relative aspect-square bg-muted rounded-md overflow-hidden mb-1 group-hover:ring-2 group-hover:ring-primary">
+                      {thumbnail ? (
+                        <ResponsiveImage
+                          src={thumbnail.url}
+                          image={thumbnail === file ? file : { ...thumbnail, variants: null, placeholder: file.placeholder }}
+                          alt={file.altText || file.originalName}
+                          sizes="(min-width: 1024px) 8rem, 25vw"
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+                          {file.mimeType.startsWith("video/") ? <Film className="w-6 h-6" /> : <FileText className="w-6 h-6" />}
+                        </div>
+                      )}
+                      {(file.duration || file.pageCount) && (
+                        <span className="absolute bottom-1 right-1 rounded bg-black/70 px-1 text-[10px] text-white">
+                          {file.duration ? formatDuration(file.duration) : formatPageCount(file.pageCount!)}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs truncate" title={file.originalName}>
+                      {file.originalName}
+                    </p>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {total > PAGE_SIZE && (
+          <div className="flex justify-between items-center">
+            <Button variant="outline" size="sm" onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))} disabled={offset === 0}>
+              Previous
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,10 +3,12 @@ import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Menu, X, User } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useSiteSettings } from "@/hooks/useSiteSettings";
 
 export default function Navigation() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const { isAuthenticated, isLoading } = useAuth();
+  const { settings } = useSiteSettings();
 
   const navItems = [
     { href: "#home", label: "Home" },
@@ -34,7 +36,7 @@ export default function Navigation() {
             className="flex items-center space-x-8"
           >
             <a href="/" className="text-2xl font-bold text-foreground">
-              Portfolio
+              {settings.general.siteName}
             </a>
             <div className="hidden md:flex space-x-6">
               {navItems.map((item) => (
@@ -3,10 +3,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Calendar } from "lucide-react";
 import { formatDistance } from "date-fns";
-import type { Project } from "@shared/schema";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import type { ProjectWithMedia } from "@shared/schema";
 
 interface ProjectCardProps {
-  project: Project;
+  project: ProjectWithMedia;
 }
 
 export default function ProjectCard({ project }: ProjectCardProps) {
@@ -19,9 +20,12 @@ export default function ProjectCard({ project }: ProjectCardProps) {
         <a href={`/case-study/${project.slug}`}>
           <div className="relative aspect-video bg-muted overflow-hidden">
             {project.featuredImage ? (
-              <img
+              <ResponsiveImage
                 src={project.featuredImage}
+                image={project.featuredMedia}
+                focus={project.featuredImageFocus}
                 alt={project.title}
+                sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
                 className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
               />
             ) : (
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,21 +10,62 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { X, Plus, Save, Eye } from "lucide-react";
-import { insertProjectSchema } from "@shared/schema";
+import { X, Plus, Save, Eye, History, Images } from "lucide-react";
+import ProjectHistory from "@/components/ProjectHistory";
+import MediaPicker from "@/components/MediaPicker";
+import FocalPointPicker from "@/components/FocalPointPicker";
+import GalleryEditor, { type GalleryDraft } from "@/components/GalleryEditor";
+import {
+  insertProjectSchema,
+  type Media,
+  type Project,
+  type ProjectMediaItem,
+  type SanitizeReport,
+} from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { format } from "date-fns";
 
 const projectFormSchema = insertProjectSchema.omit({ 
   authorId: true 
 }).extend({
   tags: z.string().optional(),
+  publishAt: z.string().optional(),
+  unpublishAt: z.string().optional(),
 });
 
+// datetime-local inputs work in local time without a timezone suffix
+const toDateTimeLocal = (value?: string | Date | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+
+const fromDateTimeLocal = (value?: string) =>
+  value ? new Date(value).toISOString() : null;
+
 type ProjectForm = z.infer<typeof projectFormSchema>;
 
+const describeStripped = (report: SanitizeReport) =>
+  report.stripped
+    .map((item) =>
+      item.kind === "tag"
+        ? `<${item.tag}>${item.value ? ` (${item.value})` : ""}`
+        : `${item.attribute} on <${item.tag}>`,
+    )
+    .join(", ");
+
+// Markdown for an uploaded file: images show inline, videos and PDFs embed
+// from a link on its own line, anything else is a plain link
+const mediaMarkdown = (file: Media) => {
+  if (file.mimeType.startsWith("image/")) {
+    return `![${(file.altText || "").replace(/[[\]]/g, "")}](${file.url})`;
+  }
+  if (file.mimeType.startsWith("video/") || file.mimeType === "application/pdf") {
+    return `\n\n${file.url}\n\n`;
+  }
+  return `[${file.originalName.replace(/[[\]]/g, "")}](${file.url})`;
+};
+
 interface ProjectEditorProps {
   project?: any;
   onClose: () => void;
@@ -34,9 +75,29 @@ export default function ProjectEditor({ project, onClose }: ProjectEditorProps)
   const [newTag, setNewTag] = useState("");
   const [tags, setTags] = useState<string[]>(project?.tags || []);
   const [content, setContent] = useState(project?.content || "");
+  const [showHistory, setShowHistory] = useState(false);
+  const [picker, setPicker] = useState<"featured" | "content" | null>(null);
+  const [gallery, setGallery] = useState<GalleryDraft[]>([]);
+  const [galleryChanged, setGalleryChanged] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
+  const { data: savedGallery } = useQuery<ProjectMediaItem[]>({
+    queryKey: [`/api/admin/projects/${project?.id}/media`],
+    enabled: !!project,
+  });
+
+  useEffect(() => {
+    if (savedGallery && !galleryChanged) {
+      setGallery(savedGallery.map((item) => ({ media: item.media, caption: item.caption ?? "", layout: item.layout })));
+    }
+  }, [savedGallery]);
+
+  const handleGalleryChange = (items: GalleryDraft[]) => {
+    setGallery(items);
+    setGalleryChanged(true);
+  };
+
   const form = useForm<ProjectForm>({
     resolver: zodResolver(projectFormSchema),
     defaultValues: {
@@ -46,7 +107,10 @@ export default function ProjectEditor({ project, onClose }: ProjectEditorProps)
       category: project?.category || "",
       content: project?.content || "",
       featuredImage: project?.featuredImage || "",
+      featuredImageFocus: project?.featuredImageFocus ?? null,
       status: project?.status || "draft",
+      publishAt: toDateTimeLocal(project?.publishAt),
+      unpublishAt: toDateTimeLocal(project?.unpublishAt),
     },
   });
 
@@ -59,27 +123,48 @@ export default function ProjectEditor({ project, onClose }: ProjectEditorProps)
         ...data,
         content,
         tags,
+        publishAt: data.status === "scheduled" ? fromDateTimeLocal(data.publishAt) : null,
+        unpublishAt: data.status === "draft" ? null : fromDateTimeLocal(data.unpublishAt),
       };
       
       console.log("Final project data:", projectData);
       
+      let response: Response;
       if (project) {
         console.log(`Making PUT request to /api/admin/projects/${project.id}`);
-        return await apiRequest("PUT", `/api/admin/projects/${project.id}`, projectData);
+        response = await apiRequest("PUT", `/api/admin/projects/${project.id}`, projectData);
       } else {
         console.log("Making POST request to /api/admin/projects");
-        return await apiRequest("POST", "/api/admin/projects", projectData);
+        response = await apiRequest("POST", "/api/admin/projects", projectData);
       }
+      const saved: Project & { sanitizeReport?: SanitizeReport } = await response.json();
+
+      // A new project needs its id before its gallery can be saved
+      if (galleryChanged) {
+        await apiRequest("PUT", `/api/admin/projects/${saved.id}/media`, {
+          items: gallery.map((item) => ({ mediaId: item.media.id, caption: item.caption, layout: item.layout })),
+        });
+      }
+      return saved;
     },
-    onSuccess: (data) => {
+    onSuccess: (saved) => {
       console.log("=== MUTATION SUCCESS ===");
-      console.log("Success data:", data);
+      console.log("Success data:", saved);
       queryClient.invalidateQueries({ queryKey: ["/api/admin/projects"] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
-      toast({
-        title: project ? "Project updated" : "Project created",
-        description: `The project has been successfully ${project ? "updated" : "created"}.`,
-      });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/projects/${saved.id}/media`] });
+      if (saved.sanitizeReport && saved.sanitizeReport.stripped.length > 0) {
+        toast({
+          title: project ? "Project updated, unsafe HTML removed" : "Project created, unsafe HTML removed",
+          description: `Stripped from the content: ${describeStripped(saved.sanitizeReport)}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: project ? "Project updated" : "Project created",
+          description: `The project has been successfully ${project ? "updated" : "created"}.`,
+        });
+      }
       console.log("Closing modal...");
       onClose();
     },
@@ -99,9 +184,16 @@ export default function ProjectEditor({ project, onClose }: ProjectEditorProps)
         }, 500);
         return;
       }
+      const message = (error as Error).message.replace(/^\d+: /, "");
+      let description = `Failed to ${project ? "update" : "create"} project. Please try again.`;
+      try {
+        description = JSON.parse(message).message || description;
+      } catch {
+        // Non-JSON error body, keep the generic description
+      }
       toast({
         title: "Error",
-        description: `Failed to ${project ? "update" : "create"} project. Please try again.`,
+        description,
         variant: "destructive",
       });
     },
@@ -131,6 +223,19 @@ export default function ProjectEditor({ project, onClose }: ProjectEditorProps)
     mutation.mutate(data);
   };
 
+  const handleRestored = (restored: Project) => {
+    form.reset({
+      ...form.getValues(),
+      title: restored.title,
+      slug: restored.slug,
+      description: restored.description,
+      content: restored.content,
+    });
+    setContent(restored.content);
+    setTags(restored.tags || []);
+    setShowHistory(false);
+  };
+
   // Simple content editor toolbar actions
   const insertText = (before: string, after: string = "") => {
     const textarea = document.getElementById("content-editor") as HTMLTextAreaElement;
@@ -150,6 +255,30 @@ export default function ProjectEditor({ project, onClose }: ProjectEditorProps)
     }, 0);
   };
 
+  // Replaces the selection in the content editor, leaving the cursor after
+  // the inserted text
+  const replaceSelection = (text: string) => {
+    const textarea = document.getElementById("content-editor") as HTMLTextAreaElement;
+    if (!textarea) return;
+
+    const start = textarea.selectionStart;
+    const newText = content.substring(0, start) + text + content.substring(textarea.selectionEnd);
+    setContent(newText);
+
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + text.length, start + text.length);
+    }, 0);
+  };
+
+  // A new featured image starts centred again
+  const setFeaturedImage = (url: string) => {
+    form.setValue("featuredImage", url, { shouldDirty: true });
+    form.setValue("featuredImageFocus", null, { shouldDirty: true });
+  };
+
+  const featuredImage = form.watch("featuredImage");
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 p-6 overflow-y-auto">
       <motion.div
@@ -165,13 +294,32 @@ export default function ProjectEditor({ project, onClose }: ProjectEditorProps)
               <CardTitle className="text-2xl">
                 {project ? "Edit Project" : "Create New Project"}
               </CardTitle>
-              <Button variant="ghost" size="sm" onClick={onClose}>
-                <X className="w-4 h-4" />
-              </Button>
+              <div className="flex items-center space-x-2">
+                {project && (
+                  <Button
+                    variant={showHistory ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setShowHistory(!showHistory)}
+                  >
+                    <History className="w-4 h-4 mr-2" />
+                    History
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={onClose}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
             </div>
           </CardHeader>
           
           <CardContent className="p-8">
+            {project && showHistory && (
+              <div className="mb-8 pb-8 border-b border-border">
+                <h3 className="text-lg font-semibold text-foreground mb-4">Revision History</h3>
+                <ProjectHistory projectId={project.id} onRestored={handleRestored} />
+              </div>
+            )}
+
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
@@ -229,12 +377,41 @@ export default function ProjectEditor({ project, onClose }: ProjectEditorProps)
               </div>
 
               <div>
-                <Label htmlFor="featuredImage">Featured Image URL</Label>
-                <Input
-                  {...form.register("featuredImage")}
-                  placeholder="https://example.com/image.jpg"
-                  className="mt-2"
-                />
+                <Label htmlFor="featuredImage">Featured Image</Label>
+                <div className="flex gap-2 mt-2">
+                  <Input
+                    {...form.register("featuredImage", {
+                      onChange: () => form.setValue("featuredImageFocus", null),
+                    })}
+                    placeholder="https://example.com/image.jpg"
+                  />
+                  <Button type="button" variant="outline" onClick={() => setPicker("featured")}>
+                    <Images className="w-4 h-4 mr-2" />
+                    Library
+                  </Button>
+                  {featuredImage && (
+                    <Button type="button" variant="ghost" size="icon" onClick={() => setFeaturedImage("")} title="Remove">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                {featuredImage && (
+                  <div className="mt-3">
+                    <FocalPointPicker
+                      src={featuredImage}
+                      value={form.watch("featuredImageFocus")}
+                      onChange={(focus) => form.setValue("featuredImageFocus", focus, { shouldDirty: true })}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <Label>Gallery</Label>
+                <p className="text-xs text-muted-foreground mt-1 mb-2">
+                  Shown below the case study, in this order. Visitors can open the images in a lightbox.
+                </p>
+                <GalleryEditor items={gallery} onChange={handleGalleryChange} />
               </div>
 
               <div>
@@ -326,6 +503,16 @@ export default function ProjectEditor({ project, onClose }: ProjectEditorProps)
                     >
                       Link
                     </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPicker("content")}
+                      title="Insert from media library"
+                    >
+                      <Images className="w-4 h-4 mr-1" />
+                      Media
+                    </Button>
                   </div>
                   
                   <Textarea
@@ -338,25 +525,51 @@ export default function ProjectEditor({ project, onClose }: ProjectEditorProps)
                   />
                 </div>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Supports basic markdown formatting (**, *, ##, -, [](url))
+                  Supports basic markdown formatting (**, *, ##, -, [](url)). Put the link to an uploaded video or PDF
+                  on its own line to embed it.
                 </p>
               </div>
 
-              <div className="flex justify-between items-center pt-6 border-t border-border">
-                <div>
-                  <Label htmlFor="status">Status</Label>
-                  <Select
-                    value={form.watch("status")}
-                    onValueChange={(value) => form.setValue("status", value)}
-                  >
-                    <SelectTrigger className="w-32 mt-2">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="draft">Draft</SelectItem>
-                      <SelectItem value="published">Published</SelectItem>
-                    </SelectContent>
-                  </Select>
+              <div className="flex justify-between items-end pt-6 border-t border-border">
+                <div className="flex flex-wrap items-end gap-4">
+                  <div>
+                    <Label htmlFor="status">Status</Label>
+                    <Select
+                      value={form.watch("status")}
+                      onValueChange={(value) => form.setValue("status", value)}
+                    >
+                      <SelectTrigger className="w-32 mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="draft">Draft</SelectItem>
+                        <SelectItem value="scheduled">Scheduled</SelectItem>
+                        <SelectItem value="published">Published</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {form.watch("status") === "scheduled" && (
+                    <div>
+                      <Label htmlFor="publishAt">Publish At</Label>
+                      <Input
+                        {...form.register("publishAt")}
+                        type="datetime-local"
+                        className="mt-2"
+                      />
+                    </div>
+                  )}
+
+                  {form.watch("status") !== "draft" && (
+                    <div>
+                      <Label htmlFor="unpublishAt">Unpublish At (optional)</Label>
+                      <Input
+                        {...form.register("unpublishAt")}
+                        type="datetime-local"
+                        className="mt-2"
+                      />
+                    </div>
+                  )}
                 </div>
                 
                 <div className="flex space-x-4">
@@ -395,6 +608,14 @@ export default function ProjectEditor({ project, onClose }: ProjectEditorProps)
           </CardContent>
         </Card>
       </motion.div>
+
+      <MediaPicker
+        open={picker !== null}
+        onOpenChange={(open) => !open && setPicker(null)}
+        title={picker === "featured" ? "Choose a featured image" : "Insert media"}
+        kind={picker === "featured" ? "image" : undefined}
+        onSelect={(file) => (picker === "featured" ? setFeaturedImage(file.url) : replaceSelection(mediaMarkdown(file)))}
+      />
     </div>
   );
 }
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import { cn } from "@/lib/utils";
+import type { GalleryImage, GalleryLayout } from "@shared/schema";
+
+const layoutColumns: Record<GalleryLayout, string> = {
+  full: "md:col-span-6",
+  half: "md:col-span-3",
+  third: "md:col-span-2",
+};
+
+// The case study column is 56rem wide at most
+const layoutSizes: Record<GalleryLayout, string> = {
+  full: "(min-width: 56rem) 56rem, 100vw",
+  half: "(min-width: 56rem) 28rem, (min-width: 768px) 50vw, 100vw",
+  third: "(min-width: 56rem) 19rem, (min-width: 768px) 33vw, 100vw",
+};
+
+interface ProjectGalleryProps {
+  title: string;
+  images: GalleryImage[];
+}
+
+// A case study's gallery laid out by each image's layout hint. Clicking an
+// image opens the whole gallery in a lightbox at that image.
+export default function ProjectGallery({ title, images }: ProjectGalleryProps) {
+  const [openAt, setOpenAt] = useState<number | null>(null);
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  const altFor = (item: GalleryImage) => item.image.altText || item.caption || "";
+  const shown = images[current];
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+        {images.map((item, index) => (
+          <figure key={item.id} className={cn("space-y-2", layoutColumns[item.layout])}>
+            <button
+              type="button"
+              onClick={() => setOpenAt(index)}
+              className={cn(
+                "relative block w-full bg-muted rounded-lg overflow-hidden focus:outline-none focus-visible:ring-2 focus-visible:ring-primary",
+                item.layout === "full" ? "aspect-video" : "aspect-[4/3]",
+              )}
+              aria-label={`Open image ${index + 1} of ${images.length}`}
+            >
+              <ResponsiveImage
+                src={item.image.url}
+                image={item.image}
+                alt={altFor(item)}
+                sizes={layoutSizes[item.layout]}
+                className="w-full h-full object-cover transition-transform duration-300 hover:scale-105"
+              />
+            </button>
+            {item.caption && <figcaption className="text-sm text-muted-foreground">{item.caption}</figcaption>}
+          </figure>
+        ))}
+      </div>
+
+      <Dialog open={openAt !== null} onOpenChange={(open) => !open && setOpenAt(null)}>
+        <DialogContent className="max-w-6xl p-4 sm:p-6">
+          <DialogTitle className="sr-only">{title} gallery</DialogTitle>
+          <DialogDescription className="sr-only">Use the arrow keys to move between images.</DialogDescription>
+          <Carousel setApi={setApi} opts={{ startIndex: openAt ?? 0, loop: true }}>
+            <CarouselContent>
+              {images.map((item) => (
+                <CarouselItem key={item.id} className="flex items-center justify-center h-[75vh]">
+                  <ResponsiveImage
+                    src={item.image.url}
+                    // The blurred placeholder would fill the whole slide, not just the image
+                    image={{ ...item.image, placeholder: null }}
+                    alt={altFor(item)}
+                    sizes="90vw"
+                    className="max-w-full max-h-full object-contain rounded-md"
+                  />
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            {images.length > 1 && (
+              <>
+                <CarouselPrevious className="left-2" />
+                <CarouselNext className="right-2" />
+              </>
+            )}
+          </Carousel>
+          <div className="flex justify-between gap-4 text-sm text-muted-foreground">
+            <p>{shown?.caption}</p>
+            <p className="shrink-0">
+              {current + 1} / {images.length}
+            </p>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
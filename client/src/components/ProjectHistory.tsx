@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistance } from "date-fns";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { Project, ProjectRevision } from "@shared/schema";
+import type { RevisionDiff } from "@shared/diff";
+
+interface ProjectHistoryProps {
+  projectId: number;
+  onRestored: (project: Project) => void;
+}
+
+export default function ProjectHistory({ projectId, onRestored }: ProjectHistoryProps) {
+  const [from, setFrom] = useState<string>("");
+  const [to, setTo] = useState<string>("current");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: revisions = [], isLoading } = useQuery<ProjectRevision[]>({
+    queryKey: ["/api/admin/projects", projectId, "revisions"],
+    retry: false,
+  });
+
+  const { data: diff, isFetching: diffLoading } = useQuery<RevisionDiff>({
+    queryKey: [`/api/admin/projects/${projectId}/revisions/diff?from=${from}&to=${to}`],
+    enabled: from !== "",
+    retry: false,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const response = await apiRequest("POST", `/api/admin/projects/${projectId}/revisions/${revisionId}/restore`);
+      return (await response.json()) as Project;
+    },
+    onSuccess: (project) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      setFrom("");
+      setTo("current");
+      toast({
+        title: "Revision restored",
+        description: "The project has been restored to the selected revision.",
+      });
+      onRestored(project);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to restore revision. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revisionLabel = (revision: ProjectRevision) =>
+    `#${revision.id} · ${revision.createdAt ? formatDistance(new Date(revision.createdAt), new Date(), { addSuffix: true }) : "Unknown"}`;
+
+  const handleRestore = (revisionId: number) => {
+    if (confirm("Restore this revision? The current version will be kept in the history.")) {
+      restoreMutation.mutate(revisionId);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-10 bg-muted rounded animate-pulse"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No revisions yet. A revision is saved every time this project is updated.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {revisions.map((revision) => (
+          <div
+            key={revision.id}
+            className="flex items-center justify-between rounded-lg border border-border p-3"
+          >
+            <div className="space-y-1 min-w-0">
+              <p className="text-sm font-medium text-foreground truncate">{revision.title}</p>
+              <p className="text-xs text-muted-foreground">{revisionLabel(revision)}</p>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setFrom(String(revision.id));
+                  setTo("current");
+                }}
+              >
+                Compare
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleRestore(revision.id)}
+                disabled={restoreMutation.isPending}
+                title="Restore"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>From</Label>
+          <Select value={from} onValueChange={setFrom}>
+            <SelectTrigger className="mt-2">
+              <SelectValue placeholder="Select revision" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="current">Current version</SelectItem>
+              {revisions.map((revision) => (
+                <SelectItem key={revision.id} value={String(revision.id)}>
+                  {revisionLabel(revision)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>To</Label>
+          <Select value={to} onValueChange={setTo}>
+            <SelectTrigger className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="current">Current version</SelectItem>
+              {revisions.map((revision) => (
+                <SelectItem key={revision.id} value={String(revision.id)}>
+                  {revisionLabel(revision)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {diffLoading && <div className="h-32 bg-muted rounded animate-pulse"></div>}
+
+      {!diffLoading && diff && (
+        <div className="space-y-4">
+          {diff.title.changed && (
+            <div className="text-sm">
+              <span className="font-medium text-foreground">Title: </span>
+              <span className="line-through text-destructive">{diff.title.from}</span>{" "}
+              <span className="text-green-600">{diff.title.to}</span>
+            </div>
+          )}
+          {diff.description.changed && (
+            <div className="text-sm space-y-1">
+              <p className="font-medium text-foreground">Description</p>
+              <p className="line-through text-destructive">{diff.description.from}</p>
+              <p className="text-green-600">{diff.description.to}</p>
+            </div>
+          )}
+          {diff.tags.changed && (
+            <div className="text-sm flex flex-wrap items-center gap-2">
+              <span className="font-medium text-foreground">Tags:</span>
+              {diff.tags.from.filter(tag => !diff.tags.to.includes(tag)).map((tag) => (
+                <Badge key={`removed-${tag}`} variant="destructive">{tag}</Badge>
+              ))}
+              {diff.tags.to.filter(tag => !diff.tags.from.includes(tag)).map((tag) => (
+                <Badge key={`added-${tag}`} variant="secondary">+ {tag}</Badge>
+              ))}
+            </div>
+          )}
+          <pre className="text-xs font-mono rounded-lg border border-border overflow-x-auto max-h-96">
+            {diff.content.map((line, index) => (
+              <div
+                key={index}
+                className={
+                  line.type === "added"
+                    ? "bg-green-500/10 text-green-700 px-3"
+                    : line.type === "removed"
+                      ? "bg-destructive/10 text-destructive px-3"
+                      : "text-muted-foreground px-3"
+                }
+              >
+                {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
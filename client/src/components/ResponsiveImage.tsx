@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { buildSrcSet, imageVariantFormats } from "@shared/images";
+import type { FocalPoint, ResponsiveImageSource } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface ResponsiveImageProps {
+  src: string;
+  alt: string;
+  // Media record for src, when it is an upload; plain URLs render as-is
+  image?: ResponsiveImageSource | null;
+  // How wide the image is displayed, for the browser to pick a variant
+  sizes: string;
+  className?: string;
+  // Above-the-fold images load right away instead of lazily
+  priority?: boolean;
+  // The part of the image to keep in view when object-cover crops it
+  focus?: FocalPoint | null;
+}
+
+// Renders an image with AVIF/WebP variants and a blurred placeholder that
+// fades out once the image has loaded. Place it in a positioned container.
+export default function ResponsiveImage({ src, alt, image, sizes, className, priority = false, focus }: ResponsiveImageProps) {
+  const [loaded, setLoaded] = useState(false);
+  const placeholder = image?.placeholder;
+  const style = focus ? { objectPosition: `${focus.x}% ${focus.y}%` } : undefined;
+
+  return (
+    <>
+      {placeholder && !loaded && (
+        <img
+          src={placeholder}
+          alt=""
+          aria-hidden="true"
+          className="absolute inset-0 w-full h-full object-cover blur-lg scale-110"
+          style={style}
+        />
+      )}
+      <picture className="contents">
+        {imageVariantFormats.map((format) => {
+          const srcSet = buildSrcSet(image?.variants, format);
+          return srcSet && <source key={format} type={`image/${format}`} srcSet={srcSet} sizes={sizes} />;
+        })}
+        <img
+          src={src}
+          alt={alt}
+          width={image?.width ?? undefined}
+          height={image?.height ?? undefined}
+          loading={priority ? "eager" : "lazy"}
+          decoding="async"
+          onLoad={() => setLoaded(true)}
+          style={style}
+          className={cn(
+            "relative",
+            placeholder && "transition-opacity duration-500",
+            placeholder && !loaded && "opacity-0",
+            className,
+          )}
+        />
+      </picture>
+    </>
+  );
+}
@@ -0,0 +1,133 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Monitor } from "lucide-react";
+import { formatDistance } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { ActiveSession } from "@shared/schema";
+
+// Enough of the user agent to tell devices apart, e.g. "Chrome on macOS"
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : null;
+  const os = /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  return browser && os ? `${browser} on ${os}` : browser || os || userAgent.slice(0, 40);
+}
+
+export default function SessionsManager() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/admin/sessions"],
+    retry: false,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: ActiveSession) => {
+      await apiRequest("DELETE", `/api/admin/sessions/${session.id}`);
+      return session;
+    },
+    onSuccess: (session) => {
+      if (session.current) {
+        window.location.href = "/";
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sessions"] });
+      toast({
+        title: "Session revoked",
+        description: "That device has been signed out.",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to revoke session. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRevoke = (session: ActiveSession) => {
+    const message = session.current
+      ? "Sign out of this device?"
+      : "Sign out this session? The device will need to log in again.";
+    if (confirm(message)) {
+      revokeMutation.mutate(session);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active Sessions</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="h-12 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active sessions.</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between py-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <Monitor className="w-5 h-5 text-muted-foreground shrink-0" />
+                  <div className="space-y-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">
+                      {describeDevice(session.userAgent)}
+                      {session.current && (
+                        <Badge variant="outline" className="ml-2 text-xs">This device</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {can("users:manage") && `${session.userName || session.userEmail || session.userId} · `}
+                      {session.ip ?? "Unknown IP"} · Active {formatDistance(new Date(session.lastSeenAt), new Date(), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(session)}
+                  disabled={revokeMutation.isPending}
+                >
+                  {session.current ? "Sign out" : "Revoke"}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,18 @@
+import SocialLinks from "@/components/SocialLinks";
+import { useSiteSettings } from "@/hooks/useSiteSettings";
+
+export default function SiteFooter() {
+  const { settings } = useSiteSettings();
+
+  return (
+    <footer className="py-8 bg-slate-50 border-t border-border">
+      <div className="max-w-7xl mx-auto px-6 lg:px-8 flex flex-col sm:flex-row items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          © {new Date().getFullYear()} {settings.general.siteName}
+          {settings.footer.text && `. ${settings.footer.text}`}
+        </p>
+        {settings.social.length > 0 && <SocialLinks links={settings.social} iconClassName="w-5 h-5" />}
+      </div>
+    </footer>
+  );
+}
@@ -0,0 +1,264 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { socialPlatformLabels } from "@/components/SocialLinks";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useSiteSettings } from "@/hooks/useSiteSettings";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { siteSettingsSchema, socialPlatforms, type SiteSettings, type SocialPlatform } from "@shared/schema";
+
+// Skills and tools are edited one per line
+const settingsFormSchema = siteSettingsSchema.extend({
+  about: siteSettingsSchema.shape.about.extend({
+    skills: z.string(),
+    tools: z.string(),
+  }),
+});
+
+type SettingsForm = z.infer<typeof settingsFormSchema>;
+
+const toLines = (items: string[]) => items.join("\n");
+
+const fromLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const toFormValues = (settings: SiteSettings): SettingsForm => ({
+  ...settings,
+  about: { ...settings.about, skills: toLines(settings.about.skills), tools: toLines(settings.about.tools) },
+});
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-destructive text-sm mt-1">{message}</p> : null;
+}
+
+export default function SiteSettingsForm() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { settings, isLoading } = useSiteSettings();
+
+  const form = useForm<SettingsForm>({
+    resolver: zodResolver(settingsFormSchema),
+    defaultValues: toFormValues(settings),
+  });
+  const { errors } = form.formState;
+
+  const social = useFieldArray({ control: form.control, name: "social" });
+
+  // The saved settings arrive after the first render
+  useEffect(() => {
+    if (!isLoading) {
+      form.reset(toFormValues(settings));
+    }
+  }, [isLoading, settings]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: SettingsForm) => {
+      const response = await apiRequest("PUT", "/api/admin/settings", {
+        ...data,
+        about: { ...data.about, skills: fromLines(data.about.skills), tools: fromLines(data.about.tools) },
+      });
+      return (await response.json()) as SiteSettings;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings"], saved);
+      toast({
+        title: "Settings saved",
+        description: "The public site now shows your changes.",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save settings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="h-64 bg-muted rounded-xl animate-pulse"></div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Site Content</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-8">
+          <section className="space-y-4">
+            <h3 className="font-semibold text-foreground">General</h3>
+            <div>
+              <Label htmlFor="siteName">Site name</Label>
+              <Input id="siteName" {...form.register("general.siteName")} className="mt-2" />
+              <FieldError message={errors.general?.siteName?.message} />
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="font-semibold text-foreground">Hero</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="heroTitle">Title</Label>
+                <Input id="heroTitle" {...form.register("hero.title")} className="mt-2" />
+                <FieldError message={errors.hero?.title?.message} />
+              </div>
+              <div>
+                <Label htmlFor="heroHighlight">Highlighted words</Label>
+                <Input
+                  id="heroHighlight"
+                  {...form.register("hero.highlight")}
+                  placeholder="Part of the title shown in colour"
+                  className="mt-2"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="heroSubtitle">Subtitle</Label>
+              <Textarea id="heroSubtitle" {...form.register("hero.subtitle")} rows={2} className="mt-2" />
+              <FieldError message={errors.hero?.subtitle?.message} />
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="font-semibold text-foreground">About</h3>
+            <div>
+              <Label htmlFor="aboutHeading">Heading</Label>
+              <Input id="aboutHeading" {...form.register("about.heading")} className="mt-2" />
+              <FieldError message={errors.about?.heading?.message} />
+            </div>
+            <div>
+              <Label htmlFor="aboutBody">Text</Label>
+              <Textarea
+                id="aboutBody"
+                {...form.register("about.body")}
+                rows={6}
+                placeholder="Separate paragraphs with a blank line"
+                className="mt-2"
+              />
+              <FieldError message={errors.about?.body?.message} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="aboutSkills">Skills (one per line)</Label>
+                <Textarea id="aboutSkills" {...form.register("about.skills")} rows={5} className="mt-2" />
+              </div>
+              <div>
+                <Label htmlFor="aboutTools">Tools (one per line)</Label>
+                <Textarea id="aboutTools" {...form.register("about.tools")} rows={5} className="mt-2" />
+              </div>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="font-semibold text-foreground">Contact</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="contactHeading">Heading</Label>
+                <Input id="contactHeading" {...form.register("contact.heading")} className="mt-2" />
+                <FieldError message={errors.contact?.heading?.message} />
+              </div>
+              <div>
+                <Label htmlFor="contactIntro">Intro</Label>
+                <Input id="contactIntro" {...form.register("contact.intro")} className="mt-2" />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="contactEmail">Email</Label>
+                <Input id="contactEmail" type="email" {...form.register("contact.email")} className="mt-2" />
+                <FieldError message={errors.contact?.email?.message} />
+              </div>
+              <div>
+                <Label htmlFor="contactPhone">Phone</Label>
+                <Input id="contactPhone" {...form.register("contact.phone")} className="mt-2" />
+              </div>
+              <div>
+                <Label htmlFor="contactLocation">Location</Label>
+                <Input id="contactLocation" {...form.register("contact.location")} className="mt-2" />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Leave a field empty to hide it.</p>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="font-semibold text-foreground">Social profiles</h3>
+            {social.fields.map((field, index) => (
+              <div key={field.id} className="flex items-start gap-2">
+                <Select
+                  value={form.watch(`social.${index}.platform`)}
+                  onValueChange={(value) => form.setValue(`social.${index}.platform`, value as SocialPlatform)}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {socialPlatforms.map((platform) => (
+                      <SelectItem key={platform} value={platform}>
+                        {socialPlatformLabels[platform]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex-1">
+                  <Input {...form.register(`social.${index}.url`)} placeholder="https://" />
+                  <FieldError message={errors.social?.[index]?.url?.message} />
+                </div>
+                <Button type="button" variant="outline" size="icon" onClick={() => social.remove(index)} title="Remove">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => social.append({ platform: "linkedin", url: "" })}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add profile
+            </Button>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="font-semibold text-foreground">Footer</h3>
+            <div>
+              <Label htmlFor="footerText">Text after the copyright notice</Label>
+              <Input id="footerText" {...form.register("footer.text")} className="mt-2" />
+              <FieldError message={errors.footer?.text?.message} />
+            </div>
+          </section>
+
+          <Button type="submit" disabled={mutation.isPending}>
+            <Save className="w-4 h-4 mr-2" />
+            {mutation.isPending ? "Saving..." : "Save settings"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
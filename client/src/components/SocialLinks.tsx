@@ -0,0 +1,51 @@
+import { Dribbble, Github, Globe, Instagram, Linkedin, Twitter, View, Youtube, type LucideIcon } from "lucide-react";
+import type { SocialLink, SocialPlatform } from "@shared/schema";
+
+export const socialPlatformLabels: Record<SocialPlatform, string> = {
+  linkedin: "LinkedIn",
+  github: "GitHub",
+  dribbble: "Dribbble",
+  behance: "Behance",
+  twitter: "X / Twitter",
+  instagram: "Instagram",
+  youtube: "YouTube",
+  website: "Website",
+};
+
+const socialIcons: Record<SocialPlatform, LucideIcon> = {
+  linkedin: Linkedin,
+  github: Github,
+  dribbble: Dribbble,
+  behance: View,
+  twitter: Twitter,
+  instagram: Instagram,
+  youtube: Youtube,
+  website: Globe,
+};
+
+interface SocialLinksProps {
+  links: SocialLink[];
+  iconClassName?: string;
+}
+
+export default function SocialLinks({ links, iconClassName = "w-6 h-6" }: SocialLinksProps) {
+  return (
+    <div className="flex space-x-4">
+      {links.map((link) => {
+        const Icon = socialIcons[link.platform];
+        return (
+          <a
+            key={`${link.platform}-${link.url}`}
+            href={link.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            aria-label={socialPlatformLabels[link.platform]}
+            className="text-muted-foreground hover:text-primary transition-colors duration-200"
+          >
+            <Icon className={iconClassName} />
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { roles, type Role } from "@shared/permissions";
+import { ShieldCheck } from "lucide-react";
+import type { TeamMember } from "@shared/schema";
+
+const roleDescriptions: Record<Role, string> = {
+  owner: "Full access, including team management",
+  editor: "Create, edit and delete content",
+  viewer: "Read-only access to the dashboard",
+  pending: "No access until an owner picks a role",
+};
+
+export default function TeamManager() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user: currentUser, can } = useAuth();
+
+  const { data: users = [], isLoading } = useQuery<TeamMember[]>({
+    queryKey: ["/api/admin/users"],
+    retry: false,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: Role }) => {
+      await apiRequest("PATCH", `/api/admin/users/${id}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({
+        title: "Role updated",
+        description: "The team member's role has been updated.",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update role. An owner must always remain.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/users/${id}/two-factor`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Two-factor reset",
+        description: "They can sign in with their password and set up two-factor again.",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to reset two-factor authentication. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleResetTwoFactor = (user: TeamMember) => {
+    const name = user.email || user.id;
+    if (confirm(`Reset two-factor authentication for ${name}? They will only need their password to sign in until they set it up again.`)) {
+      resetTwoFactorMutation.mutate(user.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="divide-y divide-border">
+            {users.map((user) => (
+              <div key={user.id} className="flex items-center justify-between py-3">
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-foreground">
+                    {[user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id}
+                    {user.id === currentUser?.id && (
+                      <Badge variant="outline" className="ml-2 text-xs">You</Badge>
+                    )}
+                    {user.twoFactorEnabled && (
+                      <span title="Two-factor authentication on">
+                        <ShieldCheck className="inline w-4 h-4 ml-2 text-green-600" />
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{user.email}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {can("users:manage") && user.twoFactorEnabled && user.id !== currentUser?.id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleResetTwoFactor(user)}
+                      disabled={resetTwoFactorMutation.isPending}
+                    >
+                      Reset 2FA
+                    </Button>
+                  )}
+                  {can("users:manage") ? (
+                    <Select
+                      value={user.role}
+                      onValueChange={(role) => roleMutation.mutate({ id: user.id, role: role as Role })}
+                      disabled={roleMutation.isPending}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            <span className="capitalize">{role}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary" className="capitalize" title={roleDescriptions[user.role as Role]}>
+                      {user.role}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="mt-6 space-y-1">
+          {roles.map((role) => (
+            <p key={role} className="text-xs text-muted-foreground">
+              <span className="font-medium capitalize text-foreground">{role}</span>: {roleDescriptions[role]}
+            </p>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { TwoFactorSetup } from "@shared/schema";
+
+type Step = "idle" | "enroll" | "disable" | "regenerate";
+
+function CodeInput({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled}>
+      <InputOTPGroup>
+        {[...Array(6)].map((_, i) => (
+          <InputOTPSlot key={i} index={i} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export default function TwoFactorSettings() {
+  const [step, setStep] = useState<Step>("idle");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const reset = () => {
+    setStep("idle");
+    setSetup(null);
+    setCode("");
+  };
+
+  const showError = (description: string) => {
+    toast({ title: "Error", description, variant: "destructive" });
+    setCode("");
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return (await response.json()) as TwoFactorSetup;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setRecoveryCodes(null);
+      setStep("enroll");
+    },
+    onError: () => showError("Failed to start two-factor setup. Please try again."),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return (await response.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      setRecoveryCodes(data.recoveryCodes);
+      reset();
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "Save your recovery codes somewhere safe.",
+      });
+    },
+    onError: () => showError("That code didn't work. Check your authenticator app and try again."),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return (await response.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      reset();
+      toast({
+        title: "Recovery codes replaced",
+        description: "Your old recovery codes no longer work.",
+      });
+    },
+    onError: () => showError("That code didn't work. Check your authenticator app and try again."),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/2fa/disable", { code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      setRecoveryCodes(null);
+      reset();
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "Your account is now protected by your password only.",
+      });
+    },
+    onError: () => showError("That code didn't work. Check your authenticator app and try again."),
+  });
+
+  const pending = enableMutation.isPending || regenerateMutation.isPending || disableMutation.isPending;
+
+  const confirmStep = () => {
+    if (step === "enroll") enableMutation.mutate();
+    if (step === "regenerate") regenerateMutation.mutate();
+    if (step === "disable") disableMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          <Badge variant={user?.twoFactorEnabled ? "default" : "secondary"}>
+            {user?.twoFactorEnabled ? "On" : "Off"}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Require a code from an authenticator app, in addition to your sign-in, before the dashboard can be used.
+        </p>
+
+        {recoveryCodes && (
+          <div className="rounded-lg border border-border p-4 space-y-3">
+            <p className="text-sm font-medium text-foreground">
+              Recovery codes. Each one works once if you lose access to your authenticator. They won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigator.clipboard.writeText(recoveryCodes.join("\n"))}
+            >
+              Copy codes
+            </Button>
+          </div>
+        )}
+
+        {step === "enroll" && setup && (
+          <div className="space-y-4">
+            <p className="text-sm text-foreground">
+              Scan this QR code with your authenticator app, or enter the secret manually, then type the 6-digit code it shows.
+            </p>
+            <img src={setup.qrCode} alt="Two-factor QR code" className="w-48 h-48 border border-border rounded" />
+            <p className="font-mono text-sm break-all text-muted-foreground">{setup.secret}</p>
+          </div>
+        )}
+
+        {(step === "disable" || step === "regenerate") && (
+          <p className="text-sm text-foreground">
+            Enter a code from your authenticator app to confirm.
+          </p>
+        )}
+
+        {step !== "idle" && (
+          <div className="space-y-4">
+            <CodeInput value={code} onChange={setCode} disabled={pending} />
+            <div className="flex space-x-2">
+              <Button onClick={confirmStep} disabled={pending || code.length !== 6}>
+                {step === "enroll" ? "Turn on" : step === "disable" ? "Turn off" : "Replace codes"}
+              </Button>
+              <Button variant="outline" onClick={reset} disabled={pending}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "idle" && (
+          <div className="flex space-x-2">
+            {user?.twoFactorEnabled ? (
+              <>
+                <Button variant="outline" onClick={() => setStep("regenerate")}>
+                  New recovery codes
+                </Button>
+                <Button variant="outline" onClick={() => setStep("disable")}>
+                  Turn off
+                </Button>
+              </>
+            ) : (
+              <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+                Set up two-factor authentication
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
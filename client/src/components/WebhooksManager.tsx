@@ -0,0 +1,327 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Copy, Send, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import { formatDistance } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  webhookEvents,
+  type CreateWebhook,
+  type UpdateWebhook,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from "@shared/schema";
+
+const eventDescriptions: Record<WebhookEvent, string> = {
+  "contact.created": "A visitor sends a message (spam excluded)",
+  "project.published": "A project goes live",
+  "media.uploaded": "A file is uploaded",
+};
+
+function DeliveryLog({ webhookId }: { webhookId: number }) {
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: ["/api/admin/webhooks", webhookId, "deliveries"],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <div className="h-12 bg-muted rounded animate-pulse"></div>;
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing sent yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Event</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Response</TableHead>
+          <TableHead>Attempts</TableHead>
+          <TableHead>Sent</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {deliveries.map((delivery) => (
+          <TableRow key={delivery.id}>
+            <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+            <TableCell>
+              <Badge
+                variant={delivery.status === "success" ? "secondary" : delivery.status === "failed" ? "destructive" : "outline"}
+                className="capitalize"
+              >
+                {delivery.status}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-xs max-w-xs">
+              {delivery.responseStatus ?? "—"}
+              {delivery.error && <span className="block text-destructive truncate" title={delivery.error}>{delivery.error}</span>}
+              {delivery.status === "pending" && delivery.nextAttemptAt && (
+                <span className="block text-muted-foreground">
+                  Retrying {formatDistance(new Date(delivery.nextAttemptAt), new Date(), { addSuffix: true })}
+                </span>
+              )}
+            </TableCell>
+            <TableCell className="text-xs">{delivery.attempts}</TableCell>
+            <TableCell className="text-xs text-muted-foreground">
+              {delivery.createdAt ? formatDistance(new Date(delivery.createdAt), new Date(), { addSuffix: true }) : "Unknown"}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function WebhooksManager() {
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [openLogId, setOpenLogId] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: webhooks = [], isLoading } = useQuery<Webhook[]>({
+    queryKey: ["/api/admin/webhooks"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateWebhook) => {
+      await apiRequest("POST", "/api/admin/webhooks", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] });
+      setName("");
+      setUrl("");
+      setEvents([]);
+      toast({
+        title: "Webhook added",
+        description: "Use its signing secret to verify requests.",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to add webhook. Check the URL and try again."),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateWebhook }) => {
+      await apiRequest("PATCH", `/api/admin/webhooks/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] });
+    },
+    onError: (error) => handleError(error, "Failed to update webhook. Please try again."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks"] });
+      toast({
+        title: "Webhook deleted",
+        description: "No more events will be sent to it.",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to delete webhook. Please try again."),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/admin/webhooks/${id}/test`);
+      return (await response.json()) as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks", delivery.webhookId, "deliveries"] });
+      setOpenLogId(delivery.webhookId);
+      toast({
+        title: delivery.status === "success" ? "Test event delivered" : "Test event failed",
+        description: delivery.status === "success"
+          ? `The endpoint answered ${delivery.responseStatus}.`
+          : `${delivery.error ?? "No response"}. It will be retried automatically.`,
+        variant: delivery.status === "success" ? "default" : "destructive",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to send test event. Please try again."),
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(checked ? [...events, event] : events.filter((e) => e !== event));
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({ name, url, events, active: true });
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    if (confirm(`Delete the "${webhook.name}" webhook and its delivery log?`)) {
+      deleteMutation.mutate(webhook.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Webhooks POST a JSON payload to your endpoint when something happens. Each request is signed:
+          the <code>X-Webhook-Signature</code> header is <code>sha256=</code> followed by the HMAC-SHA256 of{" "}
+          <code>{"{X-Webhook-Timestamp}.{body}"}</code> with the webhook's secret. Failed deliveries are retried
+          with increasing delays.
+        </p>
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="webhook-name">Name</Label>
+              <Input
+                id="webhook-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Slack notifications"
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/hooks/portfolio"
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Events</Label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-2">
+              {webhookEvents.map((event) => (
+                <label key={event} className="flex items-start space-x-2 text-sm">
+                  <Checkbox
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="font-mono">{event}</span>
+                    <span className="block text-xs text-muted-foreground">{eventDescriptions[event]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button type="submit" disabled={createMutation.isPending || !name.trim() || !url.trim() || events.length === 0}>
+            <WebhookIcon className="w-4 h-4 mr-2" />
+            Add webhook
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="h-12 bg-muted rounded animate-pulse"></div>
+        ) : webhooks.length > 0 && (
+          <div className="divide-y divide-border">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="py-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground">
+                      {webhook.name}
+                      {!webhook.active && <Badge variant="outline" className="ml-2 text-xs">Paused</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground break-all">{webhook.url}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map((event) => (
+                        <Badge key={event} variant="secondary" className="text-xs font-mono">{event}</Badge>
+                      ))}
+                    </div>
+                    <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                      <span>Secret:</span>
+                      <code>{webhook.secret.slice(0, 12)}…</code>
+                      <button
+                        type="button"
+                        onClick={() => navigator.clipboard.writeText(webhook.secret)}
+                        title="Copy secret"
+                      >
+                        <Copy className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 shrink-0">
+                    <Switch
+                      checked={webhook.active}
+                      onCheckedChange={(active) => updateMutation.mutate({ id: webhook.id, data: { active } })}
+                      disabled={updateMutation.isPending}
+                      title={webhook.active ? "Pause" : "Resume"}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => testMutation.mutate(webhook.id)}
+                      disabled={testMutation.isPending}
+                    >
+                      <Send className="w-4 h-4 mr-1" />
+                      Send test event
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOpenLogId(openLogId === webhook.id ? null : webhook.id)}
+                    >
+                      {openLogId === webhook.id ? "Hide log" : "Deliveries"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(webhook)}
+                      disabled={deleteMutation.isPending}
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                {openLogId === webhook.id && <DeliveryLog webhookId={webhook.id} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,11 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { hasPermission, type Permission } from "@shared/permissions";
+import type { AuthUser } from "@shared/schema";
 
 export function useAuth() {
   const queryClient = useQueryClient();
   
-  const { data: user, isLoading, error } = useQuery({
+  const { data: user, isLoading, error } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -28,10 +30,13 @@ export function useAuth() {
     }
   };
 
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+
   return {
     user,
     isLoading,
     isAuthenticated: !!user && !error,
     logout,
+    can,
   };
 }
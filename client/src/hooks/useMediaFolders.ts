@@ -0,0 +1,19 @@
+import { useQuery, type Query } from "@tanstack/react-query";
+import type { MediaFolderWithCount } from "@shared/schema";
+
+// Media list queries carry their filters in the key, so match on the prefix.
+// This also covers folders and tags, whose counts change along with files.
+export const isMediaQuery = (query: Query) =>
+  typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/admin/media");
+
+export function useMediaFolders() {
+  const { data, isLoading } = useQuery<MediaFolderWithCount[]>({
+    queryKey: ["/api/admin/media-folders"],
+    retry: false,
+  });
+
+  return {
+    folders: data ?? [],
+    isLoading,
+  };
+}
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { defaultSiteSettings } from "@shared/siteSettings";
+import type { SiteSettings } from "@shared/schema";
+
+export function useSiteSettings() {
+  const { data, isLoading } = useQuery<SiteSettings>({
+    queryKey: ["/api/settings"],
+    retry: false,
+  });
+
+  return {
+    settings: data ?? defaultSiteSettings,
+    isLoading,
+  };
+}
@@ -0,0 +1,172 @@
+import type { Media, UploadStatus } from "@shared/schema";
+import { SIMPLE_UPLOAD_LIMIT } from "@shared/uploads";
+
+const MAX_ATTEMPTS = 4;
+
+export interface UploadOptions {
+  folderId: number | null;
+  onProgress: (loaded: number) => void;
+  signal: AbortSignal;
+}
+
+// Errors keep the "<status>: <body>" shape apiRequest uses, so
+// isUnauthorizedError and friends work on them
+async function throwIfResNotOk(res: Response) {
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+}
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// Where an unfinished upload of the same file can be picked up again, even
+// after a reload
+const resumeKey = (file: File) => `media-upload:${file.name}:${file.size}:${file.lastModified}`;
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+// Retries network failures and server errors with backoff; a 4xx will not
+// get better by sending the same request again
+async function withRetries(send: () => Promise<Response>, signal: AbortSignal): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const res = await send();
+      if (res.status < 500 || attempt === MAX_ATTEMPTS) {
+        return res;
+      }
+    } catch (error) {
+      if (signal.aborted || attempt === MAX_ATTEMPTS) throw error;
+    }
+    await wait(1000 * 2 ** (attempt - 1), signal);
+  }
+}
+
+// Sends a small file in one request, reporting progress as it goes
+function uploadSimple(file: File, { folderId, onProgress, signal }: UploadOptions): Promise<Media> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    if (folderId !== null) {
+      formData.append("folderId", String(folderId));
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/admin/media");
+    xhr.withCredentials = true;
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(JSON.parse(xhr.responseText));
+      } else {
+        reject(new Error(`${xhr.status}: ${xhr.responseText || xhr.statusText}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error"));
+    xhr.onabort = () => reject(signal.reason);
+    signal.addEventListener("abort", () => xhr.abort());
+    xhr.send(formData);
+  });
+}
+
+async function startOrResume(file: File, folderId: number | null): Promise<UploadStatus> {
+  const savedId = localStorage.getItem(resumeKey(file));
+  if (savedId) {
+    const res = await fetch(`/api/admin/uploads/${savedId}`, { credentials: "include" });
+    if (res.ok) {
+      return await res.json();
+    }
+    // Expired or cleaned up: start over
+    localStorage.removeItem(resumeKey(file));
+  }
+
+  const res = await fetch("/api/admin/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ filename: file.name, size: file.size, folderId }),
+    credentials: "include",
+  });
+  await throwIfResNotOk(res);
+  const status: UploadStatus = await res.json();
+  localStorage.setItem(resumeKey(file), status.id);
+  return status;
+}
+
+// Sends a large file in parts, skipping those the server already has from
+// an earlier attempt, and checks the assembled file against its checksum
+async function uploadChunked(file: File, { folderId, onProgress, signal }: UploadOptions): Promise<Media> {
+  const status = await startOrResume(file, folderId);
+  const received = new Set(status.receivedParts);
+  const digests: Uint8Array[] = [];
+  let loaded = 0;
+
+  for (let index = 0; index < status.partCount; index++) {
+    signal.throwIfAborted();
+    const part = file.slice(index * status.chunkSize, (index + 1) * status.chunkSize);
+    // Every part is hashed, sent or not, since the file checksum covers them all
+    const digest = await crypto.subtle.digest("SHA-256", await part.arrayBuffer());
+    digests.push(new Uint8Array(digest));
+
+    if (!received.has(index)) {
+      const res = await withRetries(
+        () =>
+          fetch(`/api/admin/uploads/${status.id}/parts/${index}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/octet-stream", "X-Content-SHA256": toHex(digest) },
+            body: part,
+            credentials: "include",
+            signal,
+          }),
+        signal,
+      );
+      await throwIfResNotOk(res);
+    }
+    loaded += part.size;
+    onProgress(loaded);
+  }
+
+  const combined = new Uint8Array(digests.length * 32);
+  digests.forEach((digest, index) => combined.set(digest, index * 32));
+  const checksum = toHex(await crypto.subtle.digest("SHA-256", combined));
+
+  const res = await withRetries(
+    () =>
+      fetch(`/api/admin/uploads/${status.id}/complete`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ checksum }),
+        credentials: "include",
+        signal,
+      }),
+    signal,
+  );
+  if (res.ok) {
+    localStorage.removeItem(resumeKey(file));
+  } else if (res.status === 422) {
+    // A corrupted upload cannot be resumed into a good one
+    await discardMediaUpload(file);
+  }
+  await throwIfResNotOk(res);
+  return await res.json();
+}
+
+export function uploadMediaFile(file: File, options: UploadOptions): Promise<Media> {
+  return file.size > SIMPLE_UPLOAD_LIMIT ? uploadChunked(file, options) : uploadSimple(file, options);
+}
+
+// Gives up on an upload for good, dropping any parts already sent
+export async function discardMediaUpload(file: File): Promise<void> {
+  const savedId = localStorage.getItem(resumeKey(file));
+  localStorage.removeItem(resumeKey(file));
+  if (savedId) {
+    await fetch(`/api/admin/uploads/${savedId}`, { method: "DELETE", credentials: "include" });
+  }
+}
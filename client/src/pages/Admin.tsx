@@ -5,23 +5,32 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, Edit, Trash2, Eye, Home, Settings, Upload, MessageSquare } from "lucide-react";
+import { Plus, Edit, Trash2, Eye, Home, Settings, Upload, MessageSquare, ScrollText } from "lucide-react";
 import ProjectEditor from "@/components/ProjectEditor";
 import MediaManager from "@/components/MediaManager";
+import TeamManager from "@/components/TeamManager";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import SessionsManager from "@/components/SessionsManager";
+import ApiTokensManager from "@/components/ApiTokensManager";
+import AuditLog from "@/components/AuditLog";
+import ContactInbox from "@/components/ContactInbox";
+import WebhooksManager from "@/components/WebhooksManager";
+import SiteSettingsForm from "@/components/SiteSettingsForm";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { formatDistance } from "date-fns";
+import { format, formatDistance } from "date-fns";
 import { useAuth } from "@/hooks/useAuth";
 import { useEffect } from "react";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { Project, ContactSubmission } from "@shared/schema";
+import { isProjectLive } from "@shared/publishing";
+import type { Project } from "@shared/schema";
 
 export default function Admin() {
   const [showProjectEditor, setShowProjectEditor] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
-  const { isAuthenticated, isLoading, logout } = useAuth();
+  const { user, isAuthenticated, isLoading, logout, can } = useAuth();
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -40,11 +49,7 @@ export default function Admin() {
 
   const { data: projects = [], isLoading: projectsLoading } = useQuery<Project[]>({
     queryKey: ["/api/admin/projects"],
-    retry: false,
-  });
-
-  const { data: contacts = [], isLoading: contactsLoading } = useQuery<ContactSubmission[]>({
-    queryKey: ["/api/admin/contacts"],
+    enabled: can("projects:read"),
     retry: false,
   });
 
@@ -109,6 +114,27 @@ export default function Admin() {
     return null; // Will redirect in useEffect
   }
 
+  if (user?.role === "pending") {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-6">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>Waiting for access</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground">
+              You're signed in as {user.email}, but an owner still needs to give your account a role before you can use
+              the dashboard.
+            </p>
+            <Button variant="outline" onClick={logout}>
+              Logout
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -135,7 +161,7 @@ export default function Admin() {
 
       <div className="max-w-7xl mx-auto px-6 lg:px-8 py-8">
         <Tabs defaultValue="projects" className="space-y-8">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className={`grid w-full ${can("audit:read") ? "grid-cols-5" : "grid-cols-4"}`}>
             <TabsTrigger value="projects" className="flex items-center gap-2">
               <Settings className="w-4 h-4" />
               Projects
@@ -148,6 +174,12 @@ export default function Admin() {
               <MessageSquare className="w-4 h-4" />
               Contacts
             </TabsTrigger>
+            {can("audit:read") && (
+              <TabsTrigger value="audit" className="flex items-center gap-2">
+                <ScrollText className="w-4 h-4" />
+                Audit
+              </TabsTrigger>
+            )}
             <TabsTrigger value="settings" className="flex items-center gap-2">
               <Settings className="w-4 h-4" />
               Settings
@@ -158,10 +190,12 @@ export default function Admin() {
           <TabsContent value="projects" className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-3xl font-bold text-foreground">Manage Projects</h2>
-              <Button onClick={handleNewProject} size="lg">
-                <Plus className="w-5 h-5 mr-2" />
-                New Project
-              </Button>
+              {can("projects:write") && (
+                <Button onClick={handleNewProject} size="lg">
+                  <Plus className="w-5 h-5 mr-2" />
+                  New Project
+                </Button>
+              )}
             </div>
 
             {projectsLoading ? (
@@ -187,10 +221,12 @@ export default function Admin() {
                 <div className="text-6xl mb-4">📝</div>
                 <h3 className="text-2xl font-semibold text-foreground mb-2">No projects yet</h3>
                 <p className="text-muted-foreground mb-6">Create your first project to get started</p>
-                <Button onClick={handleNewProject} size="lg">
-                  <Plus className="w-5 h-5 mr-2" />
-                  Create Project
-                </Button>
+                {can("projects:write") && (
+                  <Button onClick={handleNewProject} size="lg">
+                    <Plus className="w-5 h-5 mr-2" />
+                    Create Project
+                  </Button>
+                )}
               </motion.div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -219,30 +255,44 @@ export default function Admin() {
                         <p className="text-sm text-muted-foreground mb-4 line-clamp-3">
                           {project.description}
                         </p>
+                        {project.status === 'scheduled' && project.publishAt && (
+                          <p className="text-xs text-muted-foreground mb-1">
+                            Publishes {format(new Date(project.publishAt), "PPp")}
+                          </p>
+                        )}
+                        {project.status !== 'draft' && project.unpublishAt && (
+                          <p className="text-xs text-muted-foreground mb-1">
+                            Unpublishes {format(new Date(project.unpublishAt), "PPp")}
+                          </p>
+                        )}
                         <p className="text-xs text-muted-foreground mb-4">
                           Updated {project.updatedAt ? formatDistance(new Date(project.updatedAt), new Date(), { addSuffix: true }) : 'Never'}
                         </p>
                         <div className="flex justify-between">
                           <div className="flex space-x-2">
-                            {project.status === 'published' && (
+                            {isProjectLive(project) && (
                               <Button variant="outline" size="sm" asChild>
                                 <a href={`/case-study/${project.slug}`} target="_blank">
                                   <Eye className="w-4 h-4" />
                                 </a>
                               </Button>
                             )}
-                            <Button variant="outline" size="sm" onClick={() => handleEditProject(project)}>
-                              <Edit className="w-4 h-4" />
-                            </Button>
+                            {can("projects:write") && (
+                              <Button variant="outline" size="sm" onClick={() => handleEditProject(project)}>
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            )}
                           </div>
-                          <Button
-                            variant="destructive"
-                            size="sm"
-                            onClick={() => handleDeleteProject(project.id)}
-                            disabled={deleteProjectMutation.isPending}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
+                          {can("projects:delete") && (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => handleDeleteProject(project.id)}
+                              disabled={deleteProjectMutation.isPending}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -260,84 +310,26 @@ export default function Admin() {
           {/* Contacts Tab */}
           <TabsContent value="contacts" className="space-y-6">
             <h2 className="text-3xl font-bold text-foreground">Contact Submissions</h2>
-            
-            {contactsLoading ? (
-              <div className="space-y-4">
-                {[...Array(5)].map((_, i) => (
-                  <Card key={i} className="animate-pulse">
-                    <CardHeader>
-                      <div className="h-4 bg-muted rounded w-1/3"></div>
-                      <div className="h-3 bg-muted rounded w-1/4"></div>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="h-16 bg-muted rounded"></div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            ) : contacts.length === 0 ? (
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="text-center py-16"
-              >
-                <div className="text-6xl mb-4">📬</div>
-                <h3 className="text-2xl font-semibold text-foreground mb-2">No messages yet</h3>
-                <p className="text-muted-foreground">Contact submissions will appear here</p>
-              </motion.div>
-            ) : (
-              <div className="space-y-4">
-                {contacts.map((contact) => (
-                  <motion.div
-                    key={contact.id}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ duration: 0.6 }}
-                  >
-                    <Card>
-                      <CardHeader>
-                        <div className="flex justify-between items-start">
-                          <div className="space-y-1">
-                            <CardTitle className="text-lg">{contact.subject}</CardTitle>
-                            <p className="text-sm text-muted-foreground">
-                              From: {contact.name} ({contact.email})
-                            </p>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <Badge variant={contact.status === 'new' ? 'default' : 'secondary'}>
-                              {contact.status}
-                            </Badge>
-                            <p className="text-xs text-muted-foreground">
-                              {contact.createdAt ? formatDistance(new Date(contact.createdAt), new Date(), { addSuffix: true }) : 'Unknown'}
-                            </p>
-                          </div>
-                        </div>
-                      </CardHeader>
-                      <CardContent>
-                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                          {contact.message}
-                        </p>
-                      </CardContent>
-                    </Card>
-                  </motion.div>
-                ))}
-              </div>
-            )}
+            <ContactInbox />
           </TabsContent>
 
+          {/* Audit Tab */}
+          {can("audit:read") && (
+            <TabsContent value="audit" className="space-y-6">
+              <h2 className="text-3xl font-bold text-foreground">Audit Log</h2>
+              <AuditLog />
+            </TabsContent>
+          )}
+
           {/* Settings Tab */}
           <TabsContent value="settings" className="space-y-6">
             <h2 className="text-3xl font-bold text-foreground">Settings</h2>
-            <Card>
-              <CardHeader>
-                <CardTitle>Portfolio Settings</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-muted-foreground">
-                  Additional settings and configuration options will be available here in future updates.
-                </p>
-              </CardContent>
-            </Card>
+            {can("settings:write") && <SiteSettingsForm />}
+            <TwoFactorSettings />
+            <SessionsManager />
+            <ApiTokensManager />
+            {can("webhooks:manage") && <WebhooksManager />}
+            {can("users:read") && <TeamManager />}
           </TabsContent>
         </Tabs>
       </div>
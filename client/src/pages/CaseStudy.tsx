@@ -2,16 +2,19 @@ import { useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import Navigation from "@/components/Navigation";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import ProjectGallery from "@/components/ProjectGallery";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ArrowLeft, Calendar, User } from "lucide-react";
 import { formatDistance } from "date-fns";
-import type { Project } from "@shared/schema";
+import type { RenderedProject } from "@shared/schema";
+import "highlight.js/styles/github.css";
 
 export default function CaseStudy() {
   const { slug } = useParams();
   
-  const { data: project, isLoading, error } = useQuery<Project>({
+  const { data: project, isLoading, error } = useQuery<RenderedProject>({
     queryKey: ["/api/projects", slug],
   });
 
@@ -131,10 +134,14 @@ export default function CaseStudy() {
               className="mb-12"
             >
               <div className="relative aspect-video bg-muted rounded-xl overflow-hidden shadow-lg">
-                <img
+                <ResponsiveImage
                   src={project.featuredImage}
+                  image={project.featuredMedia}
+                  focus={project.featuredImageFocus}
                   alt={project.title}
+                  sizes="(min-width: 56rem) 56rem, 100vw"
                   className="w-full h-full object-cover"
+                  priority
                 />
               </div>
             </motion.div>
@@ -149,10 +156,23 @@ export default function CaseStudy() {
           >
             <div
               className="text-foreground leading-relaxed"
-              dangerouslySetInnerHTML={{ __html: project.content }}
+              dangerouslySetInnerHTML={{ __html: project.contentHtml }}
             />
           </motion.div>
 
+          {/* Gallery */}
+          {project.gallery.length > 0 && (
+            <motion.section
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.6, delay: 0.5 }}
+              className="mt-16"
+            >
+              <h2 className="text-2xl font-bold text-foreground mb-6">Gallery</h2>
+              <ProjectGallery title={project.title} images={project.gallery} />
+            </motion.section>
+          )}
+
           {/* Navigation */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
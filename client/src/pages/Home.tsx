@@ -2,17 +2,20 @@ import { useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import Navigation from "@/components/Navigation";
 import ProjectCard from "@/components/ProjectCard";
+import SiteFooter from "@/components/SiteFooter";
 import { Button } from "@/components/ui/button";
 import { Plus, Settings, LogOut } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
-import type { Project } from "@shared/schema";
+import { useSiteSettings } from "@/hooks/useSiteSettings";
+import type { ProjectWithMedia } from "@shared/schema";
 
 export default function Home() {
-  const { data: projects = [], isLoading } = useQuery<Project[]>({
+  const { data: projects = [], isLoading } = useQuery<ProjectWithMedia[]>({
     queryKey: ["/api/projects"],
   });
 
   const { logout } = useAuth();
+  const { settings } = useSiteSettings();
 
   return (
     <div className="min-h-screen bg-background">
@@ -29,7 +32,7 @@ export default function Home() {
               className="text-center lg:text-left"
             >
               <h1 className="text-5xl lg:text-6xl font-bold text-foreground mb-6 leading-tight">
-                Welcome Back!
+                Welcome back to {settings.general.siteName}!
               </h1>
               <p className="text-xl text-muted-foreground mb-8 leading-relaxed">
                 Manage your portfolio and create amazing digital experiences.
@@ -114,6 +117,8 @@ export default function Home() {
           )}
         </div>
       </section>
+
+      <SiteFooter />
     </div>
   );
 }
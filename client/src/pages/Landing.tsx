@@ -1,49 +1,77 @@
+import { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import Navigation from "@/components/Navigation";
 import ProjectCard from "@/components/ProjectCard";
+import SocialLinks from "@/components/SocialLinks";
+import SiteFooter from "@/components/SiteFooter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertContactSchema, type Project } from "@shared/schema";
+import { contactFormSchema, type ContactForm, type ProjectWithMedia } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { z } from "zod";
-import { Mail, Phone, MapPin, Github, Linkedin, Dribbble, View } from "lucide-react";
+import { useSiteSettings } from "@/hooks/useSiteSettings";
+import { Mail, Phone, MapPin } from "lucide-react";
 
-type ContactForm = z.infer<typeof insertContactSchema>;
+// Splits the hero title around the highlighted phrase, if it appears in it
+function splitTitle(title: string, highlight: string): [string, string, string] {
+  const index = highlight ? title.indexOf(highlight) : -1;
+  if (index === -1) {
+    return [title, "", ""];
+  }
+  return [title.slice(0, index), highlight, title.slice(index + highlight.length)];
+}
 
 export default function Landing() {
   const { toast } = useToast();
-  
-  const { data: projects = [], isLoading } = useQuery<Project[]>({
+  const { settings } = useSiteSettings();
+  const { hero, about, contact, social } = settings;
+  const [titleStart, titleHighlight, titleEnd] = splitTitle(hero.title, hero.highlight);
+
+  useEffect(() => {
+    document.title = settings.general.siteName;
+  }, [settings.general.siteName]);
+
+  const { data: projects = [], isLoading } = useQuery<ProjectWithMedia[]>({
     queryKey: ["/api/projects"],
   });
 
+  // Issued when the form renders; the server uses it to spot instant bot submissions
+  const { data: formToken, refetch: refetchFormToken } = useQuery<{ token: string }>({
+    queryKey: ["/api/contact/token"],
+    staleTime: Infinity,
+  });
+
   const form = useForm<ContactForm>({
-    resolver: zodResolver(insertContactSchema),
+    resolver: zodResolver(contactFormSchema),
     defaultValues: {
       name: "",
       email: "",
       subject: "",
       message: "",
+      website: "",
     },
   });
 
   const onSubmit = async (data: ContactForm) => {
     try {
-      await apiRequest("POST", "/api/contact", data);
+      await apiRequest("POST", "/api/contact", { ...data, formToken: formToken?.token });
       toast({
         title: "Message sent!",
         description: "Thank you for your message. I'll get back to you soon.",
       });
       form.reset();
+      refetchFormToken();
     } catch (error) {
+      const tooMany = (error as Error).message.startsWith("429");
       toast({
         title: "Error",
-        description: "Failed to send message. Please try again.",
+        description: tooMany
+          ? "You've sent several messages already. Please try again later."
+          : "Failed to send message. Please try again.",
         variant: "destructive",
       });
     }
@@ -64,11 +92,13 @@ export default function Landing() {
               className="text-center lg:text-left"
             >
               <h1 className="text-5xl lg:text-6xl font-bold text-foreground mb-6 leading-tight">
-                Creative <span className="text-primary">Digital</span> Experiences
+                {titleStart}
+                {titleHighlight && <span className="text-primary">{titleHighlight}</span>}
+                {titleEnd}
               </h1>
-              <p className="text-xl text-muted-foreground mb-8 leading-relaxed">
-                I craft user-friendly and visually engaging digital solutions that combine aesthetic excellence with functional design principles.
-              </p>
+              {hero.subtitle && (
+                <p className="text-xl text-muted-foreground mb-8 leading-relaxed">{hero.subtitle}</p>
+              )}
               <div className="flex flex-col sm:flex-row gap-4 justify-center lg:justify-start">
                 <Button asChild size="lg" className="text-lg px-8 py-6">
                   <a href="#projects">View Projects</a>
@@ -162,36 +192,36 @@ export default function Landing() {
               transition={{ duration: 0.6, delay: 0.2 }}
               viewport={{ once: true }}
             >
-              <h2 className="text-4xl font-bold text-foreground mb-6">About Me</h2>
-              <p className="text-lg text-muted-foreground mb-6 leading-relaxed">
-                I'm a passionate digital designer with over 5 years of experience creating user-centered solutions. 
-                My approach combines strategic thinking with creative execution to deliver designs that not only 
-                look beautiful but also solve real problems.
-              </p>
-              <p className="text-lg text-muted-foreground mb-8 leading-relaxed">
-                Specializing in web design, mobile applications, and brand identity, I work closely with clients 
-                to understand their vision and transform it into compelling digital experiences.
-              </p>
+              <h2 className="text-4xl font-bold text-foreground mb-6">{about.heading}</h2>
+              <div className="space-y-6 mb-8">
+                {about.body.split(/\n\s*\n/).filter(Boolean).map((paragraph, index) => (
+                  <p key={index} className="text-lg text-muted-foreground leading-relaxed">
+                    {paragraph}
+                  </p>
+                ))}
+              </div>
               
               <div className="grid grid-cols-2 gap-6 mb-8">
-                <div>
-                  <h3 className="font-semibold text-foreground mb-2">Skills</h3>
-                  <ul className="text-muted-foreground space-y-1">
-                    <li>UI/UX Design</li>
-                    <li>Web Development</li>
-                    <li>Brand Identity</li>
-                    <li>Prototyping</li>
-                  </ul>
-                </div>
-                <div>
-                  <h3 className="font-semibold text-foreground mb-2">Tools</h3>
-                  <ul className="text-muted-foreground space-y-1">
-                    <li>Figma, Adobe XD</li>
-                    <li>React, Next.js</li>
-                    <li>Tailwind CSS</li>
-                    <li>Framer Motion</li>
-                  </ul>
-                </div>
+                {about.skills.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold text-foreground mb-2">Skills</h3>
+                    <ul className="text-muted-foreground space-y-1">
+                      {about.skills.map((skill) => (
+                        <li key={skill}>{skill}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {about.tools.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold text-foreground mb-2">Tools</h3>
+                    <ul className="text-muted-foreground space-y-1">
+                      {about.tools.map((tool) => (
+                        <li key={tool}>{tool}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
               
               <Button asChild size="lg">
@@ -212,8 +242,8 @@ export default function Landing() {
             viewport={{ once: true }}
             className="text-center mb-12"
           >
-            <h2 className="text-4xl font-bold text-foreground mb-4">Get In Touch</h2>
-            <p className="text-xl text-muted-foreground">Ready to start your next project? Let's discuss how I can help.</p>
+            <h2 className="text-4xl font-bold text-foreground mb-4">{contact.heading}</h2>
+            {contact.intro && <p className="text-xl text-muted-foreground">{contact.intro}</p>}
           </motion.div>
           
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
@@ -225,37 +255,36 @@ export default function Landing() {
             >
               <h3 className="text-2xl font-semibold text-foreground mb-6">Let's Connect</h3>
               <div className="space-y-4">
-                <div className="flex items-center">
-                  <Mail className="text-primary w-6 h-6 mr-4" />
-                  <span className="text-muted-foreground">hello@portfolio.com</span>
-                </div>
-                <div className="flex items-center">
-                  <Phone className="text-primary w-6 h-6 mr-4" />
-                  <span className="text-muted-foreground">+1 (555) 123-4567</span>
-                </div>
-                <div className="flex items-center">
-                  <MapPin className="text-primary w-6 h-6 mr-4" />
-                  <span className="text-muted-foreground">San Francisco, CA</span>
-                </div>
+                {contact.email && (
+                  <div className="flex items-center">
+                    <Mail className="text-primary w-6 h-6 mr-4" />
+                    <a href={`mailto:${contact.email}`} className="text-muted-foreground hover:text-primary">
+                      {contact.email}
+                    </a>
+                  </div>
+                )}
+                {contact.phone && (
+                  <div className="flex items-center">
+                    <Phone className="text-primary w-6 h-6 mr-4" />
+                    <a href={`tel:${contact.phone.replace(/[^\d+]/g, "")}`} className="text-muted-foreground hover:text-primary">
+                      {contact.phone}
+                    </a>
+                  </div>
+                )}
+                {contact.location && (
+                  <div className="flex items-center">
+                    <MapPin className="text-primary w-6 h-6 mr-4" />
+                    <span className="text-muted-foreground">{contact.location}</span>
+                  </div>
+                )}
               </div>
               
-              <div className="mt-8">
-                <h4 className="font-semibold text-foreground mb-4">Follow Me</h4>
-                <div className="flex space-x-4">
-                  <a href="#" className="text-muted-foreground hover:text-primary transition-colors duration-200">
-                    <Linkedin className="w-6 h-6" />
-                  </a>
-                  <a href="#" className="text-muted-foreground hover:text-primary transition-colors duration-200">
-                    <Dribbble className="w-6 h-6" />
-                  </a>
-                  <a href="#" className="text-muted-foreground hover:text-primary transition-colors duration-200">
-                    <View className="w-6 h-6" />
-                  </a>
-                  <a href="#" className="text-muted-foreground hover:text-primary transition-colors duration-200">
-                    <Github className="w-6 h-6" />
-                  </a>
+              {social.length > 0 && (
+                <div className="mt-8">
+                  <h4 className="font-semibold text-foreground mb-4">Follow Me</h4>
+                  <SocialLinks links={social} />
                 </div>
-              </div>
+              )}
             </motion.div>
             
             <motion.form
@@ -264,8 +293,13 @@ export default function Landing() {
               transition={{ duration: 0.6, delay: 0.4 }}
               viewport={{ once: true }}
               onSubmit={form.handleSubmit(onSubmit)}
-              className="space-y-6"
+              className="space-y-6 relative"
             >
+              {/* Honeypot: hidden from people, but bots fill in every field */}
+              <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+                <label htmlFor="website">Website</label>
+                <input {...form.register("website")} id="website" type="text" tabIndex={-1} autoComplete="off" />
+              </div>
               <div>
                 <label htmlFor="name" className="block text-sm font-medium text-foreground mb-2">Name</label>
                 <Input
@@ -324,6 +358,8 @@ export default function Landing() {
           </div>
         </div>
       </section>
+
+      <SiteFooter />
     </div>
   );
 }
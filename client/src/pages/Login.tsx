@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { AuthProviderInfo } from "@shared/schema";
+
+type Mode = "password" | "link" | "forgot" | "register";
+
+const titles: Record<Mode, string> = {
+  password: "Sign in",
+  link: "Email me a sign-in link",
+  forgot: "Reset your password",
+  register: "Create your account",
+};
+
+function responseError(error: unknown, fallback: string) {
+  try {
+    return JSON.parse((error as Error).message.replace(/^\d+: /, "")).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export default function Login() {
+  const [mode, setMode] = useState<Mode>("password");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+
+  const { data: providers = [], isLoading } = useQuery<AuthProviderInfo[]>({
+    queryKey: ["/api/auth/providers"],
+  });
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      window.location.href = "/admin";
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get("error") === "invalid-link") {
+      setNotice("That sign-in link is invalid or has expired. Request a new one below.");
+      setMode("link");
+    }
+  }, []);
+
+  const local = providers.find((provider) => provider.name === "local");
+  const redirectProviders = providers.filter((provider) => provider.loginUrl);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setNotice(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      if (mode === "password") {
+        await apiRequest("POST", "/api/auth/local/login", { email, password });
+        window.location.href = "/admin";
+      } else if (mode === "register") {
+        await apiRequest("POST", "/api/auth/local/register", { email, password, firstName, lastName });
+        window.location.href = "/admin";
+      } else {
+        const path = mode === "link" ? "/api/auth/local/magic-link" : "/api/auth/local/password-reset";
+        const response = await apiRequest("POST", path, { email });
+        setNotice((await response.json()).message);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: responseError(error, "Something went wrong. Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle>{titles[mode]}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading && <div className="h-32 bg-muted rounded animate-pulse"></div>}
+
+          {redirectProviders.map((provider) => (
+            <Button
+              key={provider.name}
+              variant="outline"
+              className="w-full"
+              onClick={() => window.location.href = provider.loginUrl!}
+            >
+              Continue with {provider.label}
+            </Button>
+          ))}
+
+          {local && redirectProviders.length > 0 && <Separator />}
+
+          {local && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+              {mode === "register" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="firstName">First name</Label>
+                    <Input id="firstName" value={firstName} onChange={(e) => setFirstName(e.target.value)} className="mt-2" />
+                  </div>
+                  <div>
+                    <Label htmlFor="lastName">Last name</Label>
+                    <Input id="lastName" value={lastName} onChange={(e) => setLastName(e.target.value)} className="mt-2" />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="mt-2"
+                />
+              </div>
+
+              {(mode === "password" || mode === "register") && (
+                <div>
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete={mode === "register" ? "new-password" : "current-password"}
+                    minLength={mode === "register" ? 10 : undefined}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    className="mt-2"
+                  />
+                </div>
+              )}
+
+              <Button type="submit" className="w-full" disabled={submitting}>
+                {mode === "password" && "Sign in"}
+                {mode === "register" && "Create account"}
+                {mode === "link" && "Send sign-in link"}
+                {mode === "forgot" && "Send reset link"}
+              </Button>
+
+              <div className="flex flex-col items-center space-y-2 text-sm">
+                {mode !== "password" && (
+                  <button type="button" className="text-primary hover:underline" onClick={() => switchMode("password")}>
+                    Sign in with a password
+                  </button>
+                )}
+                {mode !== "link" && (
+                  <button type="button" className="text-primary hover:underline" onClick={() => switchMode("link")}>
+                    Email me a sign-in link instead
+                  </button>
+                )}
+                {mode === "password" && (
+                  <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => switchMode("forgot")}>
+                    Forgot your password?
+                  </button>
+                )}
+                {local.signupOpen && mode !== "register" && (
+                  <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => switchMode("register")}>
+                    Create an account
+                  </button>
+                )}
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
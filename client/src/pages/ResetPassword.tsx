@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export default function ResetPassword() {
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmation) {
+      toast({
+        title: "Passwords do not match",
+        description: "Enter the same password in both fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await apiRequest("POST", "/api/auth/local/password-reset/confirm", { token, password });
+      setDone(true);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "This reset link is invalid or has expired. Request a new one from the sign-in page.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle>Choose a new password</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {done ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">Your password has been changed.</p>
+              <Button className="w-full" onClick={() => window.location.href = "/login"}>
+                Sign in
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="password">New password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={10}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="confirmation">Confirm password</Label>
+                <Input
+                  id="confirmation"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  required
+                  className="mt-2"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={submitting || !token}>
+                Set password
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
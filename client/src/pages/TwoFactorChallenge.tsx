@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { ShieldCheck } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+
+export default function TwoFactorChallenge() {
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const queryClient = useQueryClient();
+  const { logout } = useAuth();
+  const { toast } = useToast();
+
+  const verify = async (value: string) => {
+    setSubmitting(true);
+    try {
+      await apiRequest("POST", "/api/auth/2fa/verify", { code: value });
+      await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    } catch (error) {
+      const tooMany = (error as Error).message.startsWith("429");
+      toast({
+        title: tooMany ? "Too many attempts" : "Invalid code",
+        description: tooMany
+          ? "Wait a few minutes before trying again."
+          : "That code didn't work. Check your authenticator app and try again.",
+        variant: "destructive",
+      });
+      setCode("");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Two-factor verification
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            {useRecoveryCode
+              ? "Enter one of the recovery codes you saved when you turned on two-factor authentication. Each code works once."
+              : "Enter the 6-digit code from your authenticator app to continue to the dashboard."}
+          </p>
+
+          {useRecoveryCode ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                verify(code);
+              }}
+              className="space-y-4"
+            >
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="xxxxx-xxxxx"
+                autoComplete="off"
+                autoFocus
+              />
+              <Button type="submit" className="w-full" disabled={submitting || !code}>
+                Verify
+              </Button>
+            </form>
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={6}
+                value={code}
+                onChange={setCode}
+                onComplete={verify}
+                disabled={submitting}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {[...Array(6)].map((_, i) => (
+                    <InputOTPSlot key={i} index={i} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+
+          <div className="flex flex-col items-center space-y-2 text-sm">
+            <button
+              type="button"
+              className="text-primary hover:underline"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode("");
+              }}
+            >
+              {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+            </button>
+            <button type="button" className="text-muted-foreground hover:text-foreground" onClick={logout}>
+              Sign out
+            </button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
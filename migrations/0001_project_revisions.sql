@@ -0,0 +1,14 @@
+CREATE TABLE "project_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"description" text NOT NULL,
+	"content" text NOT NULL,
+	"tags" text[],
+	"created_at" timestamp DEFAULT now(),
+	"created_by" varchar
+);
+--> statement-breakpoint
+ALTER TABLE "project_revisions" ADD CONSTRAINT "project_revisions_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_revisions" ADD CONSTRAINT "project_revisions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_project_revisions_project" ON "project_revisions" USING btree ("project_id");
\ No newline at end of file
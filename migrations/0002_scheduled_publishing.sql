@@ -0,0 +1,2 @@
+ALTER TABLE "projects" ADD COLUMN "publish_at" timestamp;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "unpublish_at" timestamp;
\ No newline at end of file
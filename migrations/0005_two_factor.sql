@@ -0,0 +1,10 @@
+CREATE TABLE "user_two_factor" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"secret" varchar(64) NOT NULL,
+	"recovery_code_hashes" text[] DEFAULT '{}' NOT NULL,
+	"last_used_step" integer,
+	"enabled_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "user_two_factor" ADD CONSTRAINT "user_two_factor_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "audit_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor_id" varchar,
+	"actor_email" varchar(255),
+	"api_token_id" integer,
+	"action" varchar(100) NOT NULL,
+	"entity_type" varchar(50) NOT NULL,
+	"entity_id" varchar(100),
+	"before" jsonb,
+	"after" jsonb,
+	"ip" varchar(64),
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_audit_events_created" ON "audit_events" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "IDX_audit_events_entity" ON "audit_events" USING btree ("entity_type","entity_id");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "contact_notes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer NOT NULL,
+	"author_id" varchar,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "contact_submissions" ADD COLUMN "assigned_to" varchar;--> statement-breakpoint
+ALTER TABLE "contact_submissions" ADD COLUMN "starred" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "contact_submissions" ADD COLUMN "archived_at" timestamp;--> statement-breakpoint
+ALTER TABLE "contact_submissions" ADD COLUMN "updated_at" timestamp DEFAULT now();--> statement-breakpoint
+ALTER TABLE "contact_notes" ADD CONSTRAINT "contact_notes_contact_id_contact_submissions_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact_submissions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_notes" ADD CONSTRAINT "contact_notes_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_contact_notes_contact" ON "contact_notes" USING btree ("contact_id");--> statement-breakpoint
+ALTER TABLE "contact_submissions" ADD CONSTRAINT "contact_submissions_assigned_to_users_id_fk" FOREIGN KEY ("assigned_to") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
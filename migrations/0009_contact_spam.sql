@@ -0,0 +1,2 @@
+ALTER TABLE "contact_submissions" ADD COLUMN "spam_score" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "contact_submissions" ADD COLUMN "spam_reasons" text[];
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "site_settings" (
+	"key" varchar(50) PRIMARY KEY NOT NULL,
+	"value" jsonb NOT NULL,
+	"updated_by" varchar,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "site_settings" ADD CONSTRAINT "site_settings_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "media" ADD COLUMN "width" integer;--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN "height" integer;--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN "variants" jsonb;--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN "placeholder" text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "media_folders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"created_by" varchar,
+	CONSTRAINT "media_folders_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN "caption" text;--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN "tags" text[];--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN "folder_id" integer;--> statement-breakpoint
+ALTER TABLE "media_folders" ADD CONSTRAINT "media_folders_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "media" ADD CONSTRAINT "media_folder_id_media_folders_id_fk" FOREIGN KEY ("folder_id") REFERENCES "public"."media_folders"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_media_folder" ON "media" USING btree ("folder_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "media" ADD COLUMN "preview" jsonb;--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN "duration" real;--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN "page_count" integer;
\ No newline at end of file
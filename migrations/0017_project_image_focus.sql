@@ -0,0 +1 @@
+ALTER TABLE "projects" ADD COLUMN "featured_image_focus" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "users" ALTER COLUMN "role" SET DEFAULT 'pending';
\ No newline at end of file
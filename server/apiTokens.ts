@@ -0,0 +1,49 @@
+import type { Request, RequestHandler } from "express";
+import type { ApiToken } from "@shared/schema";
+import { storage } from "./storage";
+import { generateToken, hashToken } from "./secrets";
+import type { SessionUser } from "./auth";
+
+const TOKEN_PREFIX = "pat_";
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export function generateApiToken() {
+  const token = `${TOKEN_PREFIX}${generateToken()}`;
+  return { token, prefix: token.slice(0, TOKEN_PREFIX.length + 6), tokenHash: hashToken(token) };
+}
+
+export function bearerToken(req: Request): string | null {
+  const match = req.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// The token a request authenticated with, if it did not use a session
+export function getApiToken(req: Request): ApiToken | undefined {
+  return req.apiToken;
+}
+
+// Authenticates `Authorization: Bearer pat_...` requests as the token's owner.
+// The token's scopes are checked later, by requirePermission.
+export const authenticateApiToken: RequestHandler = async (req, res, next) => {
+  try {
+    const raw = bearerToken(req);
+    const token = raw ? await storage.getApiTokenByHash(hashToken(raw)) : undefined;
+    const now = new Date();
+    if (!token || (token.expiresAt && token.expiresAt <= now)) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    // Scripts can make many calls a second; once a minute is precise enough
+    if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS) {
+      await storage.touchApiToken(token.id, now);
+    }
+
+    const user: SessionUser = { provider: "token", claims: { sub: token.userId } };
+    (req as any).user = user;
+    req.apiToken = token;
+    next();
+  } catch (error) {
+    console.error("Error authenticating API token:", error);
+    res.status(500).json({ message: "Failed to authenticate" });
+  }
+};
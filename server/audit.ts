@@ -0,0 +1,84 @@
+import type { Request } from "express";
+import type { AuditAction, AuditEntityType, AuditEvent } from "@shared/schema";
+import { storage } from "./storage";
+import { getApiToken } from "./apiTokens";
+
+const MAX_STRING_LENGTH = 200;
+
+// Shrinks a value to something worth keeping in the log: long text such as
+// project content is cut short and dates become ISO strings.
+function summarizeValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string" && value.length > MAX_STRING_LENGTH) {
+    return `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`;
+  }
+  if (Array.isArray(value)) return value.slice(0, 20).map(summarizeValue);
+  return value;
+}
+
+function summarize(entity: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(entity).map(([key, value]) => [key, summarizeValue(value)]));
+}
+
+// When both sides are known, keep only the fields that changed
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>) {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+    (key) => key !== "updatedAt" && JSON.stringify(before[key]) !== JSON.stringify(after[key]),
+  );
+  const pick = (entity: Record<string, unknown>) => Object.fromEntries(keys.map((key) => [key, entity[key]]));
+  return { before: pick(before), after: pick(after) };
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | number | null;
+  before?: object | null;
+  after?: object | null;
+}
+
+// Records an admin mutation. The change has already happened by the time this
+// runs, so a failure to write the event is logged rather than failing the request.
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  try {
+    const actor = req.currentUser;
+    let before = entry.before ? summarize(entry.before as Record<string, unknown>) : null;
+    let after = entry.after ? summarize(entry.after as Record<string, unknown>) : null;
+    if (before && after) {
+      ({ before, after } = changedFields(before, after));
+    }
+
+    await storage.createAuditEvent({
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      apiTokenId: getApiToken(req)?.id,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId != null ? String(entry.entityId) : null,
+      before,
+      after,
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  } catch (error) {
+    console.error("Error recording audit event:", error);
+  }
+}
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  "createdAt", "actorEmail", "actorId", "apiTokenId", "action", "entityType", "entityId", "before", "after", "ip", "userAgent",
+];
+
+function csvCell(value: unknown): string {
+  let text = value == null ? "" : value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Stop spreadsheets from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const rows = events.map((event) => CSV_COLUMNS.map((column) => csvCell(event[column])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,213 @@
+import passport from "passport";
+import session from "express-session";
+import type { Express, Request, RequestHandler } from "express";
+import type { AuthProviderInfo, User } from "@shared/schema";
+import { replitProvider } from "./replitAuth";
+import { localProvider } from "./localAuth";
+import { SESSION_TTL_MS, sessionStore } from "./sessionStore";
+
+// What passport keeps in the session. Every provider stores OIDC-style claims
+// so the rest of the server does not care how the user signed in.
+export interface SessionUser {
+  provider: string;
+  claims: {
+    sub: string;
+    email?: string | null;
+    first_name?: string | null;
+    last_name?: string | null;
+    profile_image_url?: string | null;
+    [claim: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export interface AuthProvider {
+  name: string;
+  label: string;
+  // Whether the environment has what the provider needs to run
+  isConfigured(): boolean;
+  // Registers passport strategies and the provider's own routes
+  setup(app: Express): Promise<void>;
+  // Redirect-based providers expose a URL that starts the login flow
+  loginUrl?: string;
+  describe?(): Promise<Partial<AuthProviderInfo>>;
+  // Where to send the browser once the local session is gone
+  logoutRedirect?(req: Request): Promise<string>;
+}
+
+const availableProviders: AuthProvider[] = [replitProvider, localProvider];
+
+// AUTH_PROVIDERS lists the providers to enable, e.g. "local,replit". When unset,
+// Replit Auth is used on Replit and local accounts everywhere else.
+function resolveProviders(): AuthProvider[] {
+  const requested = (process.env.AUTH_PROVIDERS || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  if (requested.length === 0) {
+    return [replitProvider.isConfigured() ? replitProvider : localProvider];
+  }
+
+  return requested.map((name) => {
+    const provider = availableProviders.find((p) => p.name === name);
+    if (!provider) {
+      throw new Error(`Unknown auth provider "${name}" in AUTH_PROVIDERS`);
+    }
+    if (!provider.isConfigured()) {
+      throw new Error(`Auth provider "${name}" is enabled but not configured`);
+    }
+    return provider;
+  });
+}
+
+export const enabledProviders = resolveProviders();
+
+export function toSessionUser(provider: string, user: User): SessionUser {
+  return {
+    provider,
+    claims: {
+      sub: user.id,
+      email: user.email,
+      first_name: user.firstName,
+      last_name: user.lastName,
+      profile_image_url: user.profileImageUrl,
+    },
+  };
+}
+
+// Starts an authenticated session for a user, e.g. after a password login
+export function logIn(req: Request, sessionUser: SessionUser): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.login(sessionUser, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Sessions are signed with SESSION_SECRET. A fixed fallback keeps development
+// sessions alive across restarts; production refuses to start without one.
+export function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return "development-session-secret";
+}
+
+export function getSession() {
+  return session({
+    secret: sessionSecret(),
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_TTL_MS,
+    },
+  });
+}
+
+export async function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  for (const provider of enabledProviders) {
+    await provider.setup(app);
+  }
+
+  app.get("/api/auth/providers", async (_req, res) => {
+    try {
+      const providers: AuthProviderInfo[] = await Promise.all(
+        enabledProviders.map(async (provider) => ({
+          name: provider.name,
+          label: provider.label,
+          loginUrl: provider.loginUrl,
+          ...(await provider.describe?.()),
+        })),
+      );
+      res.json(providers);
+    } catch (error) {
+      console.error("Error fetching auth providers:", error);
+      res.status(500).json({ message: "Failed to fetch auth providers" });
+    }
+  });
+
+  app.get("/api/login", (req, res) => {
+    // In development, simply clear the logged out flag and redirect
+    if (process.env.NODE_ENV === 'development') {
+      (req.session as any).loggedOut = false;
+      res.redirect('/admin');
+      return;
+    }
+
+    // A single redirect-based provider needs no login page
+    const [only] = enabledProviders;
+    if (enabledProviders.length === 1 && only.loginUrl) {
+      res.redirect(only.loginUrl);
+      return;
+    }
+    res.redirect("/login");
+  });
+
+  app.get("/api/logout", (req, res) => {
+    console.log('Logout endpoint hit');
+    
+    // In development, handle logout differently unless someone really signed in
+    if (process.env.NODE_ENV === 'development' && !req.isAuthenticated()) {
+      console.log('Development logout - before:', req.session);
+      (req.session as any).loggedOut = true;
+      console.log('Development logout - after setting flag:', req.session);
+      req.session.save((err) => {
+        if (err) {
+          console.error('Session save error:', err);
+        } else {
+          console.log('Session saved successfully');
+        }
+        res.redirect('/');
+      });
+      return;
+    }
+
+    const providerName = (req.user as SessionUser | undefined)?.provider;
+    const provider = enabledProviders.find((p) => p.name === providerName);
+
+    // Production logout flow
+    req.logout((err) => {
+      if (err) {
+        console.error("Logout error:", err);
+      }
+      
+      // Clear the session completely for production
+      req.session.destroy(async (err) => {
+        if (err) {
+          console.error("Session destroy error:", err);
+        }
+        
+        // Clear the session cookie
+        res.clearCookie('connect.sid');
+
+        try {
+          res.redirect(provider?.logoutRedirect ? await provider.logoutRedirect(req) : "/");
+        } catch (error) {
+          console.error("Logout redirect error:", error);
+          res.redirect("/");
+        }
+      });
+    });
+  });
+}
+
+export const isAuthenticated: RequestHandler = (req, res, next) => {
+  const user = req.user as SessionUser | undefined;
+  if (!req.isAuthenticated() || !user?.claims?.sub) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  next();
+};
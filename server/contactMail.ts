@@ -0,0 +1,64 @@
+import type { Request } from "express";
+import type { ContactReply, ContactSubmission, User } from "@shared/schema";
+import { storage } from "./storage";
+import { appUrl, sendMail } from "./mail";
+
+// CONTACT_NOTIFY_EMAILS lists who hears about new messages; without it, every
+// owner with an email address does
+async function notificationRecipients(): Promise<string[]> {
+  const configured = (process.env.CONTACT_NOTIFY_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim())
+    .filter(Boolean);
+  if (configured.length > 0) {
+    return configured;
+  }
+  const users = await storage.getUsers();
+  return users.filter((user) => user.role === "owner" && user.email).map((user) => user.email!);
+}
+
+// Tells the team about a new submission. Replying to the email goes straight
+// to the visitor.
+export async function notifyNewContact(req: Request, contact: ContactSubmission): Promise<void> {
+  const to = await notificationRecipients();
+  if (to.length === 0) {
+    return;
+  }
+  await sendMail({
+    to,
+    replyTo: contact.email,
+    subject: `New message: ${contact.subject}`,
+    text: `${contact.name} <${contact.email}> wrote:\n\n${contact.message}\n\nOpen the inbox: ${appUrl(req)}/admin`,
+  });
+}
+
+const replySubject = (subject: string) => (/^re:/i.test(subject) ? subject : `Re: ${subject}`);
+
+// Emails a reply to the sender, threaded after any earlier replies, and
+// records it. Nothing is stored if sending fails.
+export async function sendContactReply(contact: ContactSubmission, author: User, body: string): Promise<ContactReply> {
+  const previous = await storage.getContactReplies(contact.id);
+  const references = previous.map((reply) => reply.messageId);
+  const subject = replySubject(contact.subject);
+  const authorName = [author.firstName, author.lastName].filter(Boolean).join(" ");
+  const signature = authorName ? `\n\n${authorName}` : "";
+  const sentAt = contact.createdAt ? new Date(contact.createdAt).toUTCString() : "an earlier date";
+  const quoted = contact.message.split("\n").map((line) => `> ${line}`).join("\n");
+
+  const messageId = await sendMail({
+    to: contact.email,
+    replyTo: author.email || undefined,
+    subject,
+    text: `${body}${signature}\n\nOn ${sentAt}, ${contact.name} wrote:\n${quoted}`,
+    inReplyTo: references[references.length - 1],
+    references,
+  });
+
+  return await storage.createContactReply({
+    contactId: contact.id,
+    authorId: author.id,
+    subject,
+    body,
+    messageId,
+  });
+}
@@ -0,0 +1,41 @@
+export interface EmbedProvider {
+  name: string;
+  host: string;
+  match: RegExp;
+  embedUrl: (match: RegExpMatchArray, url: string) => string;
+}
+
+// A paragraph that consists of nothing but one of these URLs is rendered as
+// an embedded player instead of a link.
+export const embedProviders: EmbedProvider[] = [
+  {
+    name: "youtube",
+    host: "www.youtube-nocookie.com",
+    match: /^https?:\/\/(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/)([\w-]{11})/,
+    embedUrl: (m) => `https://www.youtube-nocookie.com/embed/${m[1]}`,
+  },
+  {
+    name: "vimeo",
+    host: "player.vimeo.com",
+    match: /^https?:\/\/(?:www\.)?vimeo\.com\/(\d+)/,
+    embedUrl: (m) => `https://player.vimeo.com/video/${m[1]}`,
+  },
+  {
+    name: "codepen",
+    host: "codepen.io",
+    match: /^https?:\/\/codepen\.io\/([\w-]+)\/pen\/(\w+)/,
+    embedUrl: (m) => `https://codepen.io/${m[1]}/embed/${m[2]}?default-tab=result`,
+  },
+  {
+    name: "figma",
+    host: "www.figma.com",
+    match: /^https?:\/\/(?:www\.)?figma\.com\/(?:file|design|proto)\/[\w-]+/,
+    embedUrl: (_m, url) => `https://www.figma.com/embed?embed_host=portfolio&url=${encodeURIComponent(url)}`,
+  },
+  {
+    name: "loom",
+    host: "www.loom.com",
+    match: /^https?:\/\/(?:www\.)?loom\.com\/share\/(\w+)/,
+    embedUrl: (m) => `https://www.loom.com/embed/${m[1]}`,
+  },
+];
@@ -0,0 +1,80 @@
+import path from "path";
+import fs from "fs/promises";
+
+// Enough of the start of a file to recognise every supported format
+const HEADER_SIZE = 4096;
+
+// ISO media brands that are still images (HEIF/AVIF) rather than video
+const IMAGE_BRANDS = new Set(["heic", "heix", "hevc", "mif1", "msf1", "avif", "avis"]);
+
+// Extensions a file of each detected type may be uploaded with. MP4 and
+// QuickTime share a container, and cameras label either one .mov or .mp4.
+const typeExtensions: Record<string, string[]> = {
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/png": [".png"],
+  "image/gif": [".gif"],
+  "image/webp": [".webp"],
+  "image/svg+xml": [".svg"],
+  "video/mp4": [".mp4", ".mov"],
+  "video/quicktime": [".mov", ".mp4"],
+  "video/x-msvideo": [".avi"],
+  "application/pdf": [".pdf"],
+  "application/msword": [".doc"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+};
+
+const SVG_PATTERN =
+  /^\uFEFF?\s*(?:<\?xml[^>]*\?>\s*)?(?:<!--[\s\S]*?-->\s*)*(?:<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>\s*)?(?:<!--[\s\S]*?-->\s*)*<svg[\s>]/i;
+
+function startsWith(header: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, index) => header[offset + index] === byte);
+}
+
+const ascii = (header: Buffer, start: number, end: number) => header.toString("latin1", start, end);
+
+// The type of a file judged by its content rather than its name or the type
+// the browser declared, or undefined when it is none of the supported formats
+export function detectFileType(header: Buffer): string | undefined {
+  if (startsWith(header, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (["GIF87a", "GIF89a"].includes(ascii(header, 0, 6))) return "image/gif";
+  if (ascii(header, 0, 4) === "RIFF") {
+    const format = ascii(header, 8, 12);
+    if (format === "WEBP") return "image/webp";
+    if (format === "AVI ") return "video/x-msvideo";
+    return undefined;
+  }
+  if (ascii(header, 4, 8) === "ftyp") {
+    const brand = ascii(header, 8, 12);
+    if (IMAGE_BRANDS.has(brand)) return undefined;
+    return brand === "qt  " ? "video/quicktime" : "video/mp4";
+  }
+  if (ascii(header, 0, 5) === "%PDF-") return "application/pdf";
+  // Legacy Word documents are OLE compound files
+  if (startsWith(header, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return "application/msword";
+  // A .docx is a zip whose first entries name its Word parts
+  if (startsWith(header, [0x50, 0x4b, 0x03, 0x04])) {
+    const names = ascii(header, 0, header.length);
+    return names.includes("word/") || names.includes("[Content_Types].xml")
+      ? "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+      : undefined;
+  }
+  if (SVG_PATTERN.test(header.toString("utf-8"))) return "image/svg+xml";
+  return undefined;
+}
+
+export async function detectFileTypeOf(file: string): Promise<string | undefined> {
+  const handle = await fs.open(file, "r");
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(HEADER_SIZE), 0, HEADER_SIZE, 0);
+    return detectFileType(buffer.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
+
+// Whether a file of the detected type may carry this name, so a page or
+// script renamed to .png is turned away
+export function matchesExtension(type: string, filename: string): boolean {
+  return (typeExtensions[type] ?? []).includes(path.extname(filename).toLowerCase());
+}
@@ -0,0 +1,38 @@
+import { parseArgs } from "util";
+import { findOrphanedFiles } from "./mediaUsage";
+import { getMediaStore } from "./mediaStore";
+
+// Lists files in the media store that no media record accounts for:
+//
+//   npm run media:orphans -- [--delete]
+//
+// With --delete they are removed as well. Avoid deleting while uploads are in
+// progress, since a new file is stored just before its record is created.
+(async () => {
+  const { values } = parseArgs({
+    options: {
+      delete: { type: "boolean", default: false },
+    },
+  });
+
+  const store = getMediaStore();
+  const orphans = await findOrphanedFiles(store);
+  let failed = 0;
+  for (const key of orphans) {
+    console.log(key);
+    if (values.delete) {
+      try {
+        await store.delete(key);
+      } catch (error) {
+        console.error(`Failed to delete ${key}:`, error);
+        failed++;
+      }
+    }
+  }
+  if (values.delete) {
+    console.log(`Deleted ${orphans.length - failed} of ${orphans.length} orphaned file(s) from the ${store.name} media store`);
+  } else {
+    console.log(`Found ${orphans.length} orphaned file(s) in the ${store.name} media store`);
+  }
+  process.exit(failed > 0 ? 1 : 0);
+})();
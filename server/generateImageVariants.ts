@@ -0,0 +1,53 @@
+import path from "path";
+import os from "os";
+import fs from "fs/promises";
+import { createWriteStream } from "fs";
+import { pipeline } from "stream/promises";
+import { buffer } from "stream/consumers";
+import type { Media } from "@shared/schema";
+import { storage } from "./storage";
+import { isResizableImage, processImage } from "./images";
+import { hasPreview, processPreview } from "./previews";
+import { getMediaStore } from "./mediaStore";
+
+const needsVariants = (file: Media) => isResizableImage(file.mimeType) && !file.variants?.length;
+const needsPreview = (file: Media) => hasPreview(file.mimeType) && !file.preview && !file.duration && !file.pageCount;
+
+// Creates variants and placeholders for images, and posters and first-page
+// previews for videos and PDFs, uploaded before they were generated on
+// upload. Safe to run again; processed files are skipped.
+// Run with `npm run media:variants`.
+(async () => {
+  let processed = 0;
+  for (const file of await storage.getMedia()) {
+    if (!needsVariants(file) && !needsPreview(file)) {
+      continue;
+    }
+    try {
+      const stored = await getMediaStore().get(file.filename);
+      if (!stored) {
+        console.warn(`Skipping media ${file.id}: ${file.filename} is missing from the media store`);
+        continue;
+      }
+      if (needsVariants(file)) {
+        const original = await buffer(stored.body);
+        await storage.updateMedia(file.id, await processImage(original, file.filename, file.mimeType));
+      } else {
+        // ffmpeg and pdf.js read from disk, so the file is copied out of the store first
+        const local = path.join(os.tmpdir(), file.filename);
+        try {
+          await pipeline(stored.body, createWriteStream(local));
+          await storage.updateMedia(file.id, await processPreview(local, file.filename, file.mimeType));
+        } finally {
+          await fs.rm(local, { force: true });
+        }
+      }
+      processed++;
+    } catch (error) {
+      console.error(`Failed to process media ${file.id}:`, error);
+      process.exitCode = 1;
+    }
+  }
+  console.log(`Generated variants or previews for ${processed} file(s)`);
+  process.exit();
+})();
@@ -0,0 +1,156 @@
+import path from "path";
+import fs from "fs/promises";
+import sharp, { type Sharp } from "sharp";
+import type { GalleryImage, ImageVariant, InsertMedia, Media, Project, ProjectWithMedia, ResponsiveImageSource } from "@shared/schema";
+import { imageVariantFormats } from "@shared/images";
+import { storage } from "./storage";
+import { contentTypeFor, getMediaStore, mediaUrl, type MediaStore } from "./mediaStore";
+
+// Widths are only generated up to the original's, so nothing is upscaled
+const VARIANT_WIDTHS = [320, 640, 960, 1280, 1920];
+const PLACEHOLDER_WIDTH = 16;
+
+// GIFs are left alone so animations survive, and SVGs scale on their own
+const RESIZABLE_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
+
+const encoders: Record<ImageVariant["format"], (image: Sharp) => Sharp> = {
+  webp: (image) => image.webp({ quality: 78 }),
+  // AVIF is much slower to encode; a low effort keeps uploads responsive
+  avif: (image) => image.avif({ quality: 55, effort: 2 }),
+};
+
+export type ImageMetadata = Pick<InsertMedia, "width" | "height" | "variants" | "placeholder">;
+
+export function isResizableImage(mimeType: string): boolean {
+  return RESIZABLE_TYPES.has(mimeType);
+}
+
+export function variantWidths(originalWidth: number): number[] {
+  const widths = VARIANT_WIDTHS.filter((width) => width < originalWidth);
+  if (originalWidth <= VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]) {
+    widths.push(originalWidth);
+  }
+  return widths;
+}
+
+// Rewrites a JPEG, PNG or WebP without its EXIF, XMP and IPTC metadata,
+// which can give away where and with what a photo was taken. The EXIF
+// orientation is applied to the pixels first, and the colour profile is kept.
+// Returns whether the file was rewritten; images without metadata are not.
+export async function stripImageMetadata(file: string, mimeType: string): Promise<boolean> {
+  if (!isResizableImage(mimeType)) {
+    return false;
+  }
+  const metadata = await sharp(file).metadata();
+  if (!metadata.exif && !metadata.xmp && !metadata.iptc) {
+    return false;
+  }
+  const image = sharp(file).rotate().keepIccProfile();
+  const encoded =
+    mimeType === "image/jpeg"
+      ? image.jpeg({ quality: 92 })
+      : mimeType === "image/png"
+        ? image.png()
+        : image.webp({ quality: 92 });
+  // sharp reads the whole input before writing, so the file can be replaced in place
+  await fs.writeFile(file, await encoded.toBuffer());
+  return true;
+}
+
+// Reads the dimensions of an uploaded image and, for photos and other raster
+// images, stores WebP and AVIF variants beside it (photo.jpg becomes
+// photo-640w.webp and so on) along with a tiny blurred placeholder.
+// input is the original as a file path or buffer; key is its media key.
+export async function processImage(
+  input: string | Buffer,
+  key: string,
+  mimeType: string,
+  store: MediaStore = getMediaStore(),
+): Promise<ImageMetadata> {
+  const metadata = await sharp(input).metadata();
+  // EXIF orientations 5-8 are rotated by 90 degrees
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = (rotated ? metadata.height : metadata.width) ?? null;
+  const height = (rotated ? metadata.width : metadata.height) ?? null;
+  if (!isResizableImage(mimeType) || !width || !height) {
+    return { width, height, variants: null, placeholder: null };
+  }
+
+  const base = path.basename(key, path.extname(key));
+  const variants: ImageVariant[] = [];
+  for (const variantWidth of variantWidths(width)) {
+    for (const format of imageVariantFormats) {
+      const variantKey = `${base}-${variantWidth}w.${format}`;
+      const { data, info } = await encoders[format](sharp(input).rotate().resize({ width: variantWidth })).toBuffer({
+        resolveWithObject: true,
+      });
+      await store.put(variantKey, data, { contentType: contentTypeFor(variantKey) });
+      variants.push({ url: mediaUrl(variantKey), format, width: info.width, height: info.height, size: info.size });
+    }
+  }
+
+  return { width, height, variants, placeholder: await createPlaceholder(input) };
+}
+
+// A tiny blurred version of an image, as a data URL to show while it loads
+export async function createPlaceholder(input: string | Buffer): Promise<string> {
+  const preview = await sharp(input).rotate().resize({ width: PLACEHOLDER_WIDTH }).webp({ quality: 50 }).toBuffer();
+  return `data:image/webp;base64,${preview.toString("base64")}`;
+}
+
+export const toResponsiveImage = (file: Media): ResponsiveImageSource => ({
+  url: file.url,
+  width: file.width,
+  height: file.height,
+  variants: file.variants,
+  placeholder: file.placeholder,
+});
+
+// Looks up the media records behind the given URLs, keyed by URL. External
+// images and URLs that were never uploaded are simply missing.
+export async function getResponsiveImages(urls: string[]): Promise<Map<string, ResponsiveImageSource>> {
+  const unique = Array.from(new Set(urls.filter(Boolean)));
+  const files = await storage.getMediaByUrls(unique);
+  return new Map(files.map((file) => [file.url, toResponsiveImage(file)]));
+}
+
+// Origins the site is served from, set with APP_URL or by Replit
+function siteOrigins(): string[] {
+  const origins = (process.env.REPLIT_DOMAINS ?? "")
+    .split(",")
+    .filter(Boolean)
+    .map((domain) => `https://${domain.toLowerCase()}`);
+  if (process.env.APP_URL) {
+    origins.push(new URL(process.env.APP_URL).origin);
+  }
+  return origins;
+}
+
+// Uploaded files referenced from Markdown content: root-relative /uploads/
+// paths, and absolute links to them on this site. The same path on another
+// host, or deeper in someone else's URL, is not one of ours.
+export function contentImageUrls(content: string): string[] {
+  const origins = siteOrigins();
+  return Array.from(content.matchAll(/(?<![\w.~%/:-])(https?:\/\/[\w.-]+(?::\d+)?)?(\/uploads\/[\w.-]+)/gi))
+    .filter(([, origin]) => !origin || origins.includes(origin.toLowerCase()))
+    .map(([, , url]) => url);
+}
+
+export async function withFeaturedMedia(projects: Project[]): Promise<ProjectWithMedia[]> {
+  const images = await getResponsiveImages(projects.map((project) => project.featuredImage ?? ""));
+  return projects.map((project) => ({
+    ...project,
+    featuredMedia: (project.featuredImage && images.get(project.featuredImage)) || null,
+  }));
+}
+
+// A project's gallery as its case study shows it
+export async function getProjectGallery(projectId: number): Promise<GalleryImage[]> {
+  const items = await storage.getProjectMedia(projectId);
+  return items.map((item) => ({
+    id: item.id,
+    caption: item.caption || item.media.caption,
+    layout: item.layout,
+    image: { ...toResponsiveImage(item.media), altText: item.media.altText },
+  }));
+}
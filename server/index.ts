@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startPublishScheduler } from "./scheduler";
+import { startWebhookWorker } from "./webhooks";
+import { startUploadCleanup } from "./uploads";
+import { getMailTransport } from "./mail";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +41,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Fail at startup rather than on the first password reset
+  getMailTransport();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,5 +73,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startPublishScheduler();
+    startWebhookWorker();
+    startUploadCleanup();
   });
 })();
@@ -0,0 +1,22 @@
+// Runs a background task now and then every intervalMs, skipping a tick
+// rather than overlapping a slow previous run. Errors are logged under name.
+// Returns a function that stops the task.
+export function startIntervalTask(name: string, task: () => Promise<unknown>, intervalMs: number): () => void {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      console.error(`${name} error:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  tick();
+  return () => clearInterval(timer);
+}
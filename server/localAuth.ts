@@ -0,0 +1,242 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import {
+  emailRequestSchema,
+  localLoginSchema,
+  localRegisterSchema,
+  passwordResetSchema,
+  type AuthTokenType,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { appUrl, sendMail } from "./mail";
+import { destroyUserSessions } from "./sessionStore";
+import { generateToken, hashPassword, hashToken, verifyPassword } from "./secrets";
+import { logIn, toSessionUser, type AuthProvider, type SessionUser } from "./auth";
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+// Compared against when the email is unknown, so a miss takes as long as a hit
+const DUMMY_HASH_PROMISE = hashPassword(generateToken());
+
+// Anyone may create the first account; after that only when LOCAL_AUTH_SIGNUP=true
+async function isSignupOpen(): Promise<boolean> {
+  if (process.env.LOCAL_AUTH_SIGNUP === "true") {
+    return true;
+  }
+  const users = await storage.getUsers();
+  return users.length === 0;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// A page with one button that signs in with the magic link's token
+function magicLinkPage(token: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Sign in</title>
+  <style>
+    body { font-family: system-ui, sans-serif; display: flex; min-height: 100vh; margin: 0; align-items: center; justify-content: center; }
+    form { text-align: center; }
+    button { font: inherit; padding: 0.6rem 1.5rem; border: 0; border-radius: 0.375rem; background: #111827; color: #fff; cursor: pointer; }
+  </style>
+</head>
+<body>
+  <form method="post" action="/api/auth/local/magic-link/verify">
+    <h1>Sign in</h1>
+    <p>Continue to sign in with the link from your email.</p>
+    <input type="hidden" name="token" value="${escapeHtml(token)}">
+    <button type="submit">Sign in</button>
+  </form>
+</body>
+</html>`;
+}
+
+async function issueToken(user: User, type: AuthTokenType, ttlMs: number): Promise<string> {
+  const token = generateToken();
+  await storage.createAuthToken({
+    userId: user.id,
+    type,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+  return token;
+}
+
+async function verifyCredentials(email: string, password: string): Promise<User | null> {
+  const user = await storage.getUserByEmail(email);
+  const passwordHash = user ? await storage.getPasswordHash(user.id) : undefined;
+  if (!user || !passwordHash) {
+    await verifyPassword(password, await DUMMY_HASH_PROMISE);
+    return null;
+  }
+  return (await verifyPassword(password, passwordHash)) ? user : null;
+}
+
+// Email and password accounts, with password reset and magic link emails
+export const localProvider: AuthProvider = {
+  name: "local",
+  label: "Email",
+
+  isConfigured() {
+    return true;
+  },
+
+  async describe() {
+    return { signupOpen: await isSignupOpen() };
+  },
+
+  async setup(app: Express) {
+    passport.use(
+      "local",
+      new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+        try {
+          const user = await verifyCredentials(email, password);
+          done(null, user ? toSessionUser("local", user) : false);
+        } catch (error) {
+          done(error);
+        }
+      }),
+    );
+
+    app.post("/api/auth/local/login", (req, res, next) => {
+      const parsed = localLoginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Email and password are required" });
+      }
+
+      passport.authenticate("local", async (err: unknown, sessionUser: SessionUser | false) => {
+        if (err) {
+          console.error("Error during local login:", err);
+          return res.status(500).json({ message: "Failed to log in" });
+        }
+        if (!sessionUser) {
+          return res.status(401).json({ message: "Invalid email or password" });
+        }
+        try {
+          await logIn(req, sessionUser);
+          res.json({ ok: true });
+        } catch (error) {
+          next(error);
+        }
+      })(req, res, next);
+    });
+
+    app.post("/api/auth/local/register", async (req, res) => {
+      try {
+        if (!(await isSignupOpen())) {
+          return res.status(403).json({ message: "Sign up is closed" });
+        }
+        const data = localRegisterSchema.parse(req.body);
+        if (await storage.getUserByEmail(data.email)) {
+          return res.status(409).json({ message: "An account with this email already exists" });
+        }
+
+        const user = await storage.upsertUser({
+          id: randomUUID(),
+          email: data.email.toLowerCase(),
+          firstName: data.firstName,
+          lastName: data.lastName,
+        });
+        await storage.setPasswordHash(user.id, await hashPassword(data.password));
+        await logIn(req, toSessionUser("local", user));
+        res.status(201).json({ ok: true });
+      } catch (error) {
+        console.error("Error registering user:", error);
+        res.status(400).json({ message: "Failed to create account" });
+      }
+    });
+
+    // Always answers the same way so the endpoint cannot be used to probe for accounts
+    app.post("/api/auth/local/password-reset", async (req, res) => {
+      try {
+        const { email } = emailRequestSchema.parse(req.body);
+        const user = await storage.getUserByEmail(email);
+        if (user?.email) {
+          const token = await issueToken(user, "password_reset", PASSWORD_RESET_TTL_MS);
+          const link = `${appUrl(req)}/reset-password?token=${token}`;
+          await sendMail({
+            to: user.email,
+            subject: "Reset your password",
+            text: `Use the link below to choose a new password. It expires in one hour.\n\n${link}\n\nIf you did not ask for this, you can ignore this email.`,
+          });
+        }
+        res.json({ message: "If an account exists for that email, a reset link is on its way." });
+      } catch (error) {
+        console.error("Error requesting password reset:", error);
+        res.status(400).json({ message: "Failed to request password reset" });
+      }
+    });
+
+    app.post("/api/auth/local/password-reset/confirm", async (req, res) => {
+      try {
+        const data = passwordResetSchema.parse(req.body);
+        const token = await storage.consumeAuthToken(hashToken(data.token), "password_reset");
+        if (!token) {
+          return res.status(400).json({ message: "This reset link is invalid or has expired" });
+        }
+        await storage.setPasswordHash(token.userId, await hashPassword(data.password));
+        // Whoever knew the old password should not stay signed in
+        await destroyUserSessions(token.userId);
+        res.json({ ok: true });
+      } catch (error) {
+        console.error("Error resetting password:", error);
+        res.status(400).json({ message: "Failed to reset password" });
+      }
+    });
+
+    app.post("/api/auth/local/magic-link", async (req, res) => {
+      try {
+        const { email } = emailRequestSchema.parse(req.body);
+        const user = await storage.getUserByEmail(email);
+        if (user?.email) {
+          const token = await issueToken(user, "magic_link", MAGIC_LINK_TTL_MS);
+          const link = `${appUrl(req)}/api/auth/local/magic-link/verify?token=${token}`;
+          await sendMail({
+            to: user.email,
+            subject: "Your sign-in link",
+            text: `Use the link below to sign in. It expires in 15 minutes and works once.\n\n${link}\n\nIf you did not ask for this, you can ignore this email.`,
+          });
+        }
+        res.json({ message: "If an account exists for that email, a sign-in link is on its way." });
+      } catch (error) {
+        console.error("Error sending magic link:", error);
+        res.status(400).json({ message: "Failed to send sign-in link" });
+      }
+    });
+
+    // Mail scanners open links before the recipient does, so following the
+    // link only shows a button; the token is used up by the POST it sends
+    app.get("/api/auth/local/magic-link/verify", (req, res) => {
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      if (!token) {
+        return res.redirect("/login?error=invalid-link");
+      }
+      res.set({ "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" }).send(magicLinkPage(token));
+    });
+
+    app.post("/api/auth/local/magic-link/verify", async (req, res) => {
+      try {
+        const token = typeof req.body?.token === "string" ? req.body.token : "";
+        const consumed = token ? await storage.consumeAuthToken(hashToken(token), "magic_link") : undefined;
+        const user = consumed ? await storage.getUser(consumed.userId) : undefined;
+        if (!user) {
+          return res.redirect("/login?error=invalid-link");
+        }
+        await logIn(req, toSessionUser("local", user));
+        res.redirect("/admin");
+      } catch (error) {
+        console.error("Error verifying magic link:", error);
+        res.redirect("/login?error=invalid-link");
+      }
+    });
+  },
+};
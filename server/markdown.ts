@@ -0,0 +1,200 @@
+import MarkdownIt, { type RendererRule } from "markdown-it";
+import hljs from "highlight.js";
+import type { ContentHeading, MediaEmbed, Project, ResponsiveImageSource } from "@shared/schema";
+import { buildSrcSet, imageVariantFormats } from "@shared/images";
+import { formatDuration, formatPageCount } from "@shared/media";
+import { embedProviders } from "./embeds";
+import { sanitizeHtml } from "./sanitizer";
+
+export interface RenderedMarkdown {
+  html: string;
+  headings: ContentHeading[];
+}
+
+interface RenderEnv {
+  headings?: ContentHeading[];
+  // Media records for uploaded images in the content, keyed by URL
+  images?: Map<string, ResponsiveImageSource>;
+  // Uploaded videos and PDFs in the content, keyed by URL
+  embeds?: Map<string, MediaEmbed>;
+}
+
+// Content is shown in a column at most 56rem wide
+const CONTENT_IMAGE_SIZES = "(min-width: 56rem) 56rem, 100vw";
+
+export function slugifyHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-") || "section";
+}
+
+const md: MarkdownIt = new MarkdownIt({
+  html: true,
+  linkify: true,
+  typographer: true,
+  highlight: (code, lang) => {
+    const language = lang && hljs.getLanguage(lang) ? lang : null;
+    const highlighted = language
+      ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+      : md.utils.escapeHtml(code);
+    const className = language ? `hljs language-${language}` : "hljs";
+    return `<pre><code class="${className}">${highlighted}</code></pre>`;
+  },
+});
+
+// Give every heading a unique anchor id and collect them for a table of contents
+md.core.ruler.push("heading_anchors", (state) => {
+  const headings: ContentHeading[] = (state.env.headings = []);
+  const used = new Map<string, number>();
+  const tokens = state.tokens;
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== "heading_open") continue;
+    const text = tokens[i + 1].children
+      ?.filter((child) => child.type === "text" || child.type === "code_inline")
+      .map((child) => child.content)
+      .join("") ?? "";
+    const base = slugifyHeading(text);
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    const id = count === 0 ? base : `${base}-${count}`;
+
+    tokens[i].attrSet("id", id);
+    headings.push({ level: parseInt(tokens[i].tag.slice(1), 10), text, id });
+  }
+});
+
+const escape = (text: string) => md.utils.escapeHtml(text);
+
+// An uploaded video plays in place, with its poster frame shown until it starts
+function renderVideoEmbed(file: MediaEmbed): string {
+  const size = file.width && file.height ? ` width="${file.width}" height="${file.height}"` : "";
+  const poster = file.preview ? ` poster="${escape(file.preview.url)}"` : "";
+  const caption = file.caption ? `<figcaption>${escape(file.caption)}</figcaption>` : "";
+  return (
+    `<figure class="content-video"><video src="${escape(file.url)}"${poster}${size} ` +
+    `controls playsinline preload="metadata"></video>${caption}</figure>\n`
+  );
+}
+
+// PDFs show their first page, linking to the document itself
+function renderDocumentEmbed(file: MediaEmbed): string {
+  const title = escape(file.caption || file.originalName);
+  const details = [file.pageCount ? formatPageCount(file.pageCount) : "", "PDF"].filter(Boolean).join(" · ");
+  const link = `href="${escape(file.url)}" target="_blank"`;
+  const preview = file.preview
+    ? `<a ${link}><img src="${escape(file.preview.url)}" width="${file.preview.width}" height="${file.preview.height}" ` +
+      `alt="${escape(file.altText || `First page of ${file.originalName}`)}" loading="lazy"></a>`
+    : "";
+  return (
+    `<figure class="content-document">${preview}` +
+    `<figcaption><a ${link}>${title}</a> <span>${details}</span></figcaption></figure>\n`
+  );
+}
+
+// Replace stand-alone embed URLs with responsive iframes, and stand-alone
+// links to uploaded videos and PDFs with a player or a document preview
+md.core.ruler.push("embeds", (state) => {
+  const tokens = state.tokens;
+  const env: RenderEnv = state.env;
+  for (let i = 0; i < tokens.length - 2; i++) {
+    if (tokens[i].type !== "paragraph_open" || tokens[i + 2].type !== "paragraph_close") continue;
+    const url = tokens[i + 1].content.trim();
+    if (/\s/.test(url)) continue;
+
+    const file = env.embeds?.get(url);
+    if (file) {
+      const embed = new state.Token("html_block", "", 0);
+      embed.content = file.mimeType.startsWith("video/") ? renderVideoEmbed(file) : renderDocumentEmbed(file);
+      tokens.splice(i, 3, embed);
+      continue;
+    }
+
+    for (const provider of embedProviders) {
+      const match = url.match(provider.match);
+      if (!match) continue;
+      const embed = new state.Token("html_block", "", 0);
+      const src = md.utils.escapeHtml(provider.embedUrl(match, url));
+      embed.content =
+        `<div class="content-embed" data-provider="${provider.name}">` +
+        `<iframe src="${src}" loading="lazy" allowfullscreen ` +
+        `allow="autoplay; encrypted-media; picture-in-picture" title="${provider.name} embed"></iframe>` +
+        `</div>\n`;
+      tokens.splice(i, 3, embed);
+      break;
+    }
+  }
+});
+
+const defaultImageRule = md.renderer.rules.image!;
+// Uploaded images with variants become a <picture> offering AVIF and WebP
+// at several widths; the original stays as the fallback
+md.renderer.rules.image = (tokens, idx, options, env: RenderEnv, self) => {
+  const token = tokens[idx];
+  token.attrSet("loading", "lazy");
+  const image = env.images?.get(token.attrGet("src") ?? "");
+  if (!image?.variants?.length) {
+    return defaultImageRule(tokens, idx, options, env, self);
+  }
+  if (image.width && image.height) {
+    token.attrSet("width", String(image.width));
+    token.attrSet("height", String(image.height));
+  }
+  const sources = imageVariantFormats
+    .map((format) => [format, buildSrcSet(image.variants, format)])
+    .filter(([, srcset]) => srcset)
+    .map(([format, srcset]) => `<source type="image/${format}" srcset="${md.utils.escapeHtml(srcset)}" sizes="${CONTENT_IMAGE_SIZES}">`)
+    .join("");
+  return `<picture>${sources}${defaultImageRule(tokens, idx, options, env, self)}</picture>`;
+};
+
+const renderDefault: RendererRule = (tokens, idx, options, _env, self) => self.renderToken(tokens, idx, options);
+const defaultTableOpen = md.renderer.rules.table_open || renderDefault;
+const defaultTableClose = md.renderer.rules.table_close || renderDefault;
+md.renderer.rules.table_open = (tokens, idx, options, env, self) =>
+  `<div class="content-table">${defaultTableOpen(tokens, idx, options, env, self)}`;
+md.renderer.rules.table_close = (tokens, idx, options, env, self) =>
+  `${defaultTableClose(tokens, idx, options, env, self)}</div>`;
+
+// Raw HTML is allowed in the source, so the rendered output always goes
+// through the sanitizer before it reaches a visitor.
+export function renderMarkdown(
+  source: string,
+  images?: Map<string, ResponsiveImageSource>,
+  embeds?: Map<string, MediaEmbed>,
+): RenderedMarkdown {
+  const env: RenderEnv = { images, embeds };
+  const { html } = sanitizeHtml(md.render(source, env));
+  return { html, headings: env.headings ?? [] };
+}
+
+// Rendered output is cached per project revision. Every update (including a
+// revision restore) bumps updatedAt, so the key changes whenever content can.
+// Images gaining variants and videos or PDFs gaining previews later (see
+// `npm run media:variants`) also count.
+const MAX_CACHE_ENTRIES = 200;
+const renderCache = new Map<string, RenderedMarkdown>();
+
+export function renderProjectContent(
+  project: Project,
+  images?: Map<string, ResponsiveImageSource>,
+  embeds?: Map<string, MediaEmbed>,
+): RenderedMarkdown {
+  const withVariants = Array.from(images?.values() ?? []).filter((image) => image.variants?.length).length;
+  const withPreviews = Array.from(embeds?.values() ?? []).filter((file) => file.preview).length;
+  const key = `${project.id}:${project.updatedAt ? new Date(project.updatedAt).getTime() : 0}:${withVariants}:${withPreviews}`;
+  const cached = renderCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const rendered = renderMarkdown(project.content, images, embeds);
+  if (renderCache.size >= MAX_CACHE_ENTRIES) {
+    renderCache.delete(renderCache.keys().next().value!);
+  }
+  renderCache.set(key, rendered);
+  return rendered;
+}
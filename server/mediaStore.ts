@@ -0,0 +1,329 @@
+import path from "path";
+import fs from "fs/promises";
+import { createReadStream, createWriteStream } from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import express, { type RequestHandler } from "express";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+const DEFAULT_SIGNED_URL_TTL = 60 * 60;
+
+const contentTypes: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".svg": "image/svg+xml",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+  ".avi": "video/x-msvideo",
+  ".pdf": "application/pdf",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+export function contentTypeFor(key: string): string {
+  return contentTypes[path.extname(key).toLowerCase()] ?? "application/octet-stream";
+}
+
+// Types a browser may show in the page; anything else is downloaded
+const INLINE_TYPE = /^(image|video)\/|^application\/pdf$/;
+
+// Headers uploads are served with, so a browser never treats one as a page
+// of this site: the type is fixed by the key, never sniffed, and an SVG
+// opened on its own cannot run script even if sanitizing missed something
+export function mediaHeaders(key: string): Record<string, string> {
+  const contentType = contentTypeFor(key);
+  const headers: Record<string, string> = {
+    "Content-Type": contentType,
+    "Content-Disposition": INLINE_TYPE.test(contentType) ? "inline" : "attachment",
+    "X-Content-Type-Options": "nosniff",
+  };
+  if (contentType === "image/svg+xml") {
+    headers["Content-Security-Policy"] = "default-src 'none'; style-src 'unsafe-inline'; sandbox";
+  }
+  return headers;
+}
+
+// Uploaded files are always linked as /uploads/<key>, whichever store holds
+// them, so moving between stores never rewrites project content
+export function mediaUrl(key: string): string {
+  return `/uploads/${key}`;
+}
+
+// The key behind a /uploads/<key> URL, or undefined for any other URL
+export function mediaKeyFromUrl(url: string): string | undefined {
+  const match = url.match(/^\/uploads\/([^/?#]+)$/);
+  return match?.[1];
+}
+
+export interface StoredObject {
+  body: Readable;
+  size: number;
+  contentType: string;
+}
+
+export interface PutOptions {
+  contentType: string;
+  // Required when body is a stream
+  size?: number;
+}
+
+// Where uploaded files live. Keys are flat file names such as
+// "0b7c….jpg" or "0b7c…-640w.webp".
+export interface MediaStore {
+  readonly name: string;
+  put(key: string, body: Buffer | Readable, options: PutOptions): Promise<void>;
+  // Resolves with undefined when the key does not exist
+  get(key: string): Promise<StoredObject | undefined>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  list(): AsyncIterable<string>;
+  // A URL a browser can fetch the file from for the next expiresIn seconds
+  signedUrl(key: string, expiresIn?: number): Promise<string>;
+}
+
+function assertKey(key: string) {
+  if (!key || key !== path.basename(key) || key.startsWith(".")) {
+    throw new Error(`Invalid media key "${key}"`);
+  }
+}
+
+// Files on local disk in MEDIA_DIR (default uploads/). Fine for a single
+// server with a persistent disk; files are public, so URLs need no signing.
+export class LocalMediaStore implements MediaStore {
+  name = "local";
+
+  constructor(readonly dir = process.env.MEDIA_DIR || "uploads") {}
+
+  private filePath(key: string) {
+    assertKey(key);
+    return path.join(this.dir, key);
+  }
+
+  async put(key: string, body: Buffer | Readable, _options: PutOptions): Promise<void> {
+    const file = this.filePath(key);
+    await fs.mkdir(this.dir, { recursive: true });
+    if (Buffer.isBuffer(body)) {
+      await fs.writeFile(file, body);
+    } else {
+      await pipeline(body, createWriteStream(file));
+    }
+  }
+
+  async get(key: string): Promise<StoredObject | undefined> {
+    const file = this.filePath(key);
+    try {
+      const stat = await fs.stat(file);
+      return { body: createReadStream(file), size: stat.size, contentType: contentTypeFor(key) };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.filePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async *list(): AsyncIterable<string> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.dir);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return;
+      throw error;
+    }
+    for (const entry of entries) {
+      if (!entry.startsWith(".")) yield entry;
+    }
+  }
+
+  async signedUrl(key: string): Promise<string> {
+    assertKey(key);
+    return mediaUrl(key);
+  }
+}
+
+// Any S3-compatible bucket (AWS, R2, MinIO, ...), configured with S3_BUCKET,
+// S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY and optionally
+// S3_ENDPOINT, S3_FORCE_PATH_STYLE=true (MinIO) and S3_PREFIX. Files are read
+// through signed URLs, or straight from S3_PUBLIC_URL for a public bucket/CDN.
+export class S3MediaStore implements MediaStore {
+  name = "s3";
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+  private publicUrl?: string;
+
+  constructor() {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("MEDIA_STORE=s3 needs S3_BUCKET");
+    }
+    this.bucket = process.env.S3_BUCKET;
+    this.prefix = process.env.S3_PREFIX || "";
+    this.publicUrl = process.env.S3_PUBLIC_URL?.replace(/\/$/, "");
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      // Streamed uploads otherwise go out aws-chunked with a checksum trailer,
+      // which not every S3-compatible service understands
+      requestChecksumCalculation: "WHEN_REQUIRED",
+      credentials: process.env.S3_ACCESS_KEY_ID
+        ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "" }
+        : undefined,
+    });
+  }
+
+  private objectKey(key: string) {
+    assertKey(key);
+    return `${this.prefix}${key}`;
+  }
+
+  async put(key: string, body: Buffer | Readable, options: PutOptions): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: body,
+        ContentType: options.contentType,
+        ContentDisposition: mediaHeaders(key)["Content-Disposition"],
+        ContentLength: Buffer.isBuffer(body) ? body.length : options.size,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<StoredObject | undefined> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      return {
+        body: result.Body as Readable,
+        size: result.ContentLength ?? 0,
+        contentType: result.ContentType || contentTypeFor(key),
+      };
+    } catch (error: any) {
+      if (error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404) return undefined;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      return true;
+    } catch (error: any) {
+      if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+  }
+
+  async *list(): AsyncIterable<string> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.prefix || undefined,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of page.Contents ?? []) {
+        const key = object.Key!.slice(this.prefix.length);
+        // Skip "folders" below the prefix; media keys are flat
+        if (key && !key.includes("/")) yield key;
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  async signedUrl(key: string, expiresIn = DEFAULT_SIGNED_URL_TTL): Promise<string> {
+    if (this.publicUrl) {
+      return `${this.publicUrl}/${this.objectKey(key)}`;
+    }
+    // Objects stored before their headers were set get them from the URL
+    const headers = mediaHeaders(key);
+    return await getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        ResponseContentType: headers["Content-Type"],
+        ResponseContentDisposition: headers["Content-Disposition"],
+      }),
+      { expiresIn },
+    );
+  }
+}
+
+export function createMediaStore(name = process.env.MEDIA_STORE || "local"): MediaStore {
+  switch (name) {
+    case "local":
+      return new LocalMediaStore();
+    case "s3":
+      return new S3MediaStore();
+    default:
+      throw new Error(`Unknown MEDIA_STORE "${name}" (expected "local" or "s3")`);
+  }
+}
+
+let store: MediaStore | undefined;
+
+export function getMediaStore(): MediaStore {
+  store ??= createMediaStore();
+  return store;
+}
+
+// Handles /uploads/<key>. Local files are served from disk; files in other
+// stores redirect to a short-lived signed URL. S3 cannot add nosniff or a CSP
+// to its responses, so a bucket served to browsers should have its CDN do so.
+export function serveMedia(): RequestHandler {
+  const mediaStore = getMediaStore();
+  if (mediaStore instanceof LocalMediaStore) {
+    return express.static(mediaStore.dir, {
+      setHeaders: (res, file) => {
+        for (const [name, value] of Object.entries(mediaHeaders(file))) {
+          res.setHeader(name, value);
+        }
+      },
+    });
+  }
+  return async (req, res, next) => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      return next();
+    }
+    try {
+      const key = decodeURIComponent(req.path.slice(1));
+      const url = await mediaStore.signedUrl(key, DEFAULT_SIGNED_URL_TTL);
+      // Let browsers reuse the redirect for a while, well inside the URL's lifetime
+      res.set("Cache-Control", "private, max-age=300");
+      res.redirect(302, url);
+    } catch (error) {
+      console.error("Error serving media:", error);
+      res.status(404).end();
+    }
+  };
+}
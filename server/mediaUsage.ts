@@ -0,0 +1,73 @@
+import type { Media, MediaUsage, MediaWithUsage, Project } from "@shared/schema";
+import { storage } from "./storage";
+import { contentImageUrls } from "./images";
+import { getMediaStore, mediaKeyFromUrl, type MediaStore } from "./mediaStore";
+
+// Uploaded files a project links to, from its featured image, description
+// or Markdown content. Absolute links count too, but only to this site.
+export function projectMediaUrls(project: Project): Set<string> {
+  const fields = [project.featuredImage ?? "", project.description, project.content];
+  return new Set(fields.flatMap(contentImageUrls));
+}
+
+// Every project that links to one of the given files or shows it in its
+// gallery, keyed by media URL. Only projects that could use the files are loaded.
+export async function getMediaUsage(files: Media[]): Promise<Map<string, MediaUsage[]>> {
+  const fileUrls = new Map(files.map((file) => [file.id, file.url]));
+  const { projects, galleryItems } = await storage.getProjectsUsingMedia(
+    Array.from(fileUrls.values()),
+    Array.from(fileUrls.keys()),
+  );
+  const projectUrls = new Map(projects.map((project) => [project.id, projectMediaUrls(project)]));
+  // Gallery items point at media by id rather than URL
+  for (const item of galleryItems) {
+    const url = fileUrls.get(item.mediaId);
+    if (url) projectUrls.get(item.projectId)?.add(url);
+  }
+
+  const wanted = new Set(fileUrls.values());
+  const usage = new Map<string, MediaUsage[]>();
+  for (const project of projects) {
+    for (const url of Array.from(projectUrls.get(project.id)!).filter((url) => wanted.has(url))) {
+      const usedIn = usage.get(url) ?? [];
+      usedIn.push({ id: project.id, title: project.title, slug: project.slug });
+      usage.set(url, usedIn);
+    }
+  }
+  return usage;
+}
+
+export async function withMediaUsage(files: Media[]): Promise<MediaWithUsage[]> {
+  const usage = await getMediaUsage(files);
+  return files.map((file) => ({ ...file, usedIn: usage.get(file.url) ?? [] }));
+}
+
+// The stored original along with its resized variants and preview
+export function mediaFileKeys(file: Media): string[] {
+  const variantKeys = (file.variants ?? []).map((variant) => mediaKeyFromUrl(variant.url));
+  const previewKey = file.preview && mediaKeyFromUrl(file.preview.url);
+  return [file.filename, ...variantKeys, previewKey].filter((key): key is string => !!key);
+}
+
+// Removes a deleted media record's files from the store. Failures are only
+// logged: the record is already gone, and the orphan scan picks up leftovers.
+export async function deleteMediaFiles(file: Media, store: MediaStore = getMediaStore()): Promise<void> {
+  for (const key of mediaFileKeys(file)) {
+    try {
+      await store.delete(key);
+    } catch (error) {
+      console.error(`Error deleting media file ${key}:`, error);
+    }
+  }
+}
+
+// Files in the store that no media record accounts for, such as leftovers
+// from failed uploads or from deletions before files were removed
+export async function findOrphanedFiles(store: MediaStore = getMediaStore()): Promise<string[]> {
+  const known = new Set((await storage.getMedia()).flatMap(mediaFileKeys));
+  const orphans: string[] = [];
+  for await (const key of store.list()) {
+    if (!known.has(key)) orphans.push(key);
+  }
+  return orphans;
+}
@@ -0,0 +1,17 @@
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import { createDb } from "./db";
+
+// Applies the SQL migrations in ./migrations to DATABASE_URL.
+// Run with `npm run db:migrate` before starting the server in production.
+(async () => {
+  const { pool, db } = createDb();
+  try {
+    await migrate(db, { migrationsFolder: "migrations" });
+    console.log("Migrations applied successfully");
+  } catch (error) {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+})();
@@ -0,0 +1,49 @@
+import { parseArgs } from "util";
+import { createMediaStore } from "./mediaStore";
+
+// Copies every file from one media store to another, e.g. before switching
+// MEDIA_STORE from local to s3:
+//
+//   npm run media:migrate -- --from local --to s3 [--delete-source]
+//
+// Media URLs do not depend on the store, so no database changes are needed.
+// Files already in the target are skipped, so an interrupted run can be resumed.
+(async () => {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      "delete-source": { type: "boolean", default: false },
+    },
+  });
+  if (!values.from || !values.to || values.from === values.to) {
+    console.error("Usage: npm run media:migrate -- --from <local|s3> --to <local|s3> [--delete-source]");
+    process.exit(1);
+  }
+
+  const source = createMediaStore(values.from);
+  const target = createMediaStore(values.to);
+  let copied = 0;
+  let skipped = 0;
+  let failed = 0;
+  for await (const key of source.list()) {
+    try {
+      if (await target.exists(key)) {
+        skipped++;
+      } else {
+        const object = await source.get(key);
+        if (!object) continue;
+        await target.put(key, object.body, { contentType: object.contentType, size: object.size });
+        copied++;
+      }
+      if (values["delete-source"]) {
+        await source.delete(key);
+      }
+    } catch (error) {
+      console.error(`Failed to copy ${key}:`, error);
+      failed++;
+    }
+  }
+  console.log(`Copied ${copied} file(s) from ${source.name} to ${target.name}; ${skipped} already there, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+})();
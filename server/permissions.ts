@@ -0,0 +1,147 @@
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { requireSecondFactor } from "./twoFactor";
+import { recordSessionActivity } from "./sessionStore";
+import { authenticateApiToken, bearerToken, getApiToken } from "./apiTokens";
+import { hasPermission, type Permission } from "@shared/permissions";
+import type { ApiToken, User } from "@shared/schema";
+
+// Express.User is passport's session user, so the record needs another name
+type CurrentUser = User;
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by loadCurrentUser for every authenticated route
+      currentUser?: CurrentUser;
+      // Set by authenticateApiToken when the request used a bearer token
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+// Development requests act as this user unless someone has actually signed
+// in through a provider, or the session has logged out
+const DEVELOPMENT_CLAIMS = {
+  sub: "mock-user-123",
+  email: "dev@example.com",
+  first_name: "Developer",
+  last_name: "User",
+};
+
+const authenticate: RequestHandler = (req, res, next) => {
+  if (process.env.NODE_ENV === "development" && !req.isAuthenticated()) {
+    const session = (req as any).session;
+    if (!session || session.loggedOut === true) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    (req as any).user = { claims: DEVELOPMENT_CLAIMS };
+    return next();
+  }
+  return isAuthenticated(req, res, next);
+};
+
+let ownerConfirmed = false;
+
+// The first user to sign in becomes the owner, as does anyone listed in
+// OWNER_EMAILS. Everyone else starts as pending, with no access to the
+// dashboard, until an owner gives them a role.
+async function bootstrapRole(user: User): Promise<User> {
+  if (user.role === "owner") {
+    ownerConfirmed = true;
+    return user;
+  }
+
+  const ownerEmails = (process.env.OWNER_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (user.email && ownerEmails.includes(user.email.toLowerCase())) {
+    return await storage.updateUserRole(user.id, "owner");
+  }
+
+  if (!ownerConfirmed) {
+    const allUsers = await storage.getUsers();
+    ownerConfirmed = true;
+    if (!allUsers.some((u) => u.role === "owner")) {
+      return await storage.updateUserRole(user.id, "owner");
+    }
+  }
+  return user;
+}
+
+const loadCurrentUser: RequestHandler = async (req, res, next) => {
+  try {
+    const claims = (req as any).user?.claims;
+    if (!claims?.sub) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    let user = await storage.getUser(claims.sub);
+    if (!user) {
+      user = await storage.upsertUser({
+        id: claims.sub,
+        email: claims.email,
+        firstName: claims.first_name,
+        lastName: claims.last_name,
+        profileImageUrl: claims.profile_image_url,
+      });
+    }
+
+    req.currentUser = await bootstrapRole(user);
+    if (!getApiToken(req)) {
+      recordSessionActivity(req, user.id);
+    }
+    next();
+  } catch (error) {
+    console.error("Error loading current user:", error);
+    res.status(500).json({ message: "Failed to load user" });
+  }
+};
+
+// Runs handlers in order as a single middleware, stopping at the first one
+// that responds instead of calling next()
+function chain(...handlers: RequestHandler[]): RequestHandler {
+  return (req, res, next) => {
+    let index = 0;
+    const run = (err?: unknown) => {
+      if (err) return next(err);
+      const handler = handlers[index++];
+      if (!handler) return next();
+      handler(req, res, run);
+    };
+    run();
+  };
+}
+
+// Authenticates the request and loads the user record into req.currentUser.
+// Does not check the second factor, so the 2FA challenge itself can use it.
+export const requireAuth: RequestHandler = chain(authenticate, loadCurrentUser);
+
+// Signed in and past the second factor, for routes that any role may use.
+// Like requireAuth, this only accepts browser sessions.
+export const requireVerifiedUser: RequestHandler = chain(requireAuth, requireSecondFactor);
+
+// Permission-guarded routes also accept personal API tokens
+const authenticateAny: RequestHandler = (req, res, next) =>
+  bearerToken(req) ? authenticateApiToken(req, res, next) : authenticate(req, res, next);
+const requireVerifiedUserOrToken: RequestHandler = chain(authenticateAny, loadCurrentUser, requireSecondFactor);
+
+// Route guard declaring the permissions a route needs, e.g.
+//   app.delete('/api/admin/projects/:id', requirePermission('projects:delete'), ...)
+export function requirePermission(...required: Permission[]): RequestHandler {
+  const authorize: RequestHandler = (req, res, next) => {
+    const user = req.currentUser!;
+    // A token can never do more than its owner, nor more than it was scoped for
+    const scopes = getApiToken(req)?.scopes;
+    const missing = required.filter(
+      (permission) => !hasPermission(user.role, permission) || (scopes && !scopes.includes(permission)),
+    );
+    if (missing.length > 0) {
+      return res.status(403).json({ message: "Forbidden", missing });
+    }
+    next();
+  };
+  return chain(requireVerifiedUserOrToken, authorize);
+}
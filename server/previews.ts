@@ -0,0 +1,162 @@
+import path from "path";
+import fs from "fs/promises";
+import { execFile } from "child_process";
+import { createRequire } from "module";
+import { promisify } from "util";
+import sharp from "sharp";
+import { createCanvas } from "@napi-rs/canvas";
+import ffmpeg from "@ffmpeg-installer/ffmpeg";
+import ffprobe from "@ffprobe-installer/ffprobe";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { InsertMedia, Media, MediaEmbed } from "@shared/schema";
+import { storage } from "./storage";
+import { createPlaceholder } from "./images";
+import { contentTypeFor, getMediaStore, mediaUrl, type MediaStore } from "./mediaStore";
+
+const run = promisify(execFile);
+const require = createRequire(import.meta.url);
+
+// The bundled binaries can be swapped for system ones with FFMPEG_PATH and FFPROBE_PATH
+const FFMPEG_PATH = process.env.FFMPEG_PATH || ffmpeg.path;
+const FFPROBE_PATH = process.env.FFPROBE_PATH || ffprobe.path;
+const STANDARD_FONTS = path.join(path.dirname(require.resolve("pdfjs-dist/package.json")), "standard_fonts/");
+
+// Previews are at most this wide, and at most twice this tall
+const PREVIEW_WIDTH = 1280;
+const MAX_FRAME_BYTES = 64 * 1024 * 1024;
+// A preview that takes longer than this is given up on, and the file is kept without one
+const PREVIEW_TIMEOUT_MS = 30_000;
+const MAX_PDF_BYTES = 50 * 1024 * 1024;
+// Embedded images with more pixels than this are left out of a PDF preview
+const MAX_PDF_IMAGE_PIXELS = 4096 * 4096;
+// ffmpeg and ffprobe are killed outright when they run over, since a stuck
+// decoder may not stop on SIGTERM
+const processLimits = { timeout: PREVIEW_TIMEOUT_MS, killSignal: "SIGKILL" } as const;
+
+export type PreviewMetadata = Pick<InsertMedia, "width" | "height" | "duration" | "pageCount" | "preview" | "placeholder">;
+
+export function hasPreview(mimeType: string): boolean {
+  return mimeType.startsWith("video/") || mimeType === "application/pdf";
+}
+
+// Waits for some preview work, calling onTimeout to stop it when it runs over
+async function withTimeout<T>(work: Promise<T>, onTimeout: () => unknown): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      onTimeout();
+      reject(new Error(`The preview took longer than ${PREVIEW_TIMEOUT_MS / 1000}s`));
+    }, PREVIEW_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([work, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Stores a preview as <key>-preview.webp beside the file it shows
+async function storePreview(image: Buffer, key: string, store: MediaStore): Promise<PreviewMetadata> {
+  const previewKey = `${path.basename(key, path.extname(key))}-preview.webp`;
+  const { data, info } = await sharp(image)
+    .resize({ width: PREVIEW_WIDTH, height: PREVIEW_WIDTH * 2, fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+  await store.put(previewKey, data, { contentType: contentTypeFor(previewKey) });
+  return {
+    preview: { url: mediaUrl(previewKey), width: info.width, height: info.height },
+    placeholder: await createPlaceholder(data),
+  };
+}
+
+// Reads a video's duration and takes a poster frame from a second in (or a
+// tenth of the way through a shorter clip), since first frames are often black.
+// The frame size is the size the video plays at, after any rotation.
+export async function processVideo(file: string, key: string, store: MediaStore = getMediaStore()): Promise<PreviewMetadata> {
+  const { stdout } = await run(
+    FFPROBE_PATH,
+    ["-v", "error", "-print_format", "json", "-show_format", "-show_streams", file],
+    processLimits,
+  );
+  const probe = JSON.parse(stdout);
+  const duration = parseFloat(probe.format?.duration) || null;
+  if (!probe.streams?.some((stream: { codec_type: string }) => stream.codec_type === "video")) {
+    return { duration };
+  }
+
+  const seekTo = duration ? Math.min(1, duration / 10) : 0;
+  const { stdout: frame } = await run(
+    FFMPEG_PATH,
+    ["-v", "error", "-ss", seekTo.toFixed(3), "-i", file, "-frames:v", "1", "-f", "image2pipe", "-vcodec", "png", "-"],
+    { ...processLimits, encoding: "buffer", maxBuffer: MAX_FRAME_BYTES },
+  );
+  const { width, height } = await sharp(frame).metadata();
+  return { duration, width: width ?? null, height: height ?? null, ...(await storePreview(frame, key, store)) };
+}
+
+// Counts a PDF's pages and renders the first one. Scripts in the document
+// never run: pdf.js only draws it. PDFs over MAX_PDF_BYTES are not opened.
+export async function processPdf(file: string, key: string, store: MediaStore = getMediaStore()): Promise<PreviewMetadata> {
+  if ((await fs.stat(file)).size > MAX_PDF_BYTES) {
+    return {};
+  }
+  const loadingTask = getDocument({
+    data: new Uint8Array(await fs.readFile(file)),
+    isEvalSupported: false,
+    maxImageSize: MAX_PDF_IMAGE_PIXELS,
+    standardFontDataUrl: STANDARD_FONTS,
+    verbosity: 0,
+  });
+  const renderFirstPage = async () => {
+    const document = await loadingTask.promise;
+    const page = await document.getPage(1);
+    const size = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: Math.min(PREVIEW_WIDTH / size.width, (PREVIEW_WIDTH * 2) / size.height) });
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    // @napi-rs/canvas stands in for the DOM canvas pdf.js is typed against
+    await page.render({ canvas: canvas as unknown as HTMLCanvasElement, viewport }).promise;
+    return { pageCount: document.numPages, image: canvas.toBuffer("image/png") };
+  };
+  try {
+    const { pageCount, image } = await withTimeout(renderFirstPage(), () => loadingTask.destroy());
+    return { pageCount, ...(await storePreview(image, key, store)) };
+  } finally {
+    await loadingTask.destroy();
+  }
+}
+
+// Preview details for a video or PDF, read from the file at the given path
+export async function processPreview(
+  file: string,
+  key: string,
+  mimeType: string,
+  store: MediaStore = getMediaStore(),
+): Promise<PreviewMetadata> {
+  if (mimeType.startsWith("video/")) {
+    return await processVideo(file, key, store);
+  }
+  if (mimeType === "application/pdf") {
+    return await processPdf(file, key, store);
+  }
+  return {};
+}
+
+export const toMediaEmbed = (file: Media): MediaEmbed => ({
+  url: file.url,
+  mimeType: file.mimeType,
+  originalName: file.originalName,
+  altText: file.altText,
+  caption: file.caption,
+  width: file.width,
+  height: file.height,
+  preview: file.preview,
+  duration: file.duration,
+  pageCount: file.pageCount,
+});
+
+// The uploaded videos and PDFs behind the given URLs, keyed by URL
+export async function getMediaEmbeds(urls: string[]): Promise<Map<string, MediaEmbed>> {
+  const unique = Array.from(new Set(urls.filter(Boolean)));
+  const files = await storage.getMediaByUrls(unique);
+  return new Map(files.filter((file) => hasPreview(file.mimeType)).map((file) => [file.url, toMediaEmbed(file)]));
+}
@@ -2,15 +2,10 @@ import * as client from "openid-client";
 import { Strategy, type VerifyFunction } from "openid-client/passport";
 
 import passport from "passport";
-import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import type { Express } from "express";
 import memoize from "memoizee";
-import MemoryStore from "memorystore";
 import { storage } from "./storage";
-
-if (!process.env.REPLIT_DOMAINS) {
-  throw new Error("Environment variable REPLIT_DOMAINS not provided");
-}
+import type { AuthProvider } from "./auth";
 
 const getOidcConfig = memoize(
   async () => {
@@ -22,29 +17,11 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
-export function getSession() {
-  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
-  const memoryStore = MemoryStore(session);
-  const sessionStore = new memoryStore({
-    checkPeriod: 86400000, // prune expired entries every 24h
-  });
-  return session({
-    secret: process.env.SESSION_SECRET || 'default-replit-session-secret-' + Math.random().toString(36).substr(2, 9),
-    store: sessionStore,
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: sessionTtl,
-    },
-  });
-}
-
 function updateUserSession(
   user: any,
   tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
 ) {
+  user.provider = "replit";
   user.claims = tokens.claims();
   user.access_token = tokens.access_token;
   user.refresh_token = tokens.refresh_token;
@@ -63,154 +40,64 @@ async function upsertUser(
   });
 }
 
-export async function setupAuth(app: Express) {
-  app.set("trust proxy", 1);
-  app.use(getSession());
-  app.use(passport.initialize());
-  app.use(passport.session());
-
-  const config = await getOidcConfig();
-
-  const verify: VerifyFunction = async (
-    tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
-    verified: passport.AuthenticateCallback
-  ) => {
-    const user = {};
-    updateUserSession(user, tokens);
-    await upsertUser(tokens.claims());
-    verified(null, user);
-  };
+// Replit OpenID Connect. Only available when REPLIT_DOMAINS is set.
+export const replitProvider: AuthProvider = {
+  name: "replit",
+  label: "Replit",
+  loginUrl: "/api/login/replit",
 
-  for (const domain of process.env
-    .REPLIT_DOMAINS!.split(",")) {
-    const strategy = new Strategy(
-      {
-        name: `replitauth:${domain}`,
-        config,
-        scope: "openid email profile offline_access",
-        callbackURL: `https://${domain}/api/callback`,
-      },
-      verify,
-    );
-    passport.use(strategy);
-  }
-
-  passport.serializeUser((user: Express.User, cb) => cb(null, user));
-  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+  isConfigured() {
+    return !!process.env.REPLIT_DOMAINS;
+  },
 
-  app.get("/api/login", (req, res, next) => {
-    // In development, simply clear the logged out flag and redirect
-    if (process.env.NODE_ENV === 'development') {
-      (req.session as any).loggedOut = false;
-      res.redirect('/admin');
-      return;
+  async setup(app: Express) {
+    const config = await getOidcConfig();
+
+    const verify: VerifyFunction = async (
+      tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
+      verified: passport.AuthenticateCallback
+    ) => {
+      const user = {};
+      updateUserSession(user, tokens);
+      await upsertUser(tokens.claims());
+      verified(null, user);
+    };
+
+    for (const domain of process.env
+      .REPLIT_DOMAINS!.split(",")) {
+      const strategy = new Strategy(
+        {
+          name: `replitauth:${domain}`,
+          config,
+          scope: "openid email profile offline_access",
+          callbackURL: `https://${domain}/api/callback`,
+        },
+        verify,
+      );
+      passport.use(strategy);
     }
-    
-    passport.authenticate(`replitauth:${req.hostname}`, {
-      prompt: "login consent",
-      scope: ["openid", "email", "profile", "offline_access"],
-    })(req, res, next);
-  });
 
-  app.get("/api/callback", (req, res, next) => {
-    passport.authenticate(`replitauth:${req.hostname}`, {
-      successReturnToOrRedirect: "/",
-      failureRedirect: "/api/login",
-    })(req, res, next);
-  });
-
-  app.get("/api/logout", (req, res) => {
-    console.log('Logout endpoint hit');
-    
-    // In development, handle logout differently
-    if (process.env.NODE_ENV === 'development') {
-      console.log('Development logout - before:', req.session);
-      (req.session as any).loggedOut = true;
-      console.log('Development logout - after setting flag:', req.session);
-      req.session.save((err) => {
-        if (err) {
-          console.error('Session save error:', err);
-        } else {
-          console.log('Session saved successfully');
-        }
-        res.redirect('/');
-      });
-      return;
-    }
-    
-    // Production logout flow
-    req.logout((err) => {
-      if (err) {
-        console.error("Logout error:", err);
-      }
-      
-      // Clear the session completely for production
-      req.session.destroy((err) => {
-        if (err) {
-          console.error("Session destroy error:", err);
-        }
-        
-        // Clear the session cookie
-        res.clearCookie('connect.sid');
-        
-        // In production, use proper OIDC logout
-        res.redirect(
-          client.buildEndSessionUrl(config, {
-            client_id: process.env.REPL_ID!,
-            post_logout_redirect_uri: `${req.protocol}://${req.hostname}`,
-          }).href
-        );
-      });
+    app.get("/api/login/replit", (req, res, next) => {
+      passport.authenticate(`replitauth:${req.hostname}`, {
+        prompt: "login consent",
+        scope: ["openid", "email", "profile", "offline_access"],
+      })(req, res, next);
     });
-  });
-}
-
-export const isAuthenticated: RequestHandler = async (req, res, next) => {
-  try {
-    // Check if user is authenticated through session
-    if (!req.isAuthenticated() || !req.user) {
-      console.log("Authentication failed: No user session");
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
-    const user = req.user as any;
-    
-    // If user is authenticated via session, allow access
-    if (user && user.claims) {
-      return next();
-    }
-
-    // Check if token is still valid
-    if (!user.expires_at) {
-      console.log("User session exists but no token expiration found - allowing access");
-      return next();
-    }
-
-    const now = Math.floor(Date.now() / 1000);
-    if (now <= user.expires_at) {
-      return next();
-    }
 
-    // Try to refresh token if available
-    const refreshToken = user.refresh_token;
-    if (refreshToken) {
-      try {
-        const config = await getOidcConfig();
-        const tokenResponse = await client.refreshTokenGrant(config, refreshToken);
-        updateUserSession(user, tokenResponse);
-        return next();
-      } catch (error) {
-        console.log("Token refresh failed:", error);
-      }
-    }
+    app.get("/api/callback", (req, res, next) => {
+      passport.authenticate(`replitauth:${req.hostname}`, {
+        successReturnToOrRedirect: "/",
+        failureRedirect: "/api/login",
+      })(req, res, next);
+    });
+  },
 
-    // If we get here, token is expired but user session still exists
-    // Allow access for now since session-based auth should be sufficient
-    console.log("Token expired but user session valid - allowing access");
-    return next();
-    
-  } catch (error) {
-    console.error("Authentication middleware error:", error);
-    return res.status(401).json({ message: "Unauthorized" });
-  }
+  // Ends the Replit session too, not just ours
+  async logoutRedirect(req) {
+    const config = await getOidcConfig();
+    return client.buildEndSessionUrl(config, {
+      client_id: process.env.REPL_ID!,
+      post_logout_redirect_uri: `${req.protocol}://${req.hostname}`,
+    }).href;
+  },
 };
@@ -1,108 +1,185 @@
-import type { Express, RequestHandler } from "express";
-import express from "express";
+import express, { type Express, type RequestHandler } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertProjectSchema, insertContactSchema } from "@shared/schema";
+import { setupAuth } from "./auth";
+import { requireAuth, requirePermission, requireVerifiedUser } from "./permissions";
+import {
+  insertProjectSchema,
+  contactFormSchema,
+  updateContactSchema,
+  bulkContactActionSchema,
+  bulkContactDeleteSchema,
+  contactFiltersSchema,
+  insertContactNoteSchema,
+  contactReplySchema,
+  updateUserRoleSchema,
+  auditEventFiltersSchema,
+  twoFactorCodeSchema,
+  createApiTokenSchema,
+  insertWebhookSchema,
+  updateWebhookSchema,
+  updateSiteSettingsSchema,
+  mediaFiltersSchema,
+  updateMediaSchema,
+  bulkMediaMoveSchema,
+  bulkMediaDeleteSchema,
+  insertMediaFolderSchema,
+  createUploadSchema,
+  completeUploadSchema,
+  projectGallerySchema,
+  type ActiveSession,
+  type ApiToken,
+  type PublicApiToken,
+  type AuthUser,
+  type ContactChanges,
+  type ContactNoteWithAuthor,
+  type ContactReplyWithAuthor,
+  type TeamMember,
+  type UpdateContact,
+  type User,
+  type TwoFactorSetup,
+  type Webhook,
+  type Project,
+  type ProjectRevision,
+  type ProjectMediaItem,
+  type SanitizeReport,
+  type UploadSession,
+} from "@shared/schema";
+import { diffRevisions } from "@shared/diff";
+import { isProjectLive, getScheduleError } from "@shared/publishing";
+import { renderProjectContent } from "./markdown";
+import { sanitizeMarkdownSource } from "./sanitizer";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  isLockedOut,
+  isSecondFactorVerified,
+  markSecondFactorVerified,
+  otpauthUrl,
+  verifySecondFactor,
+  verifyTotp,
+} from "./twoFactor";
+import { destroySession, listSessions, publicSessionId } from "./sessionStore";
+import { generateApiToken } from "./apiTokens";
+import { auditEventsToCsv, recordAudit } from "./audit";
+import { checkContactRateLimit, issueFormToken, screenContact } from "./spam";
+import { notifyNewContact, sendContactReply } from "./contactMail";
+import { getSiteSettings } from "./siteSettings";
+import { contentImageUrls, getProjectGallery, getResponsiveImages, withFeaturedMedia } from "./images";
+import { serveMedia } from "./mediaStore";
+import { deleteMediaFiles, getMediaUsage, withMediaUsage } from "./mediaUsage";
+import { getMediaEmbeds } from "./previews";
+import {
+  STAGING_DIR,
+  assembleUpload,
+  createUploadSession,
+  discardUpload,
+  getUploadStatus,
+  receivedParts,
+  partCount,
+  saveUpload,
+  writePart,
+} from "./uploads";
+import {
+  dispatchProjectPublished,
+  dispatchWebhookEvent,
+  generateWebhookSecret,
+  sendTestEvent,
+} from "./webhooks";
+import { hasPermission } from "@shared/permissions";
+import { SIMPLE_UPLOAD_LIMIT, UPLOAD_CHUNK_SIZE, uploadKind, uploadProblem } from "@shared/uploads";
+import QRCode from "qrcode";
 import multer from "multer";
 import path from "path";
+import fs from "fs/promises";
 import { randomUUID } from "crypto";
 
-// Development middleware to bypass auth issues
-const developmentAuthBypass: RequestHandler = (req, res, next) => {
-  if (process.env.NODE_ENV === 'development') {
-    // Check if user has explicitly logged out
-    const session = (req as any).session;
-    console.log('Development bypass - session:', session ? { loggedOut: session.loggedOut, id: session.id } : 'no session');
-    
-    const isLoggedOut = session && session.loggedOut === true;
-    
-    if (!isLoggedOut) {
-      // Mock user for development only if not logged out
-      (req as any).user = {
-        claims: {
-          sub: 'mock-user-123',
-          email: 'dev@example.com',
-          first_name: 'Developer',
-          last_name: 'User'
-        }
-      };
-      // Mock isAuthenticated function
-      (req as any).isAuthenticated = () => true;
-      console.log('Development bypass - user mocked');
-    } else {
-      console.log('Development bypass - user logged out, not mocking user');
-    }
-    return next();
+const toPublicToken = ({ tokenHash, ...token }: ApiToken): PublicApiToken => token;
+
+// The signing secret stays out of the audit log
+const withoutSecret = ({ secret, ...webhook }: Webhook) => webhook;
+
+const displayName = (user: User) => [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
+
+// Display names by user id, for showing who wrote notes and replies
+async function userNames(): Promise<Map<string, string | null>> {
+  const users = await storage.getUsers();
+  return new Map(users.map((user) => [user.id, displayName(user)]));
+}
+
+// Turns an inbox update into stored fields, checking that any assignee exists
+async function toContactChanges({ archived, ...update }: UpdateContact): Promise<ContactChanges | string> {
+  if (update.assignedTo && !(await storage.getUser(update.assignedTo))) {
+    return "Assignee not found";
   }
-  return next();
-};
-
-// Helper function for admin route authentication
-const adminAuth: RequestHandler = (req, res, next) => {
-  if (process.env.NODE_ENV === 'development') {
-    // Check if user has logged out in development
-    const session = (req as any).session;
-    const isLoggedOut = !session || session.loggedOut === true;
-    
-    if (isLoggedOut || !(req as any).user) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-    return next(); // Skip authentication check if user exists and not logged out
+  const changes: ContactChanges = update;
+  if (archived !== undefined) {
+    changes.archivedAt = archived ? new Date() : null;
   }
-  return isAuthenticated(req, res, next);
-};
+  return changes;
+}
+
+// Media can be filed in an existing folder, or in none (null)
+async function isValidMediaFolder(folderId: number | null | undefined): Promise<boolean> {
+  return folderId == null || !!(await storage.getMediaFolder(folderId));
+}
+
+// Chunked uploads are only visible to the user who started them
+async function getOwnUploadSession(id: string, userId: string): Promise<UploadSession | undefined> {
+  const session = await storage.getUploadSession(id);
+  return session?.createdBy === userId ? session : undefined;
+}
 
+const slugify = (title: string) =>
+  title.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+
+// Small files can be sent in one request; larger ones use the chunked
+// /api/admin/uploads endpoints
 const upload = multer({
   storage: multer.diskStorage({
-    destination: 'uploads/',
+    destination: STAGING_DIR,
     filename: (req, file, cb) => {
       const uniqueName = `${randomUUID()}${path.extname(file.originalname)}`;
       cb(null, uniqueName);
     }
   }),
   fileFilter: (req, file, cb) => {
-    const allowedTypes = /jpeg|jpg|png|gif|webp|svg|mp4|mov|avi|pdf|doc|docx/;
-    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
-    const mimetype = allowedTypes.test(file.mimetype);
-    
-    if (mimetype && extname) {
+    if (uploadKind(file.originalname)) {
       return cb(null, true);
     } else {
       cb(new Error('Only images, videos, and documents are allowed'));
     }
   },
-  limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
+  limits: { fileSize: SIMPLE_UPLOAD_LIMIT }
 });
 
+const uploadSingleFile: RequestHandler = (req, res, next) =>
+  upload.single('file')(req, res, (error: any) => {
+    if (error?.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({
+        message: `Files over ${SIMPLE_UPLOAD_LIMIT / (1024 * 1024)}MB must be sent in parts through /api/admin/uploads`,
+      });
+    }
+    next(error);
+  });
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
   // Serve uploaded files
-  app.use('/uploads', express.static('uploads'));
+  app.use('/uploads', serveMedia());
 
   // Auth routes
-  app.get('/api/auth/user', developmentAuthBypass, async (req: any, res) => {
-    // Check authentication in all environments
-    if (!req.user) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
+  app.get('/api/auth/user', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      let user = await storage.getUser(userId);
-      
-      // Create user if it doesn't exist (for development)
-      if (!user && process.env.NODE_ENV === 'development') {
-        user = await storage.upsertUser({
-          id: userId,
-          email: req.user.claims.email,
-          firstName: req.user.claims.first_name || 'Developer',
-          lastName: req.user.claims.last_name || 'User',
-          profileImageUrl: null,
-        });
-      }
-      
+      const twoFactor = await storage.getTwoFactor(req.currentUser.id);
+      const twoFactorEnabled = !!twoFactor?.enabledAt;
+      const user: AuthUser = {
+        ...req.currentUser,
+        twoFactorEnabled,
+        twoFactorPending: twoFactorEnabled && !isSecondFactorVerified(req, req.currentUser.id),
+      };
       res.json(user);
     } catch (error) {
       console.error("Error fetching user:", error);
@@ -110,11 +187,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Two-factor authentication. These use requireAuth rather than
+  // requirePermission so they stay reachable before the challenge is passed.
+  app.post('/api/auth/2fa/setup', requireAuth, async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+      const existing = await storage.getTwoFactor(user.id);
+      if (existing?.enabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      // Starting over replaces any secret from an unfinished setup
+      const secret = generateTotpSecret();
+      await storage.saveTwoFactor({ userId: user.id, secret });
+      const url = otpauthUrl(secret, user.email || user.id);
+      const setup: TwoFactorSetup = { secret, otpauthUrl: url, qrCode: await QRCode.toDataURL(url) };
+      res.json(setup);
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post('/api/auth/2fa/enable', requireAuth, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const userId = req.currentUser.id;
+      const twoFactor = await storage.getTwoFactor(userId);
+      if (!twoFactor || twoFactor.enabledAt) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(twoFactor.secret, code, null);
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateTwoFactor(userId, { enabledAt: new Date(), recoveryCodeHashes: hashes, lastUsedStep: step });
+      markSecondFactorVerified(req, userId);
+      await recordAudit(req, { action: 'user.two_factor_enable', entityType: 'user', entityId: userId });
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(400).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post('/api/auth/2fa/verify', requireAuth, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const userId = req.currentUser.id;
+      const twoFactor = await storage.getTwoFactor(userId);
+      if (!twoFactor?.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (isLockedOut(userId)) {
+        return res.status(429).json({ message: "Too many attempts. Try again in a few minutes." });
+      }
+      if (!(await verifySecondFactor(twoFactor, code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      markSecondFactorVerified(req, userId);
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error verifying two-factor code:", error);
+      res.status(400).json({ message: "Failed to verify code" });
+    }
+  });
+
+  app.post('/api/auth/2fa/recovery-codes', requireAuth, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const userId = req.currentUser.id;
+      const twoFactor = await storage.getTwoFactor(userId);
+      if (!twoFactor?.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (isLockedOut(userId)) {
+        return res.status(429).json({ message: "Too many attempts. Try again in a few minutes." });
+      }
+      if (!(await verifySecondFactor(twoFactor, code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateTwoFactor(userId, { recoveryCodeHashes: hashes });
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(400).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.post('/api/auth/2fa/disable', requireAuth, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const userId = req.currentUser.id;
+      const twoFactor = await storage.getTwoFactor(userId);
+      if (!twoFactor?.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (isLockedOut(userId)) {
+        return res.status(429).json({ message: "Too many attempts. Try again in a few minutes." });
+      }
+      if (!(await verifySecondFactor(twoFactor, code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await storage.deleteTwoFactor(userId);
+      await recordAudit(req, { action: 'user.two_factor_disable', entityType: 'user', entityId: userId });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(400).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
   // Public project routes
   app.get('/api/projects', async (req, res) => {
     try {
-      const projects = await storage.getProjects('published');
-      res.json(projects);
+      const projects = await storage.getLiveProjects();
+      res.json(await withFeaturedMedia(projects));
     } catch (error) {
       console.error("Error fetching projects:", error);
       res.status(500).json({ message: "Failed to fetch projects" });
@@ -126,11 +321,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { slug } = req.params;
       const project = await storage.getProjectBySlug(slug);
       
-      if (!project || project.status !== 'published') {
+      if (!project || !isProjectLive(project)) {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      res.json(project);
+      const contentUrls = contentImageUrls(project.content);
+      const images = await getResponsiveImages([project.featuredImage ?? "", ...contentUrls]);
+      const embeds = await getMediaEmbeds(contentUrls);
+      const { html, headings } = renderProjectContent(project, images, embeds);
+      res.json({
+        ...project,
+        featuredMedia: (project.featuredImage && images.get(project.featuredImage)) || null,
+        contentHtml: html,
+        headings,
+        gallery: await getProjectGallery(project.id),
+      });
     } catch (error) {
       console.error("Error fetching project:", error);
       res.status(500).json({ message: "Failed to fetch project" });
@@ -138,11 +343,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin project routes
-  app.get('/api/admin/projects', developmentAuthBypass, async (req, res) => {
-    // Skip isAuthenticated middleware in development for testing
-    if (process.env.NODE_ENV !== 'development') {
-      return isAuthenticated(req, res, () => {});
-    }
+  app.get('/api/admin/projects', requirePermission('projects:read'), async (req, res) => {
     try {
       const projects = await storage.getProjects();
       res.json(projects);
@@ -152,7 +353,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/admin/projects/:id', developmentAuthBypass, adminAuth, async (req, res) => {
+  app.get('/api/admin/projects/:id', requirePermission('projects:read'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const project = await storage.getProject(id);
@@ -168,44 +369,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/admin/projects', developmentAuthBypass, adminAuth, async (req: any, res) => {
+  app.post('/api/admin/projects', requirePermission('projects:write'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const validatedData = insertProjectSchema.parse({
         ...req.body,
         authorId: userId,
-        slug: req.body.title.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '')
+        slug: slugify(req.body.title)
       });
       
-      const project = await storage.createProject(validatedData);
-      res.status(201).json(project);
+      const scheduleError = getScheduleError({
+        status: validatedData.status || 'draft',
+        publishAt: validatedData.publishAt || null,
+        unpublishAt: validatedData.unpublishAt || null,
+      });
+      if (scheduleError) {
+        return res.status(400).json({ message: scheduleError });
+      }
+      
+      const { content, report } = sanitizeMarkdownSource(validatedData.content);
+      const project = await storage.createProject({ ...validatedData, content });
+      await recordAudit(req, { action: 'project.create', entityType: 'project', entityId: project.id, after: project });
+      if (project.status === 'published') {
+        void dispatchProjectPublished(project);
+      }
+      res.status(201).json({ ...project, sanitizeReport: report });
     } catch (error) {
       console.error("Error creating project:", error);
       res.status(400).json({ message: "Failed to create project" });
     }
   });
 
-  app.put('/api/admin/projects/:id', developmentAuthBypass, adminAuth, async (req, res) => {
+  app.put('/api/admin/projects/:id', requirePermission('projects:write'), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
       const validatedData = insertProjectSchema.partial().parse(req.body);
       
       if (validatedData.title) {
-        validatedData.slug = validatedData.title.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+        validatedData.slug = slugify(validatedData.title);
       }
       
-      const project = await storage.updateProject(id, validatedData);
-      res.json(project);
+      const existing = await storage.getProject(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const scheduleError = getScheduleError({ ...existing, ...validatedData });
+      if (scheduleError) {
+        return res.status(400).json({ message: scheduleError });
+      }
+      
+      let sanitizeReport: SanitizeReport = { stripped: [] };
+      if (validatedData.content !== undefined) {
+        const sanitized = sanitizeMarkdownSource(validatedData.content);
+        validatedData.content = sanitized.content;
+        sanitizeReport = sanitized.report;
+      }
+      
+      const project = await storage.updateProject(id, validatedData, userId);
+      await recordAudit(req, { action: 'project.update', entityType: 'project', entityId: id, before: existing, after: project });
+      if (project.status === 'published' && existing.status !== 'published') {
+        void dispatchProjectPublished(project);
+      }
+      res.json({ ...project, sanitizeReport });
     } catch (error) {
       console.error("Error updating project:", error);
       res.status(400).json({ message: "Failed to update project" });
     }
   });
 
-  app.delete('/api/admin/projects/:id', developmentAuthBypass, adminAuth, async (req, res) => {
+  app.delete('/api/admin/projects/:id', requirePermission('projects:delete'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const existing = await storage.getProject(id);
       await storage.deleteProject(id);
+      if (existing) {
+        await recordAudit(req, { action: 'project.delete', entityType: 'project', entityId: id, before: existing });
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting project:", error);
@@ -213,35 +453,189 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Project gallery routes
+  app.get('/api/admin/projects/:id/media', requirePermission('projects:read'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await storage.getProject(id))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(await storage.getProjectMedia(id));
+    } catch (error) {
+      console.error("Error fetching project gallery:", error);
+      res.status(500).json({ message: "Failed to fetch gallery" });
+    }
+  });
+
+  app.put('/api/admin/projects/:id/media', requirePermission('projects:write'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { items } = projectGallerySchema.parse(req.body);
+      if (!(await storage.getProject(id))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const files = await Promise.all(items.map((item) => storage.getMediaById(item.mediaId)));
+      if (files.some((file) => !file || !file.mimeType.startsWith("image/"))) {
+        return res.status(400).json({ message: "Galleries can only show images from the media library" });
+      }
+
+      const before = await storage.getProjectMedia(id);
+      const gallery = await storage.setProjectMedia(id, items);
+      const summary = (items: ProjectMediaItem[]) =>
+        items.map(({ mediaId, caption, layout }) => ({ mediaId, caption, layout }));
+      await recordAudit(req, {
+        action: 'project.gallery_update',
+        entityType: 'project',
+        entityId: id,
+        before: { gallery: summary(before) },
+        after: { gallery: summary(gallery) },
+      });
+      res.json(gallery);
+    } catch (error) {
+      console.error("Error updating project gallery:", error);
+      res.status(400).json({ message: "Failed to update gallery" });
+    }
+  });
+
+  // Project revision routes
+  app.get('/api/admin/projects/:id/revisions', requirePermission('projects:read'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revisions = await storage.getProjectRevisions(id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching revisions:", error);
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
+  // Compares two revisions of a project; either side may be "current"
+  app.get('/api/admin/projects/:id/revisions/diff', requirePermission('projects:read'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const project = await storage.getProject(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const resolve = async (ref: unknown): Promise<Project | ProjectRevision | undefined> => {
+        if (ref === undefined || ref === 'current') {
+          return project;
+        }
+        const revision = await storage.getProjectRevision(parseInt(String(ref)));
+        return revision?.projectId === id ? revision : undefined;
+      };
+
+      const from = await resolve(req.query.from);
+      const to = await resolve(req.query.to);
+      if (!from || !to) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      res.json(diffRevisions(from, to));
+    } catch (error) {
+      console.error("Error diffing revisions:", error);
+      res.status(500).json({ message: "Failed to compare revisions" });
+    }
+  });
+
+  app.get('/api/admin/projects/:id/revisions/:revisionId', requirePermission('projects:read'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revision = await storage.getProjectRevision(parseInt(req.params.revisionId));
+
+      if (!revision || revision.projectId !== id) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      res.json(revision);
+    } catch (error) {
+      console.error("Error fetching revision:", error);
+      res.status(500).json({ message: "Failed to fetch revision" });
+    }
+  });
+
+  // Restoring is itself an update, so the current state is snapshotted first
+  // and the restore can be undone from the history.
+  app.post('/api/admin/projects/:id/revisions/:revisionId/restore', requirePermission('projects:write'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const revision = await storage.getProjectRevision(parseInt(req.params.revisionId));
+
+      const existing = await storage.getProject(id);
+      if (!existing || !revision || revision.projectId !== id) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const project = await storage.updateProject(id, {
+        title: revision.title,
+        slug: slugify(revision.title),
+        description: revision.description,
+        content: sanitizeMarkdownSource(revision.content).content,
+        tags: revision.tags,
+      }, userId);
+      await recordAudit(req, {
+        action: 'project.restore',
+        entityType: 'project',
+        entityId: id,
+        before: { ...existing, revisionId: null },
+        after: { ...project, revisionId: revision.id },
+      });
+      res.json(project);
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
   // Media routes
-  app.get('/api/admin/media', developmentAuthBypass, adminAuth, async (req, res) => {
+  app.get('/api/admin/media', requirePermission('media:read'), async (req, res) => {
     try {
-      const mediaFiles = await storage.getMedia();
-      res.json(mediaFiles);
+      const filters = mediaFiltersSchema.parse(req.query);
+      const page = await storage.findMedia(filters);
+      res.json({ ...page, files: await withMediaUsage(page.files) });
     } catch (error) {
       console.error("Error fetching media:", error);
-      res.status(500).json({ message: "Failed to fetch media" });
+      res.status(400).json({ message: "Failed to fetch media" });
+    }
+  });
+
+  app.get('/api/admin/media/tags', requirePermission('media:read'), async (req, res) => {
+    try {
+      res.json(await storage.getMediaTags());
+    } catch (error) {
+      console.error("Error fetching media tags:", error);
+      res.status(500).json({ message: "Failed to fetch media tags" });
     }
   });
 
-  app.post('/api/admin/media', developmentAuthBypass, adminAuth, upload.single('file'), async (req: any, res) => {
+  app.post('/api/admin/media', requirePermission('media:write'), uploadSingleFile, async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const userId = req.user.claims.sub;
-      const mediaData = {
-        filename: req.file.filename,
-        originalName: req.file.originalname,
-        mimeType: req.file.mimetype,
-        size: req.file.size.toString(),
-        url: `/uploads/${req.file.filename}`,
-        altText: req.body.altText || '',
-        uploadedBy: userId,
-      };
+      const problem = uploadProblem(req.file.originalname, req.file.size);
+      if (problem) {
+        await fs.rm(req.file.path, { force: true });
+        return res.status(400).json({ message: problem });
+      }
 
-      const media = await storage.createMedia(mediaData);
+      const folderId = req.body.folderId ? parseInt(req.body.folderId) : null;
+      const media = await saveUpload(
+        { path: req.file.path, originalName: req.file.originalname, size: req.file.size },
+        {
+          folderId: (await isValidMediaFolder(folderId)) ? folderId : null,
+          altText: req.body.altText || '',
+          uploadedBy: req.user.claims.sub,
+        },
+      );
+      if (typeof media === 'string') {
+        return res.status(400).json({ message: media });
+      }
+      await recordAudit(req, { action: 'media.upload', entityType: 'media', entityId: media.id, after: media });
+      void dispatchWebhookEvent('media.uploaded', media);
       res.status(201).json(media);
     } catch (error) {
       console.error("Error uploading media:", error);
@@ -249,10 +643,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/admin/media/:id', developmentAuthBypass, adminAuth, async (req, res) => {
+  app.patch('/api/admin/media/:id', requirePermission('media:write'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const data = updateMediaSchema.parse(req.body);
+      const existing = await storage.getMediaById(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+      if (!(await isValidMediaFolder(data.folderId))) {
+        return res.status(400).json({ message: "Folder not found" });
+      }
+      const file = await storage.updateMedia(id, data);
+      await recordAudit(req, { action: 'media.update', entityType: 'media', entityId: id, before: existing, after: file });
+      const [withUsage] = await withMediaUsage([file]);
+      res.json(withUsage);
+    } catch (error) {
+      console.error("Error updating media:", error);
+      res.status(400).json({ message: "Failed to update media" });
+    }
+  });
+
+  app.post('/api/admin/media/bulk-move', requirePermission('media:write'), async (req, res) => {
+    try {
+      const { ids, folderId } = bulkMediaMoveSchema.parse(req.body);
+      if (!(await isValidMediaFolder(folderId))) {
+        return res.status(400).json({ message: "Folder not found" });
+      }
+
+      let moved = 0;
+      for (const id of ids) {
+        const existing = await storage.getMediaById(id);
+        if (!existing || existing.folderId === folderId) continue;
+        const file = await storage.updateMedia(id, { folderId });
+        await recordAudit(req, { action: 'media.update', entityType: 'media', entityId: id, before: existing, after: file });
+        moved++;
+      }
+      res.json({ moved });
+    } catch (error) {
+      console.error("Error moving media:", error);
+      res.status(400).json({ message: "Failed to move media" });
+    }
+  });
+
+  app.post('/api/admin/media/bulk-delete', requirePermission('media:delete'), async (req, res) => {
+    try {
+      const { ids, force } = bulkMediaDeleteSchema.parse(req.body);
+      const files = [];
+      for (const id of ids) {
+        const file = await storage.getMediaById(id);
+        if (file) files.push(file);
+      }
+      const usage = await getMediaUsage(files);
+      const inUse = files.filter((file) => usage.has(file.url));
+      if (inUse.length > 0 && !force) {
+        return res.status(409).json({
+          message: `${inUse.length} of the selected files ${inUse.length === 1 ? 'is' : 'are'} used in projects`,
+          inUse: inUse.map((file) => file.id),
+        });
+      }
+
+      for (const file of files) {
+        await storage.deleteMedia(file.id);
+        await deleteMediaFiles(file);
+        await recordAudit(req, { action: 'media.delete', entityType: 'media', entityId: file.id, before: file });
+      }
+      res.json({ deleted: files.length });
+    } catch (error) {
+      console.error("Error deleting media:", error);
+      res.status(400).json({ message: "Failed to delete media" });
+    }
+  });
+
+  app.delete('/api/admin/media/:id', requirePermission('media:delete'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const existing = await storage.getMediaById(id);
+      if (existing) {
+        // Files still linked from projects need an explicit ?force=true
+        const usedIn = (await getMediaUsage([existing])).get(existing.url) ?? [];
+        if (usedIn.length > 0 && req.query.force !== 'true') {
+          return res.status(409).json({
+            message: `This file is used in ${usedIn.length} project${usedIn.length === 1 ? '' : 's'}`,
+            usedIn,
+          });
+        }
+      }
       await storage.deleteMedia(id);
+      if (existing) {
+        await deleteMediaFiles(existing);
+        await recordAudit(req, { action: 'media.delete', entityType: 'media', entityId: id, before: existing });
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting media:", error);
@@ -260,25 +741,714 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Chunked upload routes, for files too large to send in one request.
+  // Parts can be sent in any order and retried until the upload is completed.
+  app.post('/api/admin/uploads', requirePermission('media:write'), async (req: any, res) => {
+    try {
+      const data = createUploadSchema.parse(req.body);
+      if (!(await isValidMediaFolder(data.folderId))) {
+        return res.status(400).json({ message: "Folder not found" });
+      }
+      const session = await createUploadSession(data, req.user.claims.sub);
+      if (typeof session === 'string') {
+        return res.status(400).json({ message: session });
+      }
+      res.status(201).json(await getUploadStatus(session));
+    } catch (error) {
+      console.error("Error starting upload:", error);
+      res.status(400).json({ message: "Failed to start upload" });
+    }
+  });
+
+  // Lets a client resume an interrupted upload by sending only the missing parts
+  app.get('/api/admin/uploads/:id', requirePermission('media:write'), async (req: any, res) => {
+    try {
+      const session = await getOwnUploadSession(req.params.id, req.user.claims.sub);
+      if (!session) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      res.json(await getUploadStatus(session));
+    } catch (error) {
+      console.error("Error fetching upload:", error);
+      res.status(500).json({ message: "Failed to fetch upload" });
+    }
+  });
+
+  app.put(
+    '/api/admin/uploads/:id/parts/:index',
+    requirePermission('media:write'),
+    express.raw({ type: () => true, limit: UPLOAD_CHUNK_SIZE }),
+    async (req: any, res) => {
+      try {
+        const session = await getOwnUploadSession(req.params.id, req.user.claims.sub);
+        if (!session) {
+          return res.status(404).json({ message: "Upload not found" });
+        }
+        const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const problem = await writePart(session, Number(req.params.index), body, req.get('X-Content-SHA256'));
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error storing upload part:", error);
+        res.status(500).json({ message: "Failed to store upload part" });
+      }
+    },
+  );
+
+  app.post('/api/admin/uploads/:id/complete', requirePermission('media:write'), async (req: any, res) => {
+    try {
+      const parsed = completeUploadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "A SHA-256 checksum of the file is required" });
+      }
+      const session = await getOwnUploadSession(req.params.id, req.user.claims.sub);
+      if (!session) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      const received = await receivedParts(session);
+      if (received.length < partCount(session)) {
+        return res.status(409).json({
+          message: `${partCount(session) - received.length} parts have not been uploaded`,
+          receivedParts: received,
+        });
+      }
+
+      const assembled = await assembleUpload(session);
+      if (assembled.checksum !== parsed.data.checksum) {
+        // Every part matched its own checksum, so the file itself changed while
+        // it was being sent. The client starts over and discards this session.
+        await fs.rm(assembled.path, { force: true });
+        return res.status(422).json({ message: "The uploaded file does not match its checksum" });
+      }
+
+      const media = await saveUpload(
+        { path: assembled.path, originalName: session.originalName, size: session.size },
+        {
+          folderId: (await isValidMediaFolder(session.folderId)) ? session.folderId : null,
+          altText: session.altText ?? '',
+          uploadedBy: session.createdBy,
+        },
+      );
+      // Sending the same parts again would not change the verdict
+      await discardUpload(session);
+      if (typeof media === 'string') {
+        return res.status(400).json({ message: media });
+      }
+      await recordAudit(req, { action: 'media.upload', entityType: 'media', entityId: media.id, after: media });
+      void dispatchWebhookEvent('media.uploaded', media);
+      res.status(201).json(media);
+    } catch (error) {
+      console.error("Error completing upload:", error);
+      res.status(500).json({ message: "Failed to complete upload" });
+    }
+  });
+
+  app.delete('/api/admin/uploads/:id', requirePermission('media:write'), async (req: any, res) => {
+    try {
+      const session = await getOwnUploadSession(req.params.id, req.user.claims.sub);
+      if (session) {
+        await discardUpload(session);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error cancelling upload:", error);
+      res.status(500).json({ message: "Failed to cancel upload" });
+    }
+  });
+
+  // Media folder routes
+  app.get('/api/admin/media-folders', requirePermission('media:read'), async (req, res) => {
+    try {
+      res.json(await storage.getMediaFolders());
+    } catch (error) {
+      console.error("Error fetching media folders:", error);
+      res.status(500).json({ message: "Failed to fetch folders" });
+    }
+  });
+
+  app.post('/api/admin/media-folders', requirePermission('media:write'), async (req: any, res) => {
+    try {
+      const { name } = insertMediaFolderSchema.parse(req.body);
+      const folders = await storage.getMediaFolders();
+      if (folders.some((folder) => folder.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(409).json({ message: "A folder with that name already exists" });
+      }
+      const folder = await storage.createMediaFolder({ name, createdBy: req.user.claims.sub });
+      await recordAudit(req, { action: 'media_folder.create', entityType: 'media_folder', entityId: folder.id, after: folder });
+      res.status(201).json(folder);
+    } catch (error) {
+      console.error("Error creating media folder:", error);
+      res.status(400).json({ message: "Failed to create folder" });
+    }
+  });
+
+  app.patch('/api/admin/media-folders/:id', requirePermission('media:write'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { name } = insertMediaFolderSchema.parse(req.body);
+      const existing = await storage.getMediaFolder(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      const folders = await storage.getMediaFolders();
+      if (folders.some((folder) => folder.id !== id && folder.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(409).json({ message: "A folder with that name already exists" });
+      }
+      const folder = await storage.updateMediaFolder(id, { name });
+      await recordAudit(req, { action: 'media_folder.update', entityType: 'media_folder', entityId: id, before: existing, after: folder });
+      res.json(folder);
+    } catch (error) {
+      console.error("Error updating media folder:", error);
+      res.status(400).json({ message: "Failed to update folder" });
+    }
+  });
+
+  app.delete('/api/admin/media-folders/:id', requirePermission('media:write'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getMediaFolder(id);
+      await storage.deleteMediaFolder(id);
+      if (existing) {
+        await recordAudit(req, { action: 'media_folder.delete', entityType: 'media_folder', entityId: id, before: existing });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting media folder:", error);
+      res.status(500).json({ message: "Failed to delete folder" });
+    }
+  });
+
+  // Site settings routes
+  app.get('/api/settings', async (req, res) => {
+    try {
+      res.json(await getSiteSettings());
+    } catch (error) {
+      console.error("Error fetching site settings:", error);
+      res.status(500).json({ message: "Failed to fetch site settings" });
+    }
+  });
+
+  // Saves the sections in the body; sections left out keep their values
+  app.put('/api/admin/settings', requirePermission('settings:write'), async (req: any, res) => {
+    try {
+      const update = updateSiteSettingsSchema.parse(req.body);
+      const before = await getSiteSettings();
+      await storage.saveSiteSettings(update, req.currentUser.id);
+      const after = await getSiteSettings();
+      await recordAudit(req, { action: 'settings.update', entityType: 'settings', entityId: 'site', before, after });
+      res.json(after);
+    } catch (error) {
+      console.error("Error saving site settings:", error);
+      res.status(400).json({ message: "Failed to save site settings" });
+    }
+  });
+
   // Contact routes
+  app.get('/api/contact/token', (req, res) => {
+    res.set('Cache-Control', 'no-store');
+    res.json({ token: issueFormToken() });
+  });
+
   app.post('/api/contact', async (req, res) => {
     try {
-      const validatedData = insertContactSchema.parse(req.body);
-      const contact = await storage.createContact(validatedData);
-      res.status(201).json(contact);
+      const form = contactFormSchema.parse(req.body);
+      if (!checkContactRateLimit(req.ip, form.email)) {
+        return res.status(429).json({ message: "Too many messages. Please try again later." });
+      }
+
+      // Spam gets the same response as a real message so bots learn nothing
+      const verdict = await screenContact(form);
+      const contact = await storage.createContact({
+        name: form.name,
+        email: form.email,
+        subject: form.subject,
+        message: form.message,
+        status: verdict.isSpam ? 'spam' : 'new',
+        spamScore: verdict.score,
+        spamReasons: verdict.reasons,
+      });
+      if (!verdict.isSpam) {
+        notifyNewContact(req, contact).catch((error) => console.error("Error sending contact notification:", error));
+        const { spamScore, spamReasons, ...data } = contact;
+        void dispatchWebhookEvent('contact.created', data);
+      }
+      res.status(201).json({ ok: true });
     } catch (error) {
       console.error("Error creating contact:", error);
       res.status(400).json({ message: "Failed to submit contact form" });
     }
   });
 
-  app.get('/api/admin/contacts', developmentAuthBypass, adminAuth, async (req, res) => {
+  app.get('/api/admin/contacts', requirePermission('contacts:read'), async (req, res) => {
     try {
-      const contacts = await storage.getContacts();
+      const filters = contactFiltersSchema.parse(req.query);
+      const contacts = await storage.getContacts(filters);
       res.json(contacts);
     } catch (error) {
       console.error("Error fetching contacts:", error);
-      res.status(500).json({ message: "Failed to fetch contacts" });
+      res.status(400).json({ message: "Failed to fetch contacts" });
+    }
+  });
+
+  app.patch('/api/admin/contacts/:id', requirePermission('contacts:write'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const update = updateContactSchema.parse(req.body);
+      const existing = await storage.getContact(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      const changes = await toContactChanges(update);
+      if (typeof changes === 'string') {
+        return res.status(400).json({ message: changes });
+      }
+
+      const contact = await storage.updateContact(id, changes);
+      await recordAudit(req, { action: 'contact.update', entityType: 'contact', entityId: id, before: existing, after: contact });
+      res.json(contact);
+    } catch (error) {
+      console.error("Error updating contact:", error);
+      res.status(400).json({ message: "Failed to update contact" });
+    }
+  });
+
+  app.delete('/api/admin/contacts/:id', requirePermission('contacts:delete'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getContact(id);
+      await storage.deleteContact(id);
+      if (existing) {
+        await recordAudit(req, { action: 'contact.delete', entityType: 'contact', entityId: id, before: existing });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting contact:", error);
+      res.status(500).json({ message: "Failed to delete contact" });
+    }
+  });
+
+  // Applies the same update to several submissions; unknown ids are skipped
+  app.post('/api/admin/contacts/bulk', requirePermission('contacts:write'), async (req, res) => {
+    try {
+      const { ids, update } = bulkContactActionSchema.parse(req.body);
+      const changes = await toContactChanges(update);
+      if (typeof changes === 'string') {
+        return res.status(400).json({ message: changes });
+      }
+
+      let updated = 0;
+      for (const id of ids) {
+        const existing = await storage.getContact(id);
+        if (!existing) continue;
+        const contact = await storage.updateContact(id, changes);
+        await recordAudit(req, { action: 'contact.update', entityType: 'contact', entityId: id, before: existing, after: contact });
+        updated++;
+      }
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error updating contacts:", error);
+      res.status(400).json({ message: "Failed to update contacts" });
+    }
+  });
+
+  app.post('/api/admin/contacts/bulk-delete', requirePermission('contacts:delete'), async (req, res) => {
+    try {
+      const { ids } = bulkContactDeleteSchema.parse(req.body);
+
+      let deleted = 0;
+      for (const id of ids) {
+        const existing = await storage.getContact(id);
+        if (!existing) continue;
+        await storage.deleteContact(id);
+        await recordAudit(req, { action: 'contact.delete', entityType: 'contact', entityId: id, before: existing });
+        deleted++;
+      }
+      res.json({ deleted });
+    } catch (error) {
+      console.error("Error deleting contacts:", error);
+      res.status(400).json({ message: "Failed to delete contacts" });
+    }
+  });
+
+  app.get('/api/admin/contacts/:id/notes', requirePermission('contacts:read'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const [notes, names] = await Promise.all([storage.getContactNotes(id), userNames()]);
+      const result: ContactNoteWithAuthor[] = notes.map((note) => ({
+        ...note,
+        authorName: (note.authorId && names.get(note.authorId)) || null,
+      }));
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching contact notes:", error);
+      res.status(500).json({ message: "Failed to fetch notes" });
+    }
+  });
+
+  app.post('/api/admin/contacts/:id/notes', requirePermission('contacts:write'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { body } = insertContactNoteSchema.parse(req.body);
+      if (!(await storage.getContact(id))) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const user = req.currentUser;
+      const note = await storage.createContactNote({ contactId: id, authorId: user.id, body });
+      await recordAudit(req, { action: 'contact.note_add', entityType: 'contact', entityId: id, after: { noteId: note.id } });
+      const result: ContactNoteWithAuthor = {
+        ...note,
+        authorName: displayName(user),
+      };
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Error creating contact note:", error);
+      res.status(400).json({ message: "Failed to add note" });
+    }
+  });
+
+  app.get('/api/admin/contacts/:id/replies', requirePermission('contacts:read'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const [replies, names] = await Promise.all([storage.getContactReplies(id), userNames()]);
+      const result: ContactReplyWithAuthor[] = replies.map((reply) => ({
+        ...reply,
+        authorName: (reply.authorId && names.get(reply.authorId)) || null,
+      }));
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching contact replies:", error);
+      res.status(500).json({ message: "Failed to fetch replies" });
+    }
+  });
+
+  // Emails a reply to the sender and marks the submission replied
+  app.post('/api/admin/contacts/:id/replies', requirePermission('contacts:write'), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { body } = contactReplySchema.parse(req.body);
+      const contact = await storage.getContact(id);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      let reply;
+      try {
+        reply = await sendContactReply(contact, req.currentUser, body);
+      } catch (error) {
+        console.error("Error sending contact reply:", error);
+        return res.status(502).json({ message: "Failed to send the email. Check the mail settings." });
+      }
+      const updated = await storage.updateContact(id, { status: 'replied' });
+      await recordAudit(req, { action: 'contact.reply', entityType: 'contact', entityId: id, before: contact, after: updated });
+      const result: ContactReplyWithAuthor = { ...reply, authorName: displayName(req.currentUser) };
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Error replying to contact:", error);
+      res.status(400).json({ message: "Failed to send reply" });
+    }
+  });
+
+  // User management routes
+  app.get('/api/admin/users', requirePermission('users:read'), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      const members: TeamMember[] = await Promise.all(
+        users.map(async (user) => ({
+          ...user,
+          twoFactorEnabled: !!(await storage.getTwoFactor(user.id))?.enabledAt,
+        })),
+      );
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.patch('/api/admin/users/:id/role', requirePermission('users:manage'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { role } = updateUserRoleSchema.parse(req.body);
+      const user = await storage.getUser(id);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (user.role === 'owner' && role !== 'owner') {
+        const owners = (await storage.getUsers()).filter(u => u.role === 'owner');
+        if (owners.length <= 1) {
+          return res.status(400).json({ message: "Cannot remove the last owner" });
+        }
+      }
+
+      const updated = await storage.updateUserRole(id, role);
+      await recordAudit(req, {
+        action: 'user.role_change',
+        entityType: 'user',
+        entityId: id,
+        before: { email: user.email, role: user.role },
+        after: { email: user.email, role: updated.role },
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      res.status(400).json({ message: "Failed to update user role" });
+    }
+  });
+
+  // Lets an owner recover a teammate who lost their authenticator and recovery codes
+  app.delete('/api/admin/users/:id/two-factor', requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      if (id === req.currentUser.id) {
+        return res.status(400).json({ message: "Turn off your own two-factor authentication from your security settings" });
+      }
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.deleteTwoFactor(id);
+      await recordAudit(req, { action: 'user.two_factor_reset', entityType: 'user', entityId: id, before: { email: user.email } });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // Audit log
+  app.get('/api/admin/audit', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const filters = auditEventFiltersSchema.parse(req.query);
+      res.json(await storage.getAuditEvents(filters));
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      res.status(400).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
+  app.get('/api/admin/audit/export.csv', requirePermission('audit:read'), async (req, res) => {
+    try {
+      const filters = auditEventFiltersSchema.parse(req.query);
+      // Pages through everything that matches rather than just the visible page
+      const events = [];
+      for (let offset = 0; ; offset += 500) {
+        const page = await storage.getAuditEvents({ ...filters, limit: 500, offset });
+        events.push(...page.events);
+        if (page.events.length < 500 || events.length >= 50000) break;
+      }
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(auditEventsToCsv(events));
+    } catch (error) {
+      console.error("Error exporting audit events:", error);
+      res.status(400).json({ message: "Failed to export audit events" });
+    }
+  });
+
+  // Active sessions. Everyone sees their own; user managers see the whole team's.
+  app.get('/api/admin/sessions', requireVerifiedUser, async (req: any, res) => {
+    try {
+      const canManage = hasPermission(req.currentUser.role, 'users:manage');
+      const usersById = new Map((await storage.getUsers()).map(user => [user.id, user]));
+      const sessions: ActiveSession[] = (await listSessions())
+        .filter(({ data }) => data.meta && (canManage || data.meta.userId === req.currentUser.id))
+        .map(({ sid, data }) => {
+          const meta = data.meta!;
+          const user = usersById.get(meta.userId);
+          return {
+            id: publicSessionId(sid),
+            userId: meta.userId,
+            userEmail: user?.email ?? null,
+            userName: [user?.firstName, user?.lastName].filter(Boolean).join(" ") || null,
+            ip: meta.ip ?? null,
+            userAgent: meta.userAgent ?? null,
+            createdAt: meta.createdAt,
+            lastSeenAt: meta.lastSeenAt,
+            expiresAt: data.cookie?.expires ? new Date(data.cookie.expires).toISOString() : null,
+            current: sid === req.sessionID,
+          };
+        })
+        .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete('/api/admin/sessions/:id', requireVerifiedUser, async (req: any, res) => {
+    try {
+      const match = (await listSessions()).find(({ sid }) => publicSessionId(sid) === req.params.id);
+      if (!match?.data.meta) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const ownSession = match.data.meta.userId === req.currentUser.id;
+      if (!ownSession && !hasPermission(req.currentUser.role, 'users:manage')) {
+        return res.status(403).json({ message: "Forbidden", missing: ['users:manage'] });
+      }
+
+      await destroySession(match.sid);
+      await recordAudit(req, {
+        action: 'session.revoke',
+        entityType: 'session',
+        entityId: req.params.id,
+        before: { userId: match.data.meta.userId, ip: match.data.meta.ip, userAgent: match.data.meta.userAgent },
+      });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  // Personal API tokens. Managed from a browser session only, so a leaked
+  // token cannot be used to mint more tokens.
+  app.get('/api/admin/tokens', requireVerifiedUser, async (req: any, res) => {
+    try {
+      const tokens = await storage.getApiTokens(req.currentUser.id);
+      res.json(tokens.map(toPublicToken));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post('/api/admin/tokens', requireVerifiedUser, async (req: any, res) => {
+    try {
+      const data = createApiTokenSchema.parse(req.body);
+      const notGranted = data.scopes.filter(scope => !hasPermission(req.currentUser.role, scope));
+      if (notGranted.length > 0) {
+        return res.status(400).json({ message: `Your role does not allow: ${notGranted.join(", ")}` });
+      }
+
+      const { token, prefix, tokenHash } = generateApiToken();
+      const created = await storage.createApiToken({
+        userId: req.currentUser.id,
+        name: data.name,
+        prefix,
+        tokenHash,
+        scopes: data.scopes,
+        expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+      await recordAudit(req, { action: 'api_token.create', entityType: 'api_token', entityId: created.id, after: toPublicToken(created) });
+      // The plain token is only ever returned here
+      res.status(201).json({ ...toPublicToken(created), token });
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      res.status(400).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete('/api/admin/tokens/:id', requireVerifiedUser, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const token = await storage.getApiToken(id);
+      if (!token || token.userId !== req.currentUser.id) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      await storage.deleteApiToken(id);
+      await recordAudit(req, { action: 'api_token.revoke', entityType: 'api_token', entityId: id, before: toPublicToken(token) });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
+  // Webhooks
+  app.get('/api/admin/webhooks', requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      res.json(await storage.getWebhooks());
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  app.post('/api/admin/webhooks', requirePermission('webhooks:manage'), async (req: any, res) => {
+    try {
+      const data = insertWebhookSchema.parse(req.body);
+      const webhook = await storage.createWebhook({
+        ...data,
+        secret: generateWebhookSecret(),
+        createdBy: req.currentUser.id,
+      });
+      await recordAudit(req, { action: 'webhook.create', entityType: 'webhook', entityId: webhook.id, after: withoutSecret(webhook) });
+      res.status(201).json(webhook);
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      res.status(400).json({ message: "Failed to create webhook" });
+    }
+  });
+
+  app.patch('/api/admin/webhooks/:id', requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const data = updateWebhookSchema.parse(req.body);
+      const existing = await storage.getWebhook(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      const webhook = await storage.updateWebhook(id, data);
+      await recordAudit(req, {
+        action: 'webhook.update',
+        entityType: 'webhook',
+        entityId: id,
+        before: withoutSecret(existing),
+        after: withoutSecret(webhook),
+      });
+      res.json(webhook);
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      res.status(400).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  app.delete('/api/admin/webhooks/:id', requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getWebhook(id);
+      await storage.deleteWebhook(id);
+      if (existing) {
+        await recordAudit(req, { action: 'webhook.delete', entityType: 'webhook', entityId: id, before: withoutSecret(existing) });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  app.get('/api/admin/webhooks/:id/deliveries', requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      res.json(await storage.getWebhookDeliveries(id, 50));
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch deliveries" });
+    }
+  });
+
+  // Sends a "ping" event and answers with the delivery, whatever its outcome
+  app.post('/api/admin/webhooks/:id/test', requirePermission('webhooks:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const webhook = await storage.getWebhook(id);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(await sendTestEvent(webhook));
+    } catch (error) {
+      console.error("Error testing webhook:", error);
+      res.status(500).json({ message: "Failed to send test event" });
     }
   });
 
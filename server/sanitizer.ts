@@ -0,0 +1,339 @@
+import fs from "fs";
+import { Parser } from "htmlparser2";
+import type { SanitizeReport, StrippedItem } from "@shared/schema";
+import { embedProviders } from "./embeds";
+
+export interface SanitizePolicy {
+  allowedTags: string[];
+  // Attributes allowed per tag; "*" applies to every allowed tag
+  allowedAttributes: Record<string, string[]>;
+  allowedSchemes: string[];
+  allowedIframeHosts: string[];
+}
+
+export const defaultSanitizePolicy: SanitizePolicy = {
+  allowedTags: [
+    "h1", "h2", "h3", "h4", "h5", "h6", "p", "br", "hr", "blockquote",
+    "strong", "b", "em", "i", "u", "s", "del", "ins", "mark", "small", "sub", "sup", "abbr",
+    "ul", "ol", "li", "dl", "dt", "dd",
+    "a", "img", "figure", "figcaption", "picture", "video", "audio", "source", "iframe",
+    "pre", "code", "kbd", "samp", "span", "div", "details", "summary",
+    "table", "thead", "tbody", "tfoot", "tr", "th", "td", "caption",
+  ],
+  allowedAttributes: {
+    "*": ["id", "class", "title", "data-provider"],
+    a: ["href", "target", "rel", "name"],
+    img: ["src", "srcset", "sizes", "alt", "width", "height", "loading"],
+    source: ["src", "srcset", "sizes", "type", "media"],
+    video: ["src", "poster", "controls", "width", "height", "muted", "loop", "playsinline", "preload"],
+    audio: ["src", "controls", "preload"],
+    iframe: ["src", "width", "height", "allow", "allowfullscreen", "loading", "title"],
+    ol: ["start"],
+    th: ["align", "colspan", "rowspan", "scope"],
+    td: ["align", "colspan", "rowspan"],
+  },
+  allowedSchemes: ["http", "https", "mailto", "tel"],
+  allowedIframeHosts: embedProviders.map((provider) => provider.host),
+};
+
+// SANITIZE_POLICY_FILE may point at a JSON file whose keys replace the
+// matching defaults, e.g. { "allowedIframeHosts": ["www.youtube-nocookie.com"] }
+export function loadSanitizePolicy(file = process.env.SANITIZE_POLICY_FILE): SanitizePolicy {
+  if (!file) {
+    return defaultSanitizePolicy;
+  }
+  const overrides = JSON.parse(fs.readFileSync(file, "utf-8")) as Partial<SanitizePolicy>;
+  return { ...defaultSanitizePolicy, ...overrides };
+}
+
+export const sanitizePolicy = loadSanitizePolicy();
+
+// Elements whose content is dropped along with the element itself
+const DISCARD_CONTENT_TAGS = new Set(["script", "style", "noscript", "template", "textarea", "title", "object", "embed"]);
+const VOID_TAGS = new Set(["br", "hr", "img", "source", "wbr", "input", "meta", "link"]);
+const URL_ATTRIBUTES = new Set(["href", "src", "poster", "cite"]);
+
+class ReportBuilder {
+  private items = new Map<string, StrippedItem>();
+
+  add(item: Omit<StrippedItem, "count">) {
+    const key = `${item.kind}:${item.tag}:${item.attribute ?? ""}:${item.value ?? ""}`;
+    const existing = this.items.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      this.items.set(key, { ...item, count: 1 });
+    }
+  }
+
+  build(): SanitizeReport {
+    return { stripped: Array.from(this.items.values()) };
+  }
+}
+
+function isAllowedUrl(value: string, policy: SanitizePolicy): boolean {
+  // Strip whitespace and control characters browsers ignore inside schemes
+  const url = value.replace(/[\u0000- ]/g, "");
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || policy.allowedSchemes.includes(scheme[1].toLowerCase());
+}
+
+function iframeHost(src: string): string | null {
+  try {
+    return new URL(src, "https://invalid.local").host;
+  } catch {
+    return null;
+  }
+}
+
+function filterAttributes(
+  tag: string,
+  attribs: Record<string, string>,
+  policy: SanitizePolicy,
+  report: ReportBuilder,
+): Record<string, string> | null {
+  const allowed = new Set([...(policy.allowedAttributes["*"] ?? []), ...(policy.allowedAttributes[tag] ?? [])]);
+  const kept: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(attribs)) {
+    const attribute = name.toLowerCase();
+    if (!allowed.has(attribute) || attribute.startsWith("on")) {
+      report.add({ kind: "attribute", tag, attribute });
+      continue;
+    }
+    if (URL_ATTRIBUTES.has(attribute) && !isAllowedUrl(value, policy)) {
+      report.add({ kind: "attribute", tag, attribute, value: value.slice(0, 50) });
+      continue;
+    }
+    if (attribute === "srcset" && value.split(",").some((candidate) => !isAllowedUrl(candidate.trim(), policy))) {
+      report.add({ kind: "attribute", tag, attribute });
+      continue;
+    }
+    kept[attribute] = value;
+  }
+
+  if (tag === "iframe") {
+    const host = kept.src ? iframeHost(kept.src) : null;
+    if (!host || !policy.allowedIframeHosts.includes(host)) {
+      report.add({ kind: "tag", tag, value: host ?? undefined });
+      return null;
+    }
+  }
+  if (tag === "a" && kept.target === "_blank") {
+    kept.rel = "noopener noreferrer";
+  }
+  return kept;
+}
+
+const escapeText = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+const escapeAttribute = (value: string) => value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+function renderOpenTag(tag: string, attribs: Record<string, string>, escape: (value: string) => string) {
+  const attributes = Object.entries(attribs)
+    .map(([name, value]) => (value === "" ? ` ${name}` : ` ${name}="${escape(value)}"`))
+    .join("");
+  return `<${tag}${attributes}>`;
+}
+
+// Sanitizes an HTML document fragment against the policy. Disallowed elements
+// are unwrapped (their text is kept) except for script-like elements and
+// iframes from unknown hosts, which are removed with their content.
+export function sanitizeHtml(html: string, policy: SanitizePolicy = sanitizePolicy) {
+  const report = new ReportBuilder();
+  const output: string[] = [];
+  // One entry per open element: whether its closing tag should be emitted
+  const stack: boolean[] = [];
+  let discardDepth = 0;
+
+  const parser = new Parser(
+    {
+      onopentag(name, attribs) {
+        if (discardDepth > 0) {
+          discardDepth++;
+          stack.push(false);
+          return;
+        }
+        if (DISCARD_CONTENT_TAGS.has(name)) {
+          report.add({ kind: "tag", tag: name });
+          discardDepth = 1;
+          stack.push(false);
+          return;
+        }
+        if (!policy.allowedTags.includes(name)) {
+          report.add({ kind: "tag", tag: name });
+          stack.push(false);
+          return;
+        }
+        const kept = filterAttributes(name, attribs, policy, report);
+        if (!kept) {
+          discardDepth = 1;
+          stack.push(false);
+          return;
+        }
+        output.push(renderOpenTag(name, kept, escapeAttribute));
+        stack.push(!VOID_TAGS.has(name));
+      },
+      onclosetag(name) {
+        if (discardDepth > 0) {
+          discardDepth--;
+        }
+        if (stack.pop()) {
+          output.push(`</${name}>`);
+        }
+      },
+      ontext(text) {
+        if (discardDepth === 0) {
+          output.push(escapeText(text));
+        }
+      },
+    },
+    { decodeEntities: true, lowerCaseTags: true, lowerCaseAttributeNames: true, recognizeSelfClosing: true },
+  );
+  parser.write(html);
+  parser.end();
+
+  return { html: output.join(""), report: report.build() };
+}
+
+// Drawing elements an uploaded SVG may contain. Scripts, foreignObject (which
+// embeds HTML), external images and animation of attributes are not among them.
+const SVG_TAGS = new Set([
+  "svg", "g", "defs", "symbol", "use", "title", "desc", "metadata", "style",
+  "path", "rect", "circle", "ellipse", "line", "polyline", "polygon",
+  "text", "tspan", "textPath", "linearGradient", "radialGradient", "stop",
+  "clipPath", "mask", "pattern", "marker", "filter",
+  "feBlend", "feColorMatrix", "feComponentTransfer", "feComposite", "feFlood", "feFuncA", "feFuncB",
+  "feFuncG", "feFuncR", "feGaussianBlur", "feMerge", "feMergeNode", "feMorphology", "feOffset", "feDropShadow",
+]);
+
+// References outside the document, in attributes or CSS, could load or run anything
+const isLocalReference = (value: string) => value.trim().startsWith("#");
+const UNSAFE_CSS = /@import|expression\s*\(|javascript:|url\(\s*['"]?(?!#)/i;
+
+// Sanitizes an uploaded SVG so it is safe to serve from this site's origin.
+// Elements outside SVG_TAGS are removed with their content, as are event
+// handlers, links to other documents and CSS that could load external resources.
+export function sanitizeSvg(svg: string) {
+  const report = new ReportBuilder();
+  const output: string[] = [];
+  let depth = 0;
+  let discardDepth = 0;
+
+  const parser = new Parser(
+    {
+      onopentag(name, attribs) {
+        // Only the root <svg> is kept; anything around it, such as the tail of
+        // a DOCTYPE's internal subset, is not part of the drawing
+        if (discardDepth > 0 || !SVG_TAGS.has(name) || (depth === 0 && name !== "svg")) {
+          if (discardDepth === 0) report.add({ kind: "tag", tag: name });
+          discardDepth++;
+          return;
+        }
+        const kept: Record<string, string> = {};
+        for (const [attribute, value] of Object.entries(attribs)) {
+          const unsafe =
+            attribute.toLowerCase().startsWith("on") ||
+            ((attribute === "href" || attribute === "xlink:href") && !isLocalReference(value)) ||
+            UNSAFE_CSS.test(value);
+          if (unsafe) {
+            report.add({ kind: "attribute", tag: name, attribute });
+          } else {
+            kept[attribute] = value;
+          }
+        }
+        output.push(renderOpenTag(name, kept, escapeAttribute));
+        depth++;
+      },
+      onclosetag(name) {
+        if (discardDepth > 0) {
+          discardDepth--;
+          return;
+        }
+        depth--;
+        output.push(`</${name}>`);
+      },
+      ontext(text) {
+        if (discardDepth === 0 && depth > 0) {
+          output.push(escapeText(text));
+        }
+      },
+    },
+    // Comments, processing instructions and DOCTYPEs (with any entities) are dropped
+    { xmlMode: true, decodeEntities: true, recognizeCDATA: true },
+  );
+  parser.write(svg);
+  parser.end();
+
+  let result = output.join("");
+  // A <style> element is kept only when none of its rules reach outside the file
+  result = result.replace(/<style([^>]*)>([\s\S]*?)<\/style>/g, (match, _attributes, css: string) => {
+    if (!UNSAFE_CSS.test(css)) return match;
+    report.add({ kind: "tag", tag: "style" });
+    return "";
+  });
+  return { svg: result, report: report.build() };
+}
+
+const TAG_PATTERN = /<\/?([a-zA-Z][\w-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+// Code spans, fenced code and autolinks are Markdown, not HTML, and stay untouched
+const PROTECTED_PATTERN = /^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$|(`+)[^`\n][\s\S]*?\2|<(?:https?|mailto):[^\s<>]*>|<[^\s<>@]+@[^\s<>]+>/gm;
+
+// Rewrites a single tag from Markdown source, returning "" when it is dropped
+function sanitizeSourceTag(match: string, policy: SanitizePolicy, report: ReportBuilder): string {
+  const parsed = new RegExp(`^${TAG_PATTERN.source}$`).exec(match);
+  if (!parsed) {
+    report.add({ kind: "tag", tag: "malformed" });
+    return "";
+  }
+  const [, rawTag, rawAttributes] = parsed;
+  const tag = rawTag.toLowerCase();
+  const isClosing = match.startsWith("</");
+  if (!policy.allowedTags.includes(tag)) {
+    if (!isClosing) report.add({ kind: "tag", tag });
+    return "";
+  }
+  if (isClosing) {
+    return `</${tag}>`;
+  }
+  const attribs: Record<string, string> = {};
+  for (const [, name, double, single, bare] of Array.from(rawAttributes.matchAll(ATTRIBUTE_PATTERN))) {
+    attribs[name] = double ?? single ?? bare ?? "";
+  }
+  const kept = filterAttributes(tag, attribs, policy, report);
+  return kept ? renderOpenTag(tag, kept, (value) => value.replace(/"/g, "&quot;")) : "";
+}
+
+function sanitizeSourceSegment(text: string, policy: SanitizePolicy, report: ReportBuilder): string {
+  return text
+    .replace(/<!--[\s\S]*?(?:-->|$)/g, "")
+    .replace(/<(script|style|noscript|template|textarea|title|object|embed)\b[\s\S]*?(?:<\/\1\s*>|$)/gi, (_match, tag: string) => {
+      report.add({ kind: "tag", tag: tag.toLowerCase() });
+      return "";
+    })
+    // Iframes are kept or removed whole, so a rejected one leaves no closing tag behind
+    .replace(/(<iframe\b[^>]*>)([\s\S]*?)(?:<\/iframe\s*>|$)/gi, (_match, openTag: string) => {
+      const sanitized = sanitizeSourceTag(openTag, policy, report);
+      return sanitized ? `${sanitized}</iframe>` : "";
+    })
+    // Tags already rewritten above come through this pass unchanged
+    .replace(TAG_PATTERN, (match) => sanitizeSourceTag(match, policy, report));
+}
+
+// Sanitizes raw HTML embedded in Markdown source before it is saved. Only the
+// tags themselves are rewritten; Markdown text, code and autolinks are left
+// byte-for-byte intact. Rendering runs sanitizeHtml over the final HTML too,
+// so this pass exists to keep stored content clean and to report to the editor.
+export function sanitizeMarkdownSource(source: string, policy: SanitizePolicy = sanitizePolicy) {
+  const report = new ReportBuilder();
+  let result = "";
+  let lastIndex = 0;
+
+  for (const match of Array.from(source.matchAll(PROTECTED_PATTERN))) {
+    result += sanitizeSourceSegment(source.slice(lastIndex, match.index), policy, report) + match[0];
+    lastIndex = match.index! + match[0].length;
+  }
+  result += sanitizeSourceSegment(source.slice(lastIndex), policy, report);
+
+  return { content: result, report: report.build() };
+}
@@ -0,0 +1,41 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { dispatchProjectPublished } from "./webhooks";
+import { startIntervalTask } from "./intervalTask";
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+// Moves scheduled projects to published once their publish time has passed,
+// and back to draft once their unpublish time has passed. Returns the number
+// of projects changed.
+export async function runPublishSchedule(now: Date = new Date()): Promise<number> {
+  let changed = 0;
+
+  for (const project of await storage.getProjects("scheduled")) {
+    if (project.unpublishAt && project.unpublishAt <= now) {
+      await storage.updateProject(project.id, { status: "draft", publishAt: null, unpublishAt: null });
+      changed++;
+    } else if (project.publishAt && project.publishAt <= now) {
+      const published = await storage.updateProject(project.id, { status: "published" });
+      void dispatchProjectPublished(published);
+      log(`published scheduled project "${project.slug}"`, "scheduler");
+      changed++;
+    }
+  }
+
+  for (const project of await storage.getProjects("published")) {
+    if (project.unpublishAt && project.unpublishAt <= now) {
+      await storage.updateProject(project.id, { status: "draft", unpublishAt: null });
+      log(`unpublished project "${project.slug}"`, "scheduler");
+      changed++;
+    }
+  }
+
+  return changed;
+}
+
+export function startPublishScheduler(
+  intervalMs = parseInt(process.env.PUBLISH_SCHEDULER_INTERVAL_MS || String(DEFAULT_INTERVAL_MS), 10),
+) {
+  return startIntervalTask("Publish scheduler", runPublishSchedule, intervalMs);
+}
@@ -0,0 +1,39 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+
+function deriveKey(password: string, salt: Buffer, N: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N, r, p }, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+// Hashes are stored as scrypt$N$r$p$salt$key so the cost can be raised later
+// without invalidating existing passwords.
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+  return ["scrypt", SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, "base64");
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"), Number(N), Number(r), Number(p));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Random URL-safe token; only its hash is ever persisted
+export function generateToken(bytes = 32): string {
+  return randomBytes(bytes).toString("base64url");
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,223 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import session, { type SessionData } from "express-session";
+import type { Request } from "express";
+import connectPg from "connect-pg-simple";
+import MemoryStore from "memorystore";
+import type { Pool } from "@neondatabase/serverless";
+import { createDb } from "./db";
+
+// Kept on every signed-in session so admins can see where accounts are used
+export interface SessionMeta {
+  userId: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    meta?: SessionMeta;
+    loggedOut?: boolean;
+    twoFactorUserId?: string;
+  }
+}
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+const DEFAULT_SESSION_FILE = ".data/sessions.json";
+
+type StoredSessions = Record<string, SessionData>;
+
+const PGStore = connectPg(session);
+
+// connect-pg-simple connects through its own pg pool. It cannot list
+// sessions, which the active sessions view needs, so that query goes through
+// a Neon pool.
+class DatabaseSessionStore extends PGStore {
+  private listPool: Pool;
+
+  constructor(connectionString: string) {
+    // createDb refuses a missing connection string before pg would try it
+    const { pool } = createDb(connectionString);
+    super({
+      conString: connectionString,
+      tableName: "sessions",
+      createTableIfMissing: false,
+      ttl: SESSION_TTL_MS / 1000,
+    });
+    this.listPool = pool;
+  }
+
+  all(callback: (err: any, sessions?: StoredSessions | null) => void) {
+    this.listPool
+      .query("select sid, sess from sessions where expire >= now()")
+      .then((result) => callback(null, Object.fromEntries(result.rows.map((row) => [row.sid, row.sess]))))
+      .catch((err) => callback(err));
+  }
+}
+
+// Keeps sessions in a JSON file so restarts don't log everyone out when there
+// is no database. Writes are batched and go through a rename to stay atomic.
+export class FileSessionStore extends session.Store {
+  private sessions = new Map<string, { sess: SessionData; expires: number }>();
+  private writeTimer: NodeJS.Timeout | undefined;
+
+  constructor(private file: string) {
+    super();
+    if (fs.existsSync(file)) {
+      const stored = JSON.parse(fs.readFileSync(file, "utf-8")) as Record<string, { sess: SessionData; expires: number }>;
+      for (const [sid, entry] of Object.entries(stored)) {
+        if (entry.expires > Date.now()) {
+          this.sessions.set(sid, entry);
+        }
+      }
+    }
+  }
+
+  private expiry(sess: SessionData): number {
+    return sess.cookie?.expires ? new Date(sess.cookie.expires).getTime() : Date.now() + SESSION_TTL_MS;
+  }
+
+  private scheduleWrite() {
+    if (this.writeTimer) return;
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = undefined;
+      try {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        const tmp = `${this.file}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(Object.fromEntries(this.sessions)), { mode: 0o600 });
+        fs.renameSync(tmp, this.file);
+      } catch (error) {
+        console.error("Error writing session file:", error);
+      }
+    }, 200);
+  }
+
+  private live(sid: string): SessionData | null {
+    const entry = this.sessions.get(sid);
+    if (!entry) return null;
+    if (entry.expires <= Date.now()) {
+      this.sessions.delete(sid);
+      this.scheduleWrite();
+      return null;
+    }
+    return entry.sess;
+  }
+
+  get(sid: string, callback: (err: any, session?: SessionData | null) => void) {
+    callback(null, this.live(sid));
+  }
+
+  set(sid: string, sess: SessionData, callback?: (err?: any) => void) {
+    this.sessions.set(sid, { sess: JSON.parse(JSON.stringify(sess)), expires: this.expiry(sess) });
+    this.scheduleWrite();
+    callback?.();
+  }
+
+  touch(sid: string, sess: SessionData, callback?: () => void) {
+    const entry = this.sessions.get(sid);
+    if (entry) {
+      entry.expires = this.expiry(sess);
+      this.scheduleWrite();
+    }
+    callback?.();
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void) {
+    this.sessions.delete(sid);
+    this.scheduleWrite();
+    callback?.();
+  }
+
+  all(callback: (err: any, sessions?: StoredSessions | null) => void) {
+    const result: StoredSessions = {};
+    for (const sid of Array.from(this.sessions.keys())) {
+      const sess = this.live(sid);
+      if (sess) result[sid] = sess;
+    }
+    callback(null, result);
+  }
+}
+
+// SESSION_STORE picks where sessions live ("database", "file" or "memory").
+// When unset, the database is used whenever DATABASE_URL is configured and a
+// file (SESSION_FILE, default .data/sessions.json) otherwise.
+function createSessionStore(): session.Store {
+  const driver = process.env.SESSION_STORE || (process.env.DATABASE_URL ? "database" : "file");
+  switch (driver) {
+    case "database":
+      return new DatabaseSessionStore(process.env.DATABASE_URL ?? "");
+    case "file":
+      return new FileSessionStore(process.env.SESSION_FILE || DEFAULT_SESSION_FILE);
+    case "memory": {
+      const memoryStore = MemoryStore(session);
+      return new memoryStore({
+        checkPeriod: 86400000, // prune expired entries every 24h
+      });
+    }
+    default:
+      throw new Error(`Unknown SESSION_STORE "${driver}" (expected "database", "file" or "memory")`);
+  }
+}
+
+export const sessionStore = createSessionStore();
+
+const ACTIVITY_INTERVAL_MS = 60 * 1000;
+
+// Records who is using the session and from where, at most once a minute so
+// busy sessions don't turn every request into a store write
+export function recordSessionActivity(req: Request, userId: string) {
+  const now = new Date();
+  const meta = req.session?.meta;
+  if (meta?.userId === userId && now.getTime() - Date.parse(meta.lastSeenAt) < ACTIVITY_INTERVAL_MS) {
+    return;
+  }
+  req.session.meta = {
+    userId,
+    ip: req.ip,
+    userAgent: req.get("user-agent"),
+    createdAt: meta?.userId === userId ? meta.createdAt : now.toISOString(),
+    lastSeenAt: now.toISOString(),
+  };
+}
+
+// Session ids are bearer secrets, so clients only ever see a hash of them
+export function publicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+export interface StoredSession {
+  sid: string;
+  data: SessionData;
+}
+
+export function listSessions(): Promise<StoredSession[]> {
+  return new Promise((resolve, reject) => {
+    if (!sessionStore.all) {
+      return reject(new Error("The session store cannot list sessions"));
+    }
+    sessionStore.all((err, sessions) => {
+      if (err) return reject(err);
+      const entries = Array.isArray(sessions) ? [] : Object.entries(sessions ?? {});
+      resolve(entries.map(([sid, data]) => ({ sid, data })));
+    });
+  });
+}
+
+export function destroySession(sid: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    sessionStore.destroy(sid, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Signs a user out everywhere, e.g. after their password changes
+export async function destroyUserSessions(userId: string, exceptSid?: string): Promise<void> {
+  const sessions = await listSessions();
+  await Promise.all(
+    sessions
+      .filter(({ sid, data }) => sid !== exceptSid && data.meta?.userId === userId)
+      .map(({ sid }) => destroySession(sid)),
+  );
+}
@@ -0,0 +1,23 @@
+import { siteSettingsKeys, siteSettingsSchema, type SiteSettings, type SiteSettingsKey } from "@shared/schema";
+import { defaultSiteSettings } from "@shared/siteSettings";
+import { storage } from "./storage";
+
+const isSettingsKey = (key: string): key is SiteSettingsKey => siteSettingsKeys.includes(key as SiteSettingsKey);
+
+// Layers the saved sections over the defaults. A section that no longer
+// matches the schema is skipped with a warning instead of breaking the site.
+export async function getSiteSettings(): Promise<SiteSettings> {
+  const settings: SiteSettings = { ...defaultSiteSettings };
+  for (const row of await storage.getSiteSettings()) {
+    if (!isSettingsKey(row.key)) {
+      continue;
+    }
+    const parsed = siteSettingsSchema.shape[row.key].safeParse(row.value);
+    if (parsed.success) {
+      Object.assign(settings, { [row.key]: parsed.data });
+    } else {
+      console.warn(`Ignoring invalid site settings section "${row.key}":`, parsed.error.issues);
+    }
+  }
+  return settings;
+}
@@ -0,0 +1,137 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { ContactForm } from "@shared/schema";
+import { storage } from "./storage";
+import { sessionSecret } from "./auth";
+
+// Forms submitted faster than a person could type are from bots
+const MIN_FILL_MS = 3 * 1000;
+const MAX_TOKEN_AGE_MS = 24 * 60 * 60 * 1000;
+const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const RATE_WINDOW_MS = 60 * 60 * 1000;
+
+// Submissions scoring at or above this are quarantined with status "spam"
+const SPAM_THRESHOLD = parseInt(process.env.CONTACT_SPAM_THRESHOLD || "5", 10);
+
+const DEFAULT_BLOCKED_WORDS = ["viagra", "casino", "crypto investment", "seo services", "backlinks", "loan offer"];
+// CONTACT_BLOCKED_WORDS adds comma-separated words or phrases to the defaults
+const blockedWords = [
+  ...DEFAULT_BLOCKED_WORDS,
+  ...(process.env.CONTACT_BLOCKED_WORDS || "").split(",").map((word) => word.trim().toLowerCase()),
+].filter(Boolean);
+
+const sign = (issuedAt: string) =>
+  createHmac("sha256", sessionSecret()).update(`contact-form:${issuedAt}`).digest("base64url");
+
+// The contact form fetches one of these when it renders and posts it back,
+// which tells us how long the visitor spent filling the form in
+export function issueFormToken(now = Date.now()): string {
+  return `${now}.${sign(String(now))}`;
+}
+
+// Returns why the token is unacceptable, or null when it is fine
+function checkFormToken(token: string | undefined, now: number): string | null {
+  const [issuedAt, signature] = (token || "").split(".");
+  if (!issuedAt || !signature) {
+    return "missing form token";
+  }
+  const expected = Buffer.from(sign(issuedAt));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return "invalid form token";
+  }
+  const age = now - parseInt(issuedAt, 10);
+  if (age < MIN_FILL_MS) {
+    return "submitted too quickly";
+  }
+  if (age > MAX_TOKEN_AGE_MS) {
+    return "expired form token";
+  }
+  return null;
+}
+
+// Sliding-window counter kept in memory, so limits reset when the server restarts
+class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // Counts a hit for the key and says whether it is still within the limit
+  hit(key: string, now = Date.now()): boolean {
+    const recent = (this.hits.get(key) ?? []).filter((time) => time > now - this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return false;
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    if (this.hits.size > 10000) {
+      this.prune(now);
+    }
+    return true;
+  }
+
+  private prune(now: number) {
+    Array.from(this.hits.entries())
+      .filter(([, times]) => times.every((time) => time <= now - this.windowMs))
+      .forEach(([key]) => this.hits.delete(key));
+  }
+}
+
+const ipLimiter = new RateLimiter(parseInt(process.env.CONTACT_RATE_LIMIT_IP || "5", 10), RATE_WINDOW_MS);
+const emailLimiter = new RateLimiter(parseInt(process.env.CONTACT_RATE_LIMIT_EMAIL || "3", 10), RATE_WINDOW_MS);
+
+// Both limits are counted on every attempt, including ones that are rejected
+export function checkContactRateLimit(ip: string | undefined, email: string, now = Date.now()): boolean {
+  const ipAllowed = ipLimiter.hit(ip || "unknown", now);
+  const emailAllowed = emailLimiter.hit(email.trim().toLowerCase(), now);
+  return ipAllowed && emailAllowed;
+}
+
+export interface SpamVerdict {
+  score: number;
+  reasons: string[];
+  isSpam: boolean;
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Scores a submission on how it was filled in and what it says. Nothing is
+// rejected here: spam is stored for review, so a false positive can be rescued.
+export async function screenContact(form: ContactForm, now = Date.now()): Promise<SpamVerdict> {
+  let score = 0;
+  const reasons: string[] = [];
+  const flag = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  if (form.website) {
+    flag(10, "honeypot field filled in");
+  }
+  const tokenProblem = checkFormToken(form.formToken, now);
+  if (tokenProblem) {
+    flag(tokenProblem === "expired form token" ? 2 : 10, tokenProblem);
+  }
+
+  const text = `${form.subject}\n${form.message}`;
+  const links = text.match(/https?:\/\/|www\./gi)?.length ?? 0;
+  if (links > 1) {
+    flag(2 * (links - 1), `${links} links`);
+  }
+
+  const lowered = normalizeText(text);
+  for (const word of blockedWords) {
+    if (lowered.includes(word)) {
+      flag(3, `blocked word "${word}"`);
+    }
+  }
+
+  const message = normalizeText(form.message);
+  const recent = await storage.getRecentContacts(new Date(now - DUPLICATE_WINDOW_MS));
+  const duplicate = recent.find((contact) => normalizeText(contact.message) === message);
+  if (duplicate) {
+    flag(6, `duplicate of #${duplicate.id}`);
+  }
+
+  return { score, reasons, isSpam: score >= SPAM_THRESHOLD };
+}
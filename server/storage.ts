@@ -1,47 +1,248 @@
 import {
+  users,
+  projects,
+  projectRevisions,
+  userCredentials,
+  authTokens,
+  userTwoFactor,
+  apiTokens,
+  auditEvents,
+  media,
+  mediaFolders,
+  projectMedia,
+  uploadSessions,
+  contactSubmissions,
+  contactNotes,
+  contactReplies,
+  webhooks,
+  webhookDeliveries,
+  siteSettings,
   type User,
   type UpsertUser,
+  type AuthToken,
+  type AuthTokenType,
+  type InsertAuthToken,
+  type UserTwoFactor,
+  type InsertUserTwoFactor,
+  type ApiToken,
+  type InsertApiToken,
+  type AuditEvent,
+  type AuditEventFilters,
+  type AuditEventPage,
+  type InsertAuditEvent,
   type Project,
   type InsertProject,
+  type ProjectRevision,
+  type ProjectMedia,
+  type ProjectMediaItem,
+  type GalleryItemInput,
   type Media,
   type InsertMedia,
+  type MediaFilters,
+  type MediaPage,
+  type MediaFolder,
+  type InsertMediaFolder,
+  type MediaFolderWithCount,
+  type UploadSession,
+  type InsertUploadSession,
   type ContactSubmission,
-  type InsertContact,
+  type NewContact,
+  type ContactChanges,
+  type ContactFilters,
+  type ContactNote,
+  type InsertContactNote,
+  type ContactReply,
+  type InsertContactReply,
+  type Webhook,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type SiteSetting,
+  type UpdateSiteSettings,
 } from "@shared/schema";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  getTableColumns,
+  gt,
+  gte,
+  ilike,
+  inArray,
+  isNotNull,
+  isNull,
+  like,
+  lte,
+  ne,
+  notLike,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { isProjectLive } from "@shared/publishing";
+import type { Role } from "@shared/permissions";
+import { createDb, type Database } from "./db";
+
+// The project fields a revision keeps. Updates that leave them all alone, such
+// as the publish scheduler's status flips, don't record a revision.
+const revisedFields = ["title", "description", "content", "tags"] as const;
+const changesRevisedFields = (projectData: Partial<InsertProject>) =>
+  revisedFields.some((field) => projectData[field] !== undefined);
 
 export interface IStorage {
   // User operations - required for Replit Auth
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  updateUserRole(id: string, role: Role): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+
+  // Local auth operations
+  getPasswordHash(userId: string): Promise<string | undefined>;
+  setPasswordHash(userId: string, passwordHash: string): Promise<void>;
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  // Marks an unused, unexpired token as used and returns it
+  consumeAuthToken(tokenHash: string, type: AuthTokenType, now?: Date): Promise<AuthToken | undefined>;
+
+  // Two-factor operations
+  getTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  saveTwoFactor(twoFactor: InsertUserTwoFactor): Promise<UserTwoFactor>;
+  updateTwoFactor(userId: string, twoFactor: Partial<InsertUserTwoFactor>): Promise<UserTwoFactor>;
+  deleteTwoFactor(userId: string): Promise<void>;
+
+  // API token operations
+  getApiTokens(userId: string): Promise<ApiToken[]>;
+  getApiToken(id: number): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  touchApiToken(id: number, usedAt: Date): Promise<void>;
+  deleteApiToken(id: number): Promise<void>;
+
+  // Audit operations
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  // Newest first, paged with filters.limit and filters.offset
+  getAuditEvents(filters: AuditEventFilters): Promise<AuditEventPage>;
   
   // Project operations
   getProjects(status?: string): Promise<Project[]>;
+  getLiveProjects(now?: Date): Promise<Project[]>;
   getProject(id: number): Promise<Project | undefined>;
   getProjectBySlug(slug: string): Promise<Project | undefined>;
   createProject(project: InsertProject): Promise<Project>;
-  updateProject(id: number, project: Partial<InsertProject>): Promise<Project>;
+  // Saves the previous version as a revision when a revised field changes
+  updateProject(id: number, project: Partial<InsertProject>, revisedBy?: string): Promise<Project>;
   deleteProject(id: number): Promise<void>;
+
+  // Project revision operations
+  getProjectRevisions(projectId: number): Promise<ProjectRevision[]>;
+  getProjectRevision(id: number): Promise<ProjectRevision | undefined>;
+
+  // Project gallery operations; items are listed in gallery order
+  getProjectMedia(projectId: number): Promise<ProjectMediaItem[]>;
+  // Projects that may use one of the given files: their featured image,
+  // description or content mention one of the URLs, or their gallery holds
+  // one of the media ids. Callers check the links themselves.
+  getProjectsUsingMedia(urls: string[], mediaIds: number[]): Promise<{ projects: Project[]; galleryItems: ProjectMedia[] }>;
+  // Replaces the project's gallery with items, in the order given
+  setProjectMedia(projectId: number, items: GalleryItemInput[]): Promise<ProjectMediaItem[]>;
   
   // Media operations
   getMedia(): Promise<Media[]>;
   getMediaById(id: number): Promise<Media | undefined>;
+  getMediaByUrls(urls: string[]): Promise<Media[]>;
+  // One page of the library, filtered and sorted by filters
+  findMedia(filters: MediaFilters): Promise<MediaPage>;
+  // Every tag in use, alphabetically
+  getMediaTags(): Promise<string[]>;
   createMedia(media: InsertMedia): Promise<Media>;
+  updateMedia(id: number, media: Partial<InsertMedia>): Promise<Media>;
   deleteMedia(id: number): Promise<void>;
+
+  // Media folder operations; folders are listed by name with their file counts
+  getMediaFolders(): Promise<MediaFolderWithCount[]>;
+  getMediaFolder(id: number): Promise<MediaFolder | undefined>;
+  createMediaFolder(folder: InsertMediaFolder): Promise<MediaFolder>;
+  updateMediaFolder(id: number, folder: Partial<InsertMediaFolder>): Promise<MediaFolder>;
+  // Files in the folder stay in the library, outside any folder
+  deleteMediaFolder(id: number): Promise<void>;
+
+  // Chunked upload session operations
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  deleteUploadSession(id: string): Promise<void>;
+  getExpiredUploadSessions(now: Date): Promise<UploadSession[]>;
   
-  // Contact operations
-  getContacts(): Promise<ContactSubmission[]>;
-  createContact(contact: InsertContact): Promise<ContactSubmission>;
-  updateContactStatus(id: number, status: string): Promise<void>;
+  // Contact operations. Spam is only listed when filtering by status "spam".
+  getContacts(filters?: ContactFilters): Promise<ContactSubmission[]>;
+  getContact(id: number): Promise<ContactSubmission | undefined>;
+  createContact(contact: NewContact): Promise<ContactSubmission>;
+  // Everything received since the given time, spam included, for duplicate checks
+  getRecentContacts(since: Date): Promise<ContactSubmission[]>;
+  updateContact(id: number, changes: ContactChanges): Promise<ContactSubmission>;
+  deleteContact(id: number): Promise<void>;
+
+  // Contact note operations, oldest first
+  getContactNotes(contactId: number): Promise<ContactNote[]>;
+  createContactNote(note: InsertContactNote): Promise<ContactNote>;
+
+  // Contact reply operations, oldest first
+  getContactReplies(contactId: number): Promise<ContactReply[]>;
+  createContactReply(reply: InsertContactReply): Promise<ContactReply>;
+
+  // Webhook operations
+  getWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  updateWebhook(id: number, webhook: Partial<InsertWebhook>): Promise<Webhook>;
+  deleteWebhook(id: number): Promise<void>;
+
+  // Webhook delivery operations
+  getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]>;
+  // Pending deliveries whose next attempt is due
+  getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, delivery: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery>;
+
+  // Site settings operations; only sections that were saved have a row
+  getSiteSettings(): Promise<SiteSetting[]>;
+  saveSiteSettings(settings: UpdateSiteSettings, updatedBy: string | null): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User> = new Map();
+  private passwordHashes: Map<string, string> = new Map();
+  private authTokens: Map<number, AuthToken> = new Map();
+  private twoFactor: Map<string, UserTwoFactor> = new Map();
+  private apiTokens: Map<number, ApiToken> = new Map();
+  private auditEvents: AuditEvent[] = [];
   private projects: Map<number, Project> = new Map();
+  private projectRevisions: Map<number, ProjectRevision> = new Map();
   private media: Map<number, Media> = new Map();
+  private projectMedia: Map<number, ProjectMedia> = new Map();
+  private mediaFolders: Map<number, MediaFolder> = new Map();
+  private uploadSessions: Map<string, UploadSession> = new Map();
   private contacts: Map<number, ContactSubmission> = new Map();
+  private contactNotes: Map<number, ContactNote> = new Map();
+  private contactReplies: Map<number, ContactReply> = new Map();
+  private webhooks: Map<number, Webhook> = new Map();
+  private webhookDeliveries: Map<number, WebhookDelivery> = new Map();
+  private siteSettings: Map<string, SiteSetting> = new Map();
   private nextProjectId = 1;
+  private nextRevisionId = 1;
   private nextMediaId = 1;
+  private nextProjectMediaId = 1;
+  private nextMediaFolderId = 1;
   private nextContactId = 1;
+  private nextContactNoteId = 1;
+  private nextContactReplyId = 1;
+  private nextWebhookId = 1;
+  private nextWebhookDeliveryId = 1;
+  private nextAuthTokenId = 1;
+  private nextApiTokenId = 1;
+  private nextAuditEventId = 1;
 
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -59,6 +260,7 @@ export class MemStorage implements IStorage {
       firstName: userData.firstName || null,
       lastName: userData.lastName || null,
       profileImageUrl: userData.profileImageUrl || null,
+      role: existingUser?.role || "pending",
       createdAt: existingUser?.createdAt || new Date(),
       updatedAt: new Date(),
     };
@@ -66,6 +268,163 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async getUsers(): Promise<User[]> {
+    const allUsers = Array.from(this.users.values());
+    return allUsers.sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  async updateUserRole(id: string, role: Role): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      throw new Error(`User with id ${id} not found`);
+    }
+    const updated: User = { ...existing, role, updatedAt: new Date() };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const normalized = email.toLowerCase();
+    return Array.from(this.users.values()).find(u => u.email?.toLowerCase() === normalized);
+  }
+
+  // Local auth operations
+  async getPasswordHash(userId: string): Promise<string | undefined> {
+    return this.passwordHashes.get(userId);
+  }
+
+  async setPasswordHash(userId: string, passwordHash: string): Promise<void> {
+    this.passwordHashes.set(userId, passwordHash);
+  }
+
+  async createAuthToken(tokenData: InsertAuthToken): Promise<AuthToken> {
+    const token: AuthToken = {
+      ...tokenData,
+      id: this.nextAuthTokenId++,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.authTokens.set(token.id, token);
+    return token;
+  }
+
+  async consumeAuthToken(tokenHash: string, type: AuthTokenType, now: Date = new Date()): Promise<AuthToken | undefined> {
+    const token = Array.from(this.authTokens.values()).find(
+      t => t.tokenHash === tokenHash && t.type === type && !t.usedAt && t.expiresAt > now,
+    );
+    if (!token) {
+      return undefined;
+    }
+    const used: AuthToken = { ...token, usedAt: now };
+    this.authTokens.set(token.id, used);
+    return used;
+  }
+
+  // Two-factor operations
+  async getTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    return this.twoFactor.get(userId);
+  }
+
+  async saveTwoFactor(data: InsertUserTwoFactor): Promise<UserTwoFactor> {
+    const twoFactor: UserTwoFactor = {
+      userId: data.userId,
+      secret: data.secret,
+      recoveryCodeHashes: data.recoveryCodeHashes ?? [],
+      lastUsedStep: data.lastUsedStep ?? null,
+      enabledAt: data.enabledAt ?? null,
+      createdAt: new Date(),
+    };
+    this.twoFactor.set(data.userId, twoFactor);
+    return twoFactor;
+  }
+
+  async updateTwoFactor(userId: string, data: Partial<InsertUserTwoFactor>): Promise<UserTwoFactor> {
+    const existing = this.twoFactor.get(userId);
+    if (!existing) {
+      throw new Error(`Two-factor settings for user ${userId} not found`);
+    }
+    const updated: UserTwoFactor = { ...existing, ...data, userId };
+    this.twoFactor.set(userId, updated);
+    return updated;
+  }
+
+  async deleteTwoFactor(userId: string): Promise<void> {
+    this.twoFactor.delete(userId);
+  }
+
+  // API token operations
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    const tokens = Array.from(this.apiTokens.values()).filter(t => t.userId === userId);
+    return tokens.sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    return this.apiTokens.get(id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(t => t.tokenHash === tokenHash);
+  }
+
+  async createApiToken(tokenData: InsertApiToken): Promise<ApiToken> {
+    const token: ApiToken = {
+      ...tokenData,
+      id: this.nextApiTokenId++,
+      expiresAt: tokenData.expiresAt ?? null,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    };
+    this.apiTokens.set(token.id, token);
+    return token;
+  }
+
+  async touchApiToken(id: number, usedAt: Date): Promise<void> {
+    const existing = this.apiTokens.get(id);
+    if (existing) {
+      this.apiTokens.set(id, { ...existing, lastUsedAt: usedAt });
+    }
+  }
+
+  async deleteApiToken(id: number): Promise<void> {
+    this.apiTokens.delete(id);
+  }
+
+  // Audit operations
+  async createAuditEvent(eventData: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      id: this.nextAuditEventId++,
+      actorId: eventData.actorId ?? null,
+      actorEmail: eventData.actorEmail ?? null,
+      apiTokenId: eventData.apiTokenId ?? null,
+      action: eventData.action,
+      entityType: eventData.entityType,
+      entityId: eventData.entityId ?? null,
+      before: eventData.before ?? null,
+      after: eventData.after ?? null,
+      ip: eventData.ip ?? null,
+      userAgent: eventData.userAgent ?? null,
+      createdAt: new Date(),
+    };
+    this.auditEvents.push(event);
+    return event;
+  }
+
+  async getAuditEvents(filters: AuditEventFilters): Promise<AuditEventPage> {
+    const matching = this.auditEvents
+      .filter(e =>
+        (!filters.actorId || e.actorId === filters.actorId) &&
+        (!filters.action || e.action === filters.action) &&
+        (!filters.entityType || e.entityType === filters.entityType) &&
+        (!filters.entityId || e.entityId === filters.entityId) &&
+        (!filters.from || e.createdAt! >= filters.from) &&
+        (!filters.to || e.createdAt! <= filters.to))
+      .sort((a, b) => b.id - a.id);
+    return {
+      events: matching.slice(filters.offset, filters.offset + filters.limit),
+      total: matching.length,
+    };
+  }
+
   // Project operations
   async getProjects(status?: string): Promise<Project[]> {
     const allProjects = Array.from(this.projects.values());
@@ -73,6 +432,11 @@ export class MemStorage implements IStorage {
     return filtered.sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
   }
 
+  async getLiveProjects(now: Date = new Date()): Promise<Project[]> {
+    const allProjects = await this.getProjects();
+    return allProjects.filter(p => isProjectLive(p, now));
+  }
+
   async getProject(id: number): Promise<Project | undefined> {
     return this.projects.get(id);
   }
@@ -90,9 +454,12 @@ export class MemStorage implements IStorage {
       description: projectData.description,
       content: projectData.content,
       featuredImage: projectData.featuredImage || null,
+      featuredImageFocus: projectData.featuredImageFocus ?? null,
       category: projectData.category,
       tags: projectData.tags || null,
       status: projectData.status || "draft",
+      publishAt: projectData.publishAt || null,
+      unpublishAt: projectData.unpublishAt || null,
       authorId: projectData.authorId || null,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -101,11 +468,24 @@ export class MemStorage implements IStorage {
     return project;
   }
 
-  async updateProject(id: number, projectData: Partial<InsertProject>): Promise<Project> {
+  async updateProject(id: number, projectData: Partial<InsertProject>, revisedBy?: string): Promise<Project> {
     const existing = this.projects.get(id);
     if (!existing) {
       throw new Error(`Project with id ${id} not found`);
     }
+    if (changesRevisedFields(projectData)) {
+      const revisionId = this.nextRevisionId++;
+      this.projectRevisions.set(revisionId, {
+        id: revisionId,
+        projectId: id,
+        title: existing.title,
+        description: existing.description,
+        content: existing.content,
+        tags: existing.tags,
+        createdAt: new Date(),
+        createdBy: revisedBy || null,
+      });
+    }
     const updated: Project = {
       ...existing,
       ...projectData,
@@ -117,6 +497,65 @@ export class MemStorage implements IStorage {
 
   async deleteProject(id: number): Promise<void> {
     this.projects.delete(id);
+    for (const [revisionId, revision] of Array.from(this.projectRevisions)) {
+      if (revision.projectId === id) {
+        this.projectRevisions.delete(revisionId);
+      }
+    }
+    for (const item of Array.from(this.projectMedia.values())) {
+      if (item.projectId === id) {
+        this.projectMedia.delete(item.id);
+      }
+    }
+  }
+
+  // Project revision operations
+  async getProjectRevisions(projectId: number): Promise<ProjectRevision[]> {
+    const revisions = Array.from(this.projectRevisions.values()).filter(r => r.projectId === projectId);
+    return revisions.sort((a, b) => b.id - a.id);
+  }
+
+  async getProjectRevision(id: number): Promise<ProjectRevision | undefined> {
+    return this.projectRevisions.get(id);
+  }
+
+  // Project gallery operations
+  async getProjectMedia(projectId: number): Promise<ProjectMediaItem[]> {
+    return Array.from(this.projectMedia.values())
+      .filter(item => item.projectId === projectId && this.media.has(item.mediaId))
+      .sort((a, b) => a.position - b.position)
+      .map(item => ({ ...item, media: this.media.get(item.mediaId)! }));
+  }
+
+  async getProjectsUsingMedia(urls: string[], mediaIds: number[]): Promise<{ projects: Project[]; galleryItems: ProjectMedia[] }> {
+    const galleryItems = Array.from(this.projectMedia.values()).filter(item => mediaIds.includes(item.mediaId));
+    const galleryProjectIds = new Set(galleryItems.map(item => item.projectId));
+    const projects = Array.from(this.projects.values()).filter(project =>
+      galleryProjectIds.has(project.id) ||
+      [project.featuredImage ?? "", project.description, project.content].some(field => urls.some(url => field.includes(url)))
+    );
+    return { projects, galleryItems };
+  }
+
+  async setProjectMedia(projectId: number, items: GalleryItemInput[]): Promise<ProjectMediaItem[]> {
+    for (const item of Array.from(this.projectMedia.values())) {
+      if (item.projectId === projectId) {
+        this.projectMedia.delete(item.id);
+      }
+    }
+    items.forEach((item, position) => {
+      const id = this.nextProjectMediaId++;
+      this.projectMedia.set(id, {
+        id,
+        projectId,
+        mediaId: item.mediaId,
+        position,
+        caption: item.caption || null,
+        layout: item.layout,
+        createdAt: new Date(),
+      });
+    });
+    return this.getProjectMedia(projectId);
   }
 
   // Media operations
@@ -129,6 +568,42 @@ export class MemStorage implements IStorage {
     return this.media.get(id);
   }
 
+  async getMediaByUrls(urls: string[]): Promise<Media[]> {
+    return Array.from(this.media.values()).filter(m => urls.includes(m.url));
+  }
+
+  async findMedia(filters: MediaFilters): Promise<MediaPage> {
+    const search = filters.search?.toLowerCase();
+    const kindOf = (m: Media) =>
+      m.mimeType.startsWith("image/") ? "image" : m.mimeType.startsWith("video/") ? "video" : "document";
+    const matching = Array.from(this.media.values()).filter(m =>
+      (!search || [m.originalName, m.altText, m.caption].some(field => field?.toLowerCase().includes(search))) &&
+      (!filters.kind || kindOf(m) === filters.kind) &&
+      (filters.folder === undefined || m.folderId === (filters.folder === "none" ? null : filters.folder)) &&
+      (!filters.tag || !!m.tags?.includes(filters.tag)) &&
+      (!filters.from || m.createdAt! >= filters.from) &&
+      (!filters.to || m.createdAt! <= filters.to));
+    const byDate = (a: Media, b: Media) => a.createdAt!.getTime() - b.createdAt!.getTime() || a.id - b.id;
+    const bySize = (a: Media, b: Media) => parseInt(a.size) - parseInt(b.size) || a.id - b.id;
+    const compare = {
+      newest: (a: Media, b: Media) => byDate(b, a),
+      oldest: byDate,
+      name: (a: Media, b: Media) => a.originalName.localeCompare(b.originalName) || a.id - b.id,
+      largest: (a: Media, b: Media) => bySize(b, a),
+      smallest: bySize,
+    }[filters.sort];
+    matching.sort(compare);
+    return {
+      files: matching.slice(filters.offset, filters.offset + filters.limit),
+      total: matching.length,
+    };
+  }
+
+  async getMediaTags(): Promise<string[]> {
+    const tags = Array.from(this.media.values()).flatMap(m => m.tags ?? []);
+    return Array.from(new Set(tags)).sort();
+  }
+
   async createMedia(mediaData: InsertMedia): Promise<Media> {
     const id = this.nextMediaId++;
     const media: Media = {
@@ -139,6 +614,16 @@ export class MemStorage implements IStorage {
       size: mediaData.size,
       url: mediaData.url,
       altText: mediaData.altText || null,
+      caption: mediaData.caption || null,
+      tags: mediaData.tags ?? null,
+      folderId: mediaData.folderId ?? null,
+      width: mediaData.width ?? null,
+      height: mediaData.height ?? null,
+      variants: mediaData.variants ?? null,
+      placeholder: mediaData.placeholder ?? null,
+      preview: mediaData.preview ?? null,
+      duration: mediaData.duration ?? null,
+      pageCount: mediaData.pageCount ?? null,
       uploadedBy: mediaData.uploadedBy || null,
       createdAt: new Date(),
     };
@@ -146,40 +631,926 @@ export class MemStorage implements IStorage {
     return media;
   }
 
+  async updateMedia(id: number, mediaData: Partial<InsertMedia>): Promise<Media> {
+    const existing = this.media.get(id);
+    if (!existing) {
+      throw new Error(`Media with id ${id} not found`);
+    }
+    const updated: Media = { ...existing, ...mediaData, id };
+    this.media.set(id, updated);
+    return updated;
+  }
+
   async deleteMedia(id: number): Promise<void> {
     this.media.delete(id);
+    for (const item of Array.from(this.projectMedia.values())) {
+      if (item.mediaId === id) {
+        this.projectMedia.delete(item.id);
+      }
+    }
+  }
+
+  // Media folder operations
+  async getMediaFolders(): Promise<MediaFolderWithCount[]> {
+    const files = Array.from(this.media.values());
+    return Array.from(this.mediaFolders.values())
+      .map(folder => ({ ...folder, fileCount: files.filter(m => m.folderId === folder.id).length }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getMediaFolder(id: number): Promise<MediaFolder | undefined> {
+    return this.mediaFolders.get(id);
+  }
+
+  async createMediaFolder(folderData: InsertMediaFolder): Promise<MediaFolder> {
+    const id = this.nextMediaFolderId++;
+    const folder: MediaFolder = {
+      id,
+      name: folderData.name,
+      createdBy: folderData.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.mediaFolders.set(id, folder);
+    return folder;
+  }
+
+  async updateMediaFolder(id: number, folderData: Partial<InsertMediaFolder>): Promise<MediaFolder> {
+    const existing = this.mediaFolders.get(id);
+    if (!existing) {
+      throw new Error(`Media folder with id ${id} not found`);
+    }
+    const updated: MediaFolder = { ...existing, ...folderData, id };
+    this.mediaFolders.set(id, updated);
+    return updated;
+  }
+
+  async deleteMediaFolder(id: number): Promise<void> {
+    this.mediaFolders.delete(id);
+    Array.from(this.media.values())
+      .filter(m => m.folderId === id)
+      .forEach(m => this.media.set(m.id, { ...m, folderId: null }));
+  }
+
+  // Chunked upload session operations
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    return this.uploadSessions.get(id);
+  }
+
+  async createUploadSession(sessionData: InsertUploadSession): Promise<UploadSession> {
+    const id = sessionData.id ?? randomUUID();
+    const session: UploadSession = {
+      id,
+      originalName: sessionData.originalName,
+      size: sessionData.size,
+      chunkSize: sessionData.chunkSize,
+      folderId: sessionData.folderId ?? null,
+      altText: sessionData.altText ?? null,
+      createdBy: sessionData.createdBy,
+      createdAt: new Date(),
+      expiresAt: sessionData.expiresAt,
+    };
+    this.uploadSessions.set(id, session);
+    return session;
+  }
+
+  async deleteUploadSession(id: string): Promise<void> {
+    this.uploadSessions.delete(id);
+  }
+
+  async getExpiredUploadSessions(now: Date): Promise<UploadSession[]> {
+    return Array.from(this.uploadSessions.values()).filter(session => session.expiresAt <= now);
   }
 
   // Contact operations
-  async getContacts(): Promise<ContactSubmission[]> {
-    const allContacts = Array.from(this.contacts.values());
+  async getContacts(filters: ContactFilters = {}): Promise<ContactSubmission[]> {
+    const search = filters.search?.toLowerCase();
+    const allContacts = Array.from(this.contacts.values()).filter(c =>
+      (filters.status ? c.status === filters.status : c.status !== "spam") &&
+      (filters.archived === undefined || (c.archivedAt !== null) === filters.archived) &&
+      (filters.starred === undefined || c.starred === filters.starred) &&
+      (!filters.assignedTo || c.assignedTo === filters.assignedTo) &&
+      (!search || [c.name, c.email, c.subject, c.message].some(field => field.toLowerCase().includes(search))));
     return allContacts.sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
   }
 
-  async createContact(contactData: InsertContact): Promise<ContactSubmission> {
+  async getContact(id: number): Promise<ContactSubmission | undefined> {
+    return this.contacts.get(id);
+  }
+
+  async createContact(contactData: NewContact): Promise<ContactSubmission> {
     const id = this.nextContactId++;
     const contact: ContactSubmission = {
       id,
       ...contactData,
-      status: "new",
+      status: contactData.status || "new",
+      spamScore: contactData.spamScore ?? 0,
+      spamReasons: contactData.spamReasons || null,
+      assignedTo: null,
+      starred: false,
+      archivedAt: null,
       createdAt: new Date(),
+      updatedAt: new Date(),
     };
     this.contacts.set(id, contact);
     return contact;
   }
 
-  async updateContactStatus(id: number, status: string): Promise<void> {
+  async getRecentContacts(since: Date): Promise<ContactSubmission[]> {
+    return Array.from(this.contacts.values()).filter(c => c.createdAt! >= since);
+  }
+
+  async updateContact(id: number, changes: ContactChanges): Promise<ContactSubmission> {
     const existing = this.contacts.get(id);
-    if (existing) {
-      this.contacts.set(id, { ...existing, status });
+    if (!existing) {
+      throw new Error(`Contact with id ${id} not found`);
+    }
+    const updated: ContactSubmission = { ...existing, ...changes, updatedAt: new Date() };
+    this.contacts.set(id, updated);
+    return updated;
+  }
+
+  async deleteContact(id: number): Promise<void> {
+    this.contacts.delete(id);
+    Array.from(this.contactNotes.values())
+      .filter(n => n.contactId === id)
+      .forEach(n => this.contactNotes.delete(n.id));
+    Array.from(this.contactReplies.values())
+      .filter(r => r.contactId === id)
+      .forEach(r => this.contactReplies.delete(r.id));
+  }
+
+  // Contact note operations
+  async getContactNotes(contactId: number): Promise<ContactNote[]> {
+    return Array.from(this.contactNotes.values())
+      .filter(n => n.contactId === contactId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createContactNote(noteData: InsertContactNote): Promise<ContactNote> {
+    const note: ContactNote = {
+      id: this.nextContactNoteId++,
+      contactId: noteData.contactId,
+      authorId: noteData.authorId || null,
+      body: noteData.body,
+      createdAt: new Date(),
+    };
+    this.contactNotes.set(note.id, note);
+    return note;
+  }
+
+  // Contact reply operations
+  async getContactReplies(contactId: number): Promise<ContactReply[]> {
+    return Array.from(this.contactReplies.values())
+      .filter(r => r.contactId === contactId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createContactReply(replyData: InsertContactReply): Promise<ContactReply> {
+    const reply: ContactReply = {
+      id: this.nextContactReplyId++,
+      contactId: replyData.contactId,
+      authorId: replyData.authorId || null,
+      subject: replyData.subject,
+      body: replyData.body,
+      messageId: replyData.messageId,
+      createdAt: new Date(),
+    };
+    this.contactReplies.set(reply.id, reply);
+    return reply;
+  }
+
+  // Webhook operations
+  async getWebhooks(): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async createWebhook(webhookData: InsertWebhook): Promise<Webhook> {
+    const webhook: Webhook = {
+      id: this.nextWebhookId++,
+      name: webhookData.name,
+      url: webhookData.url,
+      secret: webhookData.secret,
+      events: webhookData.events,
+      active: webhookData.active ?? true,
+      createdBy: webhookData.createdBy || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.webhooks.set(webhook.id, webhook);
+    return webhook;
+  }
+
+  async updateWebhook(id: number, webhookData: Partial<InsertWebhook>): Promise<Webhook> {
+    const existing = this.webhooks.get(id);
+    if (!existing) {
+      throw new Error(`Webhook with id ${id} not found`);
+    }
+    const updated: Webhook = { ...existing, ...webhookData, id, updatedAt: new Date() };
+    this.webhooks.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhook(id: number): Promise<void> {
+    this.webhooks.delete(id);
+    Array.from(this.webhookDeliveries.values())
+      .filter(d => d.webhookId === id)
+      .forEach(d => this.webhookDeliveries.delete(d.id));
+  }
+
+  // Webhook delivery operations
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(d => d.webhookId === webhookId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values()).filter(
+      d => d.status === "pending" && d.nextAttemptAt !== null && d.nextAttemptAt <= now,
+    );
+  }
+
+  async createWebhookDelivery(deliveryData: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      id: this.nextWebhookDeliveryId++,
+      webhookId: deliveryData.webhookId,
+      event: deliveryData.event,
+      payload: deliveryData.payload,
+      status: deliveryData.status || "pending",
+      attempts: deliveryData.attempts ?? 0,
+      responseStatus: deliveryData.responseStatus ?? null,
+      error: deliveryData.error ?? null,
+      nextAttemptAt: deliveryData.nextAttemptAt ?? null,
+      deliveredAt: deliveryData.deliveredAt ?? null,
+      createdAt: new Date(),
+    };
+    this.webhookDeliveries.set(delivery.id, delivery);
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: number, deliveryData: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery> {
+    const existing = this.webhookDeliveries.get(id);
+    if (!existing) {
+      throw new Error(`Webhook delivery with id ${id} not found`);
+    }
+    const updated: WebhookDelivery = { ...existing, ...deliveryData, id };
+    this.webhookDeliveries.set(id, updated);
+    return updated;
+  }
+
+  // Site settings operations
+  async getSiteSettings(): Promise<SiteSetting[]> {
+    return Array.from(this.siteSettings.values());
+  }
+
+  async saveSiteSettings(settings: UpdateSiteSettings, updatedBy: string | null): Promise<void> {
+    for (const [key, value] of Object.entries(settings)) {
+      this.siteSettings.set(key, { key, value, updatedBy, updatedAt: new Date() });
     }
   }
 }
 
-export const storage = new MemStorage();
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
 
-// Initialize with sample projects
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values(userData)
+      .onConflictDoUpdate({
+        target: users.id,
+        set: {
+          ...userData,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await this.db.select().from(users).orderBy(users.createdAt);
+  }
+
+  async updateUserRole(id: string, role: Role): Promise<User> {
+    const [user] = await this.db
+      .update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    if (!user) {
+      throw new Error(`User with id ${id} not found`);
+    }
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user;
+  }
+
+  // Local auth operations
+  async getPasswordHash(userId: string): Promise<string | undefined> {
+    const [credentials] = await this.db
+      .select()
+      .from(userCredentials)
+      .where(eq(userCredentials.userId, userId));
+    return credentials?.passwordHash;
+  }
+
+  async setPasswordHash(userId: string, passwordHash: string): Promise<void> {
+    await this.db
+      .insert(userCredentials)
+      .values({ userId, passwordHash })
+      .onConflictDoUpdate({
+        target: userCredentials.userId,
+        set: { passwordHash, updatedAt: new Date() },
+      });
+  }
+
+  async createAuthToken(tokenData: InsertAuthToken): Promise<AuthToken> {
+    const [token] = await this.db.insert(authTokens).values(tokenData).returning();
+    return token;
+  }
+
+  async consumeAuthToken(tokenHash: string, type: AuthTokenType, now: Date = new Date()): Promise<AuthToken | undefined> {
+    // A single conditional update, so a token can only ever be used once
+    const [token] = await this.db
+      .update(authTokens)
+      .set({ usedAt: now })
+      .where(
+        and(
+          eq(authTokens.tokenHash, tokenHash),
+          eq(authTokens.type, type),
+          isNull(authTokens.usedAt),
+          gt(authTokens.expiresAt, now),
+        ),
+      )
+      .returning();
+    return token;
+  }
+
+  // Two-factor operations
+  async getTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [twoFactor] = await this.db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return twoFactor;
+  }
+
+  async saveTwoFactor(data: InsertUserTwoFactor): Promise<UserTwoFactor> {
+    const [twoFactor] = await this.db
+      .insert(userTwoFactor)
+      .values(data)
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: {
+          secret: data.secret,
+          recoveryCodeHashes: data.recoveryCodeHashes ?? [],
+          lastUsedStep: data.lastUsedStep ?? null,
+          enabledAt: data.enabledAt ?? null,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+    return twoFactor;
+  }
+
+  async updateTwoFactor(userId: string, data: Partial<InsertUserTwoFactor>): Promise<UserTwoFactor> {
+    const [twoFactor] = await this.db
+      .update(userTwoFactor)
+      .set(data)
+      .where(eq(userTwoFactor.userId, userId))
+      .returning();
+    if (!twoFactor) {
+      throw new Error(`Two-factor settings for user ${userId} not found`);
+    }
+    return twoFactor;
+  }
+
+  async deleteTwoFactor(userId: string): Promise<void> {
+    await this.db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+  }
+
+  // API token operations
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return await this.db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async createApiToken(tokenData: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.db.insert(apiTokens).values(tokenData).returning();
+    return token;
+  }
+
+  async touchApiToken(id: number, usedAt: Date): Promise<void> {
+    await this.db.update(apiTokens).set({ lastUsedAt: usedAt }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: number): Promise<void> {
+    await this.db.delete(apiTokens).where(eq(apiTokens.id, id));
+  }
+
+  // Audit operations
+  async createAuditEvent(eventData: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await this.db.insert(auditEvents).values(eventData).returning();
+    return event;
+  }
+
+  async getAuditEvents(filters: AuditEventFilters): Promise<AuditEventPage> {
+    const conditions: SQL[] = [];
+    if (filters.actorId) conditions.push(eq(auditEvents.actorId, filters.actorId));
+    if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+    if (filters.entityType) conditions.push(eq(auditEvents.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditEvents.entityId, filters.entityId));
+    if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const events = await this.db
+      .select()
+      .from(auditEvents)
+      .where(where)
+      .orderBy(desc(auditEvents.id))
+      .limit(filters.limit)
+      .offset(filters.offset);
+    const [{ total }] = await this.db.select({ total: count() }).from(auditEvents).where(where);
+    return { events, total };
+  }
+
+  // Project operations
+  async getProjects(status?: string): Promise<Project[]> {
+    return await this.db
+      .select()
+      .from(projects)
+      .where(status ? eq(projects.status, status) : undefined)
+      .orderBy(desc(projects.createdAt));
+  }
+
+  // Mirrors isProjectLive from @shared/publishing
+  async getLiveProjects(now: Date = new Date()): Promise<Project[]> {
+    return await this.db
+      .select()
+      .from(projects)
+      .where(
+        and(
+          or(isNull(projects.unpublishAt), gt(projects.unpublishAt, now)),
+          or(
+            eq(projects.status, "published"),
+            and(eq(projects.status, "scheduled"), lte(projects.publishAt, now)),
+          ),
+        ),
+      )
+      .orderBy(desc(projects.createdAt));
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async getProjectBySlug(slug: string): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.slug, slug));
+    return project;
+  }
+
+  async createProject(projectData: InsertProject): Promise<Project> {
+    const [project] = await this.db.insert(projects).values(projectData).returning();
+    return project;
+  }
+
+  async updateProject(id: number, projectData: Partial<InsertProject>, revisedBy?: string): Promise<Project> {
+    return await this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(projects).where(eq(projects.id, id)).for("update");
+      if (!existing) {
+        throw new Error(`Project with id ${id} not found`);
+      }
+      if (changesRevisedFields(projectData)) {
+        await tx.insert(projectRevisions).values({
+          projectId: id,
+          title: existing.title,
+          description: existing.description,
+          content: existing.content,
+          tags: existing.tags,
+          createdBy: revisedBy,
+        });
+      }
+      const [updated] = await tx
+        .update(projects)
+        .set({ ...projectData, updatedAt: new Date() })
+        .where(eq(projects.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteProject(id: number): Promise<void> {
+    await this.db.delete(projects).where(eq(projects.id, id));
+  }
+
+  // Project revision operations
+  async getProjectRevisions(projectId: number): Promise<ProjectRevision[]> {
+    return await this.db
+      .select()
+      .from(projectRevisions)
+      .where(eq(projectRevisions.projectId, projectId))
+      .orderBy(desc(projectRevisions.id));
+  }
+
+  async getProjectRevision(id: number): Promise<ProjectRevision | undefined> {
+    const [revision] = await this.db.select().from(projectRevisions).where(eq(projectRevisions.id, id));
+    return revision;
+  }
+
+  // Project gallery operations
+  async getProjectMedia(projectId: number): Promise<ProjectMediaItem[]> {
+    const rows = await this.db
+      .select()
+      .from(projectMedia)
+      .innerJoin(media, eq(projectMedia.mediaId, media.id))
+      .where(eq(projectMedia.projectId, projectId))
+      .orderBy(asc(projectMedia.position));
+    return rows.map(row => ({ ...row.project_media, media: row.media }));
+  }
+
+  async getProjectsUsingMedia(urls: string[], mediaIds: number[]): Promise<{ projects: Project[]; galleryItems: ProjectMedia[] }> {
+    const galleryItems = mediaIds.length > 0
+      ? await this.db.select().from(projectMedia).where(inArray(projectMedia.mediaId, mediaIds))
+      : [];
+    const conditions: SQL[] = urls.flatMap(url => {
+      const pattern = `%${url.replace(/[\\%_]/g, "\\$&")}%`;
+      return [like(projects.featuredImage, pattern), like(projects.description, pattern), like(projects.content, pattern)];
+    });
+    const galleryProjectIds = Array.from(new Set(galleryItems.map(item => item.projectId)));
+    if (galleryProjectIds.length > 0) {
+      conditions.push(inArray(projects.id, galleryProjectIds));
+    }
+    if (conditions.length === 0) {
+      return { projects: [], galleryItems };
+    }
+    const found = await this.db.select().from(projects).where(or(...conditions));
+    return { projects: found, galleryItems };
+  }
+
+  async setProjectMedia(projectId: number, items: GalleryItemInput[]): Promise<ProjectMediaItem[]> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(projectMedia).where(eq(projectMedia.projectId, projectId));
+      if (items.length > 0) {
+        await tx.insert(projectMedia).values(
+          items.map((item, position) => ({
+            projectId,
+            mediaId: item.mediaId,
+            position,
+            caption: item.caption || null,
+            layout: item.layout,
+          })),
+        );
+      }
+    });
+    return this.getProjectMedia(projectId);
+  }
+
+  // Media operations
+  async getMedia(): Promise<Media[]> {
+    return await this.db.select().from(media).orderBy(desc(media.createdAt));
+  }
+
+  async getMediaById(id: number): Promise<Media | undefined> {
+    const [file] = await this.db.select().from(media).where(eq(media.id, id));
+    return file;
+  }
+
+  async getMediaByUrls(urls: string[]): Promise<Media[]> {
+    if (urls.length === 0) {
+      return [];
+    }
+    return await this.db.select().from(media).where(inArray(media.url, urls));
+  }
+
+  async findMedia(filters: MediaFilters): Promise<MediaPage> {
+    const conditions: SQL[] = [];
+    if (filters.search) {
+      const pattern = `%${filters.search.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(
+        ilike(media.originalName, pattern),
+        ilike(media.altText, pattern),
+        ilike(media.caption, pattern),
+      )!);
+    }
+    if (filters.kind === "image") conditions.push(like(media.mimeType, "image/%"));
+    if (filters.kind === "video") conditions.push(like(media.mimeType, "video/%"));
+    if (filters.kind === "document") {
+      conditions.push(notLike(media.mimeType, "image/%"), notLike(media.mimeType, "video/%"));
+    }
+    if (filters.folder !== undefined) {
+      conditions.push(filters.folder === "none" ? isNull(media.folderId) : eq(media.folderId, filters.folder));
+    }
+    if (filters.tag) conditions.push(sql`${filters.tag} = any(${media.tags})`);
+    if (filters.from) conditions.push(gte(media.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(media.createdAt, filters.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // size is stored as text
+    const size = sql`${media.size}::bigint`;
+    const orderBy = {
+      newest: [desc(media.createdAt), desc(media.id)],
+      oldest: [asc(media.createdAt), asc(media.id)],
+      name: [asc(sql`lower(${media.originalName})`), asc(media.id)],
+      largest: [desc(size), desc(media.id)],
+      smallest: [asc(size), asc(media.id)],
+    }[filters.sort];
+
+    const files = await this.db
+      .select()
+      .from(media)
+      .where(where)
+      .orderBy(...orderBy)
+      .limit(filters.limit)
+      .offset(filters.offset);
+    const [{ total }] = await this.db.select({ total: count() }).from(media).where(where);
+    return { files, total };
+  }
+
+  async getMediaTags(): Promise<string[]> {
+    const rows = await this.db.selectDistinct({ tag: sql<string>`unnest(${media.tags})` }).from(media);
+    return rows.map(row => row.tag).sort();
+  }
+
+  async createMedia(mediaData: InsertMedia): Promise<Media> {
+    const [file] = await this.db.insert(media).values(mediaData).returning();
+    return file;
+  }
+
+  async updateMedia(id: number, mediaData: Partial<InsertMedia>): Promise<Media> {
+    const [file] = await this.db.update(media).set(mediaData).where(eq(media.id, id)).returning();
+    return file;
+  }
+
+  async deleteMedia(id: number): Promise<void> {
+    await this.db.delete(media).where(eq(media.id, id));
+  }
+
+  // Media folder operations
+  async getMediaFolders(): Promise<MediaFolderWithCount[]> {
+    return await this.db
+      .select({ ...getTableColumns(mediaFolders), fileCount: count(media.id) })
+      .from(mediaFolders)
+      .leftJoin(media, eq(media.folderId, mediaFolders.id))
+      .groupBy(mediaFolders.id)
+      .orderBy(asc(mediaFolders.name));
+  }
+
+  async getMediaFolder(id: number): Promise<MediaFolder | undefined> {
+    const [folder] = await this.db.select().from(mediaFolders).where(eq(mediaFolders.id, id));
+    return folder;
+  }
+
+  async createMediaFolder(folderData: InsertMediaFolder): Promise<MediaFolder> {
+    const [folder] = await this.db.insert(mediaFolders).values(folderData).returning();
+    return folder;
+  }
+
+  async updateMediaFolder(id: number, folderData: Partial<InsertMediaFolder>): Promise<MediaFolder> {
+    const [folder] = await this.db.update(mediaFolders).set(folderData).where(eq(mediaFolders.id, id)).returning();
+    return folder;
+  }
+
+  async deleteMediaFolder(id: number): Promise<void> {
+    await this.db.delete(mediaFolders).where(eq(mediaFolders.id, id));
+  }
+
+  // Chunked upload session operations
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const [session] = await this.db.select().from(uploadSessions).where(eq(uploadSessions.id, id));
+    return session;
+  }
+
+  async createUploadSession(sessionData: InsertUploadSession): Promise<UploadSession> {
+    const [session] = await this.db.insert(uploadSessions).values(sessionData).returning();
+    return session;
+  }
+
+  async deleteUploadSession(id: string): Promise<void> {
+    await this.db.delete(uploadSessions).where(eq(uploadSessions.id, id));
+  }
+
+  async getExpiredUploadSessions(now: Date): Promise<UploadSession[]> {
+    return await this.db.select().from(uploadSessions).where(lte(uploadSessions.expiresAt, now));
+  }
+
+  // Contact operations
+  async getContacts(filters: ContactFilters = {}): Promise<ContactSubmission[]> {
+    const conditions: SQL[] = [];
+    conditions.push(filters.status ? eq(contactSubmissions.status, filters.status) : ne(contactSubmissions.status, "spam"));
+    if (filters.archived !== undefined) {
+      conditions.push(filters.archived ? isNotNull(contactSubmissions.archivedAt) : isNull(contactSubmissions.archivedAt));
+    }
+    if (filters.starred !== undefined) conditions.push(eq(contactSubmissions.starred, filters.starred));
+    if (filters.assignedTo) conditions.push(eq(contactSubmissions.assignedTo, filters.assignedTo));
+    if (filters.search) {
+      const pattern = `%${filters.search.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(
+        ilike(contactSubmissions.name, pattern),
+        ilike(contactSubmissions.email, pattern),
+        ilike(contactSubmissions.subject, pattern),
+        ilike(contactSubmissions.message, pattern),
+      )!);
+    }
+
+    return await this.db
+      .select()
+      .from(contactSubmissions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(contactSubmissions.createdAt));
+  }
+
+  async getContact(id: number): Promise<ContactSubmission | undefined> {
+    const [contact] = await this.db.select().from(contactSubmissions).where(eq(contactSubmissions.id, id));
+    return contact;
+  }
+
+  async createContact(contactData: NewContact): Promise<ContactSubmission> {
+    const [contact] = await this.db.insert(contactSubmissions).values(contactData).returning();
+    return contact;
+  }
+
+  async getRecentContacts(since: Date): Promise<ContactSubmission[]> {
+    return await this.db.select().from(contactSubmissions).where(gte(contactSubmissions.createdAt, since));
+  }
+
+  async updateContact(id: number, changes: ContactChanges): Promise<ContactSubmission> {
+    const [contact] = await this.db
+      .update(contactSubmissions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(contactSubmissions.id, id))
+      .returning();
+    return contact;
+  }
+
+  async deleteContact(id: number): Promise<void> {
+    await this.db.delete(contactSubmissions).where(eq(contactSubmissions.id, id));
+  }
+
+  // Contact note operations
+  async getContactNotes(contactId: number): Promise<ContactNote[]> {
+    return await this.db
+      .select()
+      .from(contactNotes)
+      .where(eq(contactNotes.contactId, contactId))
+      .orderBy(contactNotes.id);
+  }
+
+  async createContactNote(noteData: InsertContactNote): Promise<ContactNote> {
+    const [note] = await this.db.insert(contactNotes).values(noteData).returning();
+    return note;
+  }
+
+  // Contact reply operations
+  async getContactReplies(contactId: number): Promise<ContactReply[]> {
+    return await this.db
+      .select()
+      .from(contactReplies)
+      .where(eq(contactReplies.contactId, contactId))
+      .orderBy(contactReplies.id);
+  }
+
+  async createContactReply(replyData: InsertContactReply): Promise<ContactReply> {
+    const [reply] = await this.db.insert(contactReplies).values(replyData).returning();
+    return reply;
+  }
+
+  // Webhook operations
+  async getWebhooks(): Promise<Webhook[]> {
+    return await this.db.select().from(webhooks).orderBy(webhooks.id);
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await this.db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+
+  async createWebhook(webhookData: InsertWebhook): Promise<Webhook> {
+    const [webhook] = await this.db.insert(webhooks).values(webhookData).returning();
+    return webhook;
+  }
+
+  async updateWebhook(id: number, webhookData: Partial<InsertWebhook>): Promise<Webhook> {
+    const [webhook] = await this.db
+      .update(webhooks)
+      .set({ ...webhookData, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook;
+  }
+
+  async deleteWebhook(id: number): Promise<void> {
+    await this.db.delete(webhooks).where(eq(webhooks.id, id));
+  }
+
+  // Webhook delivery operations
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)));
+  }
+
+  async createWebhookDelivery(deliveryData: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await this.db.insert(webhookDeliveries).values(deliveryData).returning();
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: number, deliveryData: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery> {
+    const [delivery] = await this.db
+      .update(webhookDeliveries)
+      .set(deliveryData)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  // Site settings operations
+  async getSiteSettings(): Promise<SiteSetting[]> {
+    return await this.db.select().from(siteSettings);
+  }
+
+  async saveSiteSettings(settings: UpdateSiteSettings, updatedBy: string | null): Promise<void> {
+    const rows = Object.entries(settings).map(([key, value]) => ({ key, value, updatedBy, updatedAt: new Date() }));
+    if (rows.length === 0) {
+      return;
+    }
+    // One statement, so a save never leaves some sections behind
+    await this.db
+      .insert(siteSettings)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: siteSettings.key,
+        set: {
+          value: sql`excluded.value`,
+          updatedBy: sql`excluded.updated_by`,
+          updatedAt: sql`excluded.updated_at`,
+        },
+      });
+  }
+}
+
+// STORAGE_DRIVER selects the backend explicitly ("memory" or "database").
+// When unset, the database is used whenever DATABASE_URL is configured.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "database" : "memory");
+  switch (driver) {
+    case "database":
+      return new DatabaseStorage(createDb().db);
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "memory" or "database")`);
+  }
+}
+
+export const storage = createStorage();
+
+// Initialize with sample projects. The in-memory store starts empty on every
+// boot, so it is seeded for demos; a database keeps whatever was saved.
 async function initializeSampleData() {
+  if (!(storage instanceof MemStorage)) {
+    return;
+  }
+
   // Sample Project 1: E-commerce Platform
   await storage.createProject({
     title: "Modern E-commerce Platform",
@@ -0,0 +1,173 @@
+import { createHmac, randomBytes } from "crypto";
+import type { Request, RequestHandler } from "express";
+import type { UserTwoFactor } from "@shared/schema";
+import { storage } from "./storage";
+import { hashToken } from "./secrets";
+import { getApiToken } from "./apiTokens";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next code too, to allow for clock drift
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const MAX_FAILURES = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// RFC 6238 code for a time step, using HMAC-SHA1 as authenticator apps expect
+export function totpAt(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+export function currentStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+// Returns the matching time step, or null. Steps at or before lastUsedStep are
+// rejected so an observed code cannot be replayed.
+export function verifyTotp(secret: string, code: string, lastUsedStep: number | null, now = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+  const step = currentStep(now);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const candidate = step + offset;
+    if (lastUsedStep !== null && candidate <= lastUsedStep) continue;
+    if (totpAt(secret, candidate) === normalized) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+export function otpauthUrl(secret: string, accountName: string, issuer = process.env.TOTP_ISSUER || "Portfolio Admin"): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: "SHA1", digits: String(TOTP_DIGITS), period: String(TOTP_PERIOD_SECONDS) });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, "").toLowerCase();
+
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))) };
+}
+
+const failures = new Map<string, { count: number; lockedUntil: number }>();
+
+export function isLockedOut(userId: string, now = Date.now()): boolean {
+  const entry = failures.get(userId);
+  return !!entry && entry.lockedUntil > now;
+}
+
+function recordFailure(userId: string, now = Date.now()) {
+  const entry = failures.get(userId) ?? { count: 0, lockedUntil: 0 };
+  entry.count++;
+  if (entry.count >= MAX_FAILURES) {
+    entry.count = 0;
+    entry.lockedUntil = now + LOCKOUT_MS;
+  }
+  failures.set(userId, entry);
+}
+
+// Checks a TOTP code or an unused recovery code, consuming whichever matched
+export async function verifySecondFactor(twoFactor: UserTwoFactor, code: string): Promise<boolean> {
+  const step = verifyTotp(twoFactor.secret, code, twoFactor.lastUsedStep);
+  if (step !== null) {
+    await storage.updateTwoFactor(twoFactor.userId, { lastUsedStep: step });
+    failures.delete(twoFactor.userId);
+    return true;
+  }
+
+  const hash = hashToken(normalizeRecoveryCode(code));
+  if (twoFactor.enabledAt && twoFactor.recoveryCodeHashes.includes(hash)) {
+    await storage.updateTwoFactor(twoFactor.userId, {
+      recoveryCodeHashes: twoFactor.recoveryCodeHashes.filter((h) => h !== hash),
+    });
+    failures.delete(twoFactor.userId);
+    return true;
+  }
+
+  recordFailure(twoFactor.userId);
+  return false;
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const twoFactor = await storage.getTwoFactor(userId);
+  return !!twoFactor?.enabledAt;
+}
+
+// The flag is tied to the user id; logging in regenerates the session anyway
+export function isSecondFactorVerified(req: Request, userId: string): boolean {
+  return req.session?.twoFactorUserId === userId;
+}
+
+export function markSecondFactorVerified(req: Request, userId: string) {
+  req.session.twoFactorUserId = userId;
+}
+
+// Blocks users with 2FA enabled until they have passed the challenge in this
+// session. API tokens are exempt: creating one already required the challenge.
+export const requireSecondFactor: RequestHandler = async (req, res, next) => {
+  try {
+    const user = req.currentUser!;
+    if (!getApiToken(req) && !isSecondFactorVerified(req, user.id) && (await isTwoFactorEnabled(user.id))) {
+      return res.status(403).json({ message: "Two-factor verification required", twoFactorRequired: true });
+    }
+    next();
+  } catch (error) {
+    console.error("Error checking two-factor status:", error);
+    res.status(500).json({ message: "Failed to check two-factor status" });
+  }
+};
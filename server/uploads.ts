@@ -0,0 +1,249 @@
+import path from "path";
+import os from "os";
+import fs from "fs/promises";
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { pipeline } from "stream/promises";
+import type { CreateUpload, Media, UploadSession, UploadStatus } from "@shared/schema";
+import { UPLOAD_CHUNK_SIZE, uploadPartCount, uploadProblem } from "@shared/uploads";
+import { storage } from "./storage";
+import { processImage, stripImageMetadata, type ImageMetadata } from "./images";
+import { hasPreview, processPreview, type PreviewMetadata } from "./previews";
+import { detectFileTypeOf, matchesExtension } from "./fileTypes";
+import { sanitizeSvg } from "./sanitizer";
+import { contentTypeFor, getMediaStore, mediaUrl } from "./mediaStore";
+import { startIntervalTask } from "./intervalTask";
+
+// Uploads are staged here, single files by multer and chunked uploads in a
+// directory per session, before they are handed to the media store. Set
+// UPLOAD_STAGING_DIR to stage on a disk with room for the largest videos.
+export const STAGING_DIR = process.env.UPLOAD_STAGING_DIR || path.join(os.tmpdir(), "portfolio-uploads");
+
+// An upload left unfinished this long is discarded along with its parts, as
+// is anything else in STAGING_DIR untouched for as long
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface StagedFile {
+  path: string;
+  originalName: string;
+  size: number;
+}
+
+export interface UploadDetails {
+  folderId: number | null;
+  altText: string;
+  uploadedBy: string;
+}
+
+// Checks a staged file's content against its name, removes anything unsafe
+// or private from it, then moves it into the media store under a fresh key.
+// Images get resized variants; videos get a poster frame and duration, and
+// PDFs a first-page preview and page count. The file is recorded in the
+// library with the type its content was verified as, and the staged file is
+// removed either way. Returns a message instead when the file is not accepted.
+export async function saveUpload(file: StagedFile, details: UploadDetails): Promise<Media | string> {
+  const key = `${randomUUID()}${path.extname(file.originalName).toLowerCase()}`;
+  let mimeType: string | undefined;
+  let size = file.size;
+  let metadata: ImageMetadata | PreviewMetadata = {};
+  try {
+    mimeType = await detectFileTypeOf(file.path);
+    if (!mimeType) {
+      return "The file is not a supported image, video or document";
+    }
+    if (!matchesExtension(mimeType, file.originalName)) {
+      return `The file's content (${mimeType}) does not match its extension`;
+    }
+
+    if (mimeType === "image/svg+xml") {
+      // Always rewritten: entities declared in a DOCTYPE are expanded by
+      // browsers but never show up as stripped elements
+      const { svg } = sanitizeSvg(await fs.readFile(file.path, "utf-8"));
+      await fs.writeFile(file.path, svg);
+    } else {
+      // A photo that cannot be decoded is turned away rather than kept with its metadata
+      try {
+        await stripImageMetadata(file.path, mimeType);
+      } catch (error) {
+        console.error("Error stripping image metadata:", error);
+        return "The image could not be read";
+      }
+    }
+    size = (await fs.stat(file.path)).size;
+
+    await getMediaStore().put(key, createReadStream(file.path), {
+      contentType: contentTypeFor(key),
+      size,
+    });
+    // A file that cannot be read, or takes too long to preview, is still stored,
+    // just without variants or a preview
+    if (mimeType.startsWith("image/")) {
+      try {
+        metadata = await processImage(file.path, key, mimeType);
+      } catch (error) {
+        console.error("Error processing image:", error);
+      }
+    } else if (hasPreview(mimeType)) {
+      try {
+        metadata = await processPreview(file.path, key, mimeType);
+      } catch (error) {
+        console.error("Error creating media preview:", error);
+      }
+    }
+  } finally {
+    await fs.rm(file.path, { force: true });
+  }
+
+  return await storage.createMedia({
+    ...metadata,
+    filename: key,
+    originalName: file.originalName,
+    mimeType,
+    size: size.toString(),
+    url: mediaUrl(key),
+    altText: details.altText,
+    folderId: details.folderId,
+    uploadedBy: details.uploadedBy,
+  });
+}
+
+const sessionDir = (session: UploadSession) => path.join(STAGING_DIR, session.id);
+const partPath = (session: UploadSession, index: number) => path.join(sessionDir(session), `${index}.part`);
+
+export const partCount = (session: UploadSession) => uploadPartCount(session.size, session.chunkSize);
+
+// Size every part must have: the chunk size, except for a shorter last part
+function expectedPartSize(session: UploadSession, index: number): number {
+  return index === partCount(session) - 1 ? session.size - index * session.chunkSize : session.chunkSize;
+}
+
+// Starts a chunked upload, or explains why the file is not accepted
+export async function createUploadSession(upload: CreateUpload, userId: string): Promise<UploadSession | string> {
+  const problem = uploadProblem(upload.filename, upload.size);
+  if (problem) {
+    return problem;
+  }
+  const session = await storage.createUploadSession({
+    originalName: upload.filename,
+    size: upload.size,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    folderId: upload.folderId,
+    altText: upload.altText ?? "",
+    createdBy: userId,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+  await fs.mkdir(sessionDir(session), { recursive: true });
+  return session;
+}
+
+export async function receivedParts(session: UploadSession): Promise<number[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(sessionDir(session));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+  return entries
+    .filter((entry) => /^\d+\.part$/.test(entry))
+    .map((entry) => parseInt(entry))
+    .sort((a, b) => a - b);
+}
+
+export async function getUploadStatus(session: UploadSession): Promise<UploadStatus> {
+  return {
+    id: session.id,
+    chunkSize: session.chunkSize,
+    partCount: partCount(session),
+    receivedParts: await receivedParts(session),
+    expiresAt: session.expiresAt,
+  };
+}
+
+// Stores one part, or explains why it was rejected. checksum is the part's
+// hex SHA-256 when the client sent one. Sending a part again replaces it.
+export async function writePart(
+  session: UploadSession,
+  index: number,
+  body: Buffer,
+  checksum?: string,
+): Promise<string | undefined> {
+  if (!Number.isInteger(index) || index < 0 || index >= partCount(session)) {
+    return `Part must be between 0 and ${partCount(session) - 1}`;
+  }
+  const expected = expectedPartSize(session, index);
+  if (body.length !== expected) {
+    return `Part ${index} must be ${expected} bytes, got ${body.length}`;
+  }
+  if (checksum && createHash("sha256").update(body).digest("hex") !== checksum.toLowerCase()) {
+    return `Part ${index} does not match its checksum`;
+  }
+  // Written under a temporary name so a dropped request never leaves a partial part
+  const file = partPath(session, index);
+  await fs.mkdir(sessionDir(session), { recursive: true });
+  await fs.writeFile(`${file}.tmp`, body);
+  await fs.rename(`${file}.tmp`, file);
+  return undefined;
+}
+
+// Joins the parts into one staged file and computes the upload checksum
+// (see completeUploadSchema) from what was actually written to disk
+export async function assembleUpload(session: UploadSession): Promise<{ path: string; checksum: string }> {
+  const file = path.join(sessionDir(session), "assembled");
+  const digests = createHash("sha256");
+  // One part is held in memory at a time
+  await pipeline(async function* () {
+    for (let index = 0; index < partCount(session); index++) {
+      const part = await fs.readFile(partPath(session, index));
+      digests.update(createHash("sha256").update(part).digest());
+      yield part;
+    }
+  }, createWriteStream(file));
+  return { path: file, checksum: digests.digest("hex") };
+}
+
+// Removes a session's staged parts and the session itself
+export async function discardUpload(session: UploadSession): Promise<void> {
+  await fs.rm(sessionDir(session), { recursive: true, force: true });
+  await storage.deleteUploadSession(session.id);
+}
+
+// Removes staged files and directories no session accounts for any more, such
+// as parts of sessions lost in a restart or files left by a crash mid-upload.
+// Writing a part touches its session directory, so live uploads are never this old.
+async function removeStaleStagedFiles(now: Date): Promise<number> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(STAGING_DIR);
+  } catch (error: any) {
+    if (error.code === "ENOENT") return 0;
+    throw error;
+  }
+  let removed = 0;
+  for (const entry of entries) {
+    const entryPath = path.join(STAGING_DIR, entry);
+    const stats = await fs.stat(entryPath).catch(() => null);
+    if (stats && now.getTime() - stats.mtimeMs > SESSION_TTL_MS) {
+      await fs.rm(entryPath, { recursive: true, force: true });
+      removed++;
+    }
+  }
+  return removed;
+}
+
+// Discards uploads that were abandoned, then anything else left behind in
+// STAGING_DIR. Returns the number removed.
+export async function cleanupExpiredUploads(now: Date = new Date()): Promise<number> {
+  const expired = await storage.getExpiredUploadSessions(now);
+  for (const session of expired) {
+    await discardUpload(session);
+  }
+  return expired.length + (await removeStaleStagedFiles(now));
+}
+
+export function startUploadCleanup(
+  intervalMs = parseInt(process.env.UPLOAD_CLEANUP_INTERVAL_MS || String(DEFAULT_CLEANUP_INTERVAL_MS), 10),
+) {
+  return startIntervalTask("Upload cleanup", cleanupExpiredUploads, intervalMs);
+}
@@ -0,0 +1,191 @@
+import { createHmac, randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList } from "net";
+import type { Project, Webhook, WebhookDelivery, WebhookEvent, WebhookPayload } from "@shared/schema";
+import { storage } from "./storage";
+import { generateToken } from "./secrets";
+import { log } from "./vite";
+import { startIntervalTask } from "./intervalTask";
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_ATTEMPTS = 6;
+// Retries wait 30s, 1m, 2m, 4m and 8m after each failure
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+// An immediate attempt that never finishes (say, the server restarts) is
+// picked up by the retry worker once this has passed
+const IN_FLIGHT_LEASE_MS = 60 * 1000;
+const DEFAULT_WORKER_INTERVAL_MS = 15 * 1000;
+
+// Webhooks only go out to the public internet, never to this server, the
+// local network or a cloud metadata endpoint such as 169.254.169.254
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  // IPv4-mapped and NAT64 addresses could point anywhere in the ranges above
+  ["::ffff:0:0", 96],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// Resolves the webhook's host on every attempt, so a DNS change can't point
+// an approved URL at an internal address later on
+async function assertPublicHost(url: string): Promise<void> {
+  const { hostname } = new URL(url);
+  const addresses = await lookup(hostname.replace(/^\[|\]$/g, ""), { all: true, verbatim: true });
+  const blocked = addresses.find(({ address, family }) => privateAddresses.check(address, family === 6 ? "ipv6" : "ipv4"));
+  if (blocked) {
+    throw new Error(`${hostname} is not a public address (${blocked.address})`);
+  }
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${generateToken()}`;
+}
+
+// Receivers recompute this over the X-Webhook-Timestamp header and the raw
+// body and compare it with X-Webhook-Signature
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+}
+
+// Sends one attempt and records the outcome, scheduling a retry on failure
+async function attemptDelivery(delivery: WebhookDelivery, webhook: Webhook): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    await assertPublicHost(webhook.url);
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Portfolio-Webhooks/1.0",
+        "X-Webhook-Id": String(delivery.id),
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": signWebhookPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    // Only the status is kept. The body could be anything the receiver (or
+    // whatever sits at that address) sends back.
+    await response.body?.cancel();
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = error === null;
+  const exhausted = !succeeded && attempts >= MAX_ATTEMPTS;
+  return await storage.updateWebhookDelivery(delivery.id, {
+    attempts,
+    responseStatus,
+    error,
+    status: succeeded ? "success" : exhausted ? "failed" : "pending",
+    nextAttemptAt: succeeded || exhausted ? null : new Date(Date.now() + retryDelayMs(attempts)),
+    deliveredAt: succeeded ? new Date() : null,
+  });
+}
+
+async function createDelivery(webhook: Webhook, payload: WebhookPayload): Promise<WebhookDelivery> {
+  return await storage.createWebhookDelivery({
+    webhookId: webhook.id,
+    event: payload.event,
+    // Round-trip through JSON so dates are stored as the receiver sees them
+    payload: JSON.parse(JSON.stringify(payload)),
+    nextAttemptAt: new Date(Date.now() + IN_FLIGHT_LEASE_MS),
+  });
+}
+
+const buildPayload = (event: WebhookPayload["event"], data: unknown): WebhookPayload => ({
+  id: randomUUID(),
+  event,
+  createdAt: new Date().toISOString(),
+  data,
+});
+
+// Queues the event for every active webhook subscribed to it and makes the
+// first attempt in the background. Never throws, so callers can fire and forget.
+export async function dispatchWebhookEvent(event: WebhookEvent, data: unknown): Promise<void> {
+  try {
+    const subscribed = (await storage.getWebhooks()).filter((webhook) => webhook.active && webhook.events.includes(event));
+    if (subscribed.length === 0) {
+      return;
+    }
+    const payload = buildPayload(event, data);
+    for (const webhook of subscribed) {
+      const delivery = await createDelivery(webhook, payload);
+      attemptDelivery(delivery, webhook).catch((error) => console.error("Error delivering webhook:", error));
+    }
+  } catch (error) {
+    console.error(`Error dispatching webhook event ${event}:`, error);
+  }
+}
+
+// Fired whenever a project's status becomes "published", by an editor or by the
+// publish scheduler. The Markdown content is left out to keep payloads small.
+export function dispatchProjectPublished(project: Project): Promise<void> {
+  const { content, ...summary } = project;
+  return dispatchWebhookEvent("project.published", summary);
+}
+
+// Sends a "ping" right away and returns the delivery with its outcome. A
+// failed test is retried like any other delivery.
+export async function sendTestEvent(webhook: Webhook): Promise<WebhookDelivery> {
+  const delivery = await createDelivery(webhook, buildPayload("ping", { webhookId: webhook.id, name: webhook.name }));
+  return await attemptDelivery(delivery, webhook);
+}
+
+// Retries every due delivery once. Returns the number attempted.
+export async function runWebhookRetries(now: Date = new Date()): Promise<number> {
+  let attempted = 0;
+  for (const delivery of await storage.getDueWebhookDeliveries(now)) {
+    const webhook = await storage.getWebhook(delivery.webhookId);
+    if (!webhook?.active) {
+      await storage.updateWebhookDelivery(delivery.id, { status: "failed", nextAttemptAt: null, error: "Webhook disabled" });
+      continue;
+    }
+    const result = await attemptDelivery(delivery, webhook);
+    if (result.status === "failed") {
+      log(`gave up on delivery ${delivery.id} to "${webhook.name}" after ${result.attempts} attempts`, "webhooks");
+    }
+    attempted++;
+  }
+  return attempted;
+}
+
+export function startWebhookWorker(
+  intervalMs = parseInt(process.env.WEBHOOK_WORKER_INTERVAL_MS || String(DEFAULT_WORKER_INTERVAL_MS), 10),
+) {
+  return startIntervalTask("Webhook worker", runWebhookRetries, intervalMs);
+}
@@ -0,0 +1,74 @@
+export type DiffLineType = "added" | "removed" | "unchanged";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface FieldDiff<T> {
+  from: T;
+  to: T;
+  changed: boolean;
+}
+
+export interface RevisionDiff {
+  title: FieldDiff<string>;
+  description: FieldDiff<string>;
+  tags: FieldDiff<string[]>;
+  content: DiffLine[];
+}
+
+// Snapshot of the fields tracked by project revisions
+export interface RevisionSnapshot {
+  title: string;
+  description: string;
+  content: string;
+  tags: string[] | null;
+}
+
+// Line-based diff using a longest-common-subsequence table. Case study
+// content is a few hundred lines at most, so the O(n*m) table is fine.
+export function diffLines(from: string, to: string): DiffLine[] {
+  const a = from.split("\n");
+  const b = to.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "unchanged", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+}
+
+export function diffRevisions(from: RevisionSnapshot, to: RevisionSnapshot): RevisionDiff {
+  const fromTags = from.tags || [];
+  const toTags = to.tags || [];
+  return {
+    title: { from: from.title, to: to.title, changed: from.title !== to.title },
+    description: { from: from.description, to: to.description, changed: from.description !== to.description },
+    tags: {
+      from: fromTags,
+      to: toTags,
+      changed: fromTags.length !== toTags.length || fromTags.some((tag, i) => tag !== toTags[i]),
+    },
+    content: diffLines(from.content, to.content),
+  };
+}
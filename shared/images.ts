@@ -0,0 +1,13 @@
+import type { ImageVariant } from "./schema";
+
+// Formats in the order browsers should try them
+export const imageVariantFormats: ImageVariant["format"][] = ["avif", "webp"];
+
+// srcset for one format, e.g. "/uploads/a-320w.webp 320w, /uploads/a-640w.webp 640w"
+export function buildSrcSet(variants: ImageVariant[] | null | undefined, format: ImageVariant["format"]): string {
+  return (variants ?? [])
+    .filter((variant) => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(", ");
+}
@@ -0,0 +1,13 @@
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// "1:05" for a 65 second video, "1:02:05" past an hour
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor(total / 60) % 60;
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(total % 60)}` : `${minutes}:${pad(total % 60)}`;
+}
+
+export function formatPageCount(pages: number): string {
+  return `${pages} page${pages === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,47 @@
+// New accounts are "pending" and can do nothing in the dashboard until an
+// owner gives them a role
+export const roles = ["owner", "editor", "viewer", "pending"] as const;
+export type Role = (typeof roles)[number];
+
+export const permissions = [
+  "projects:read",
+  "projects:write",
+  "projects:delete",
+  "media:read",
+  "media:write",
+  "media:delete",
+  "contacts:read",
+  "contacts:write",
+  "contacts:delete",
+  "users:read",
+  "users:manage",
+  "audit:read",
+  "webhooks:manage",
+  "settings:write",
+] as const;
+export type Permission = (typeof permissions)[number];
+
+const readPermissions: Permission[] = ["projects:read", "media:read", "contacts:read", "users:read"];
+
+export const rolePermissions: Record<Role, readonly Permission[]> = {
+  owner: permissions,
+  editor: [
+    ...readPermissions,
+    "projects:write",
+    "projects:delete",
+    "media:write",
+    "media:delete",
+    "contacts:write",
+    "settings:write",
+  ],
+  viewer: readPermissions,
+  pending: [],
+};
+
+export function isRole(value: unknown): value is Role {
+  return roles.includes(value as Role);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isRole(role) && rolePermissions[role].includes(permission);
+}
@@ -0,0 +1,35 @@
+import type { Project } from "./schema";
+
+export type PublishWindow = Pick<Project, "status" | "publishAt" | "unpublishAt">;
+
+const toDate = (value: Date | string | null) => (value ? new Date(value) : null);
+
+// A project is visible to the public when it is published, or scheduled with a
+// publish time that has passed, and its unpublish time (if any) is still ahead.
+// The public routes use this directly so visibility never depends on the
+// scheduler having run.
+export function isProjectLive(project: PublishWindow, now: Date = new Date()): boolean {
+  const publishAt = toDate(project.publishAt);
+  const unpublishAt = toDate(project.unpublishAt);
+
+  if (unpublishAt && unpublishAt <= now) {
+    return false;
+  }
+  if (project.status === "published") {
+    return true;
+  }
+  return project.status === "scheduled" && !!publishAt && publishAt <= now;
+}
+
+export function getScheduleError(project: PublishWindow): string | null {
+  const publishAt = toDate(project.publishAt);
+  const unpublishAt = toDate(project.unpublishAt);
+
+  if (project.status === "scheduled" && !publishAt) {
+    return "Scheduled projects need a publish date";
+  }
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    return "Unpublish date must be after the publish date";
+  }
+  return null;
+}
@@ -8,10 +8,14 @@ import {
   varchar,
   boolean,
   serial,
+  integer,
+  bigint,
+  real,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { permissions, roles } from "./permissions";
 
 // Session storage table - required for Replit Auth
 export const sessions = pgTable(
@@ -31,10 +35,127 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  role: varchar("role", { length: 20 }).notNull().default("pending"), // owner, editor, viewer, pending
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Local password credentials, kept apart from users so hashes never leave the server
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: varchar("password_hash", { length: 255 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// TOTP second factor. The row is created at setup and only counts once enabledAt is set.
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: varchar("secret", { length: 64 }).notNull(), // base32
+  recoveryCodeHashes: text("recovery_code_hashes").array().notNull().default([]),
+  // Last accepted time step, so a code cannot be replayed within its window
+  lastUsedStep: integer("last_used_step"),
+  enabledAt: timestamp("enabled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Personal access tokens for scripts and CI. Only a hash of the token is kept;
+// prefix is the first few characters so people can tell their tokens apart.
+export const apiTokens = pgTable(
+  "api_tokens",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    prefix: varchar("prefix", { length: 16 }).notNull(),
+    tokenHash: varchar("token_hash", { length: 128 }).notNull().unique(),
+    scopes: text("scopes").array().notNull(),
+    expiresAt: timestamp("expires_at"),
+    lastUsedAt: timestamp("last_used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_api_tokens_user").on(table.userId)],
+);
+
+// Who changed what through the admin API. Actor email is copied so events stay
+// readable after the user is deleted; before/after hold only the changed fields.
+export const auditEvents = pgTable(
+  "audit_events",
+  {
+    id: serial("id").primaryKey(),
+    actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+    actorEmail: varchar("actor_email", { length: 255 }),
+    apiTokenId: integer("api_token_id"), // set when the change came through a personal token
+    action: varchar("action", { length: 100 }).notNull(),
+    entityType: varchar("entity_type", { length: 50 }).notNull(),
+    entityId: varchar("entity_id", { length: 100 }),
+    before: jsonb("before"),
+    after: jsonb("after"),
+    ip: varchar("ip", { length: 64 }),
+    userAgent: text("user_agent"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_audit_events_created").on(table.createdAt),
+    index("IDX_audit_events_entity").on(table.entityType, table.entityId),
+  ],
+);
+
+// Outgoing webhook endpoints. The secret signs every payload, so it is kept
+// in plain text and shown to owners.
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  url: varchar("url", { length: 2000 }).notNull(),
+  secret: varchar("secret", { length: 100 }).notNull(),
+  events: text("events").array().notNull(),
+  active: boolean("active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per event sent to a webhook, updated on every attempt
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: serial("id").primaryKey(),
+    webhookId: integer("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+    event: varchar("event", { length: 100 }).notNull(),
+    payload: jsonb("payload").notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, success, failed
+    attempts: integer("attempts").notNull().default(0),
+    responseStatus: integer("response_status"),
+    error: text("error"),
+    nextAttemptAt: timestamp("next_attempt_at"),
+    deliveredAt: timestamp("delivered_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_webhook_deliveries_webhook").on(table.webhookId),
+    index("IDX_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+  ],
+);
+
+// Editable site copy, one row per section of siteSettingsSchema. Sections
+// that were never saved fall back to defaultSiteSettings.
+export const siteSettings = pgTable("site_settings", {
+  key: varchar("key", { length: 50 }).primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Single-use tokens for password resets and magic links; only a hash is stored
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 50 }).notNull(), // password_reset, magic_link
+  tokenHash: varchar("token_hash", { length: 128 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Projects table
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
@@ -43,25 +164,100 @@ export const projects = pgTable("projects", {
   description: text("description").notNull(),
   content: text("content").notNull(),
   featuredImage: varchar("featured_image"),
+  // Where to centre the featured image when a card crops it
+  featuredImageFocus: jsonb("featured_image_focus").$type<FocalPoint>(),
   category: varchar("category", { length: 100 }).notNull(),
   tags: text("tags").array(),
-  status: varchar("status", { length: 50 }).notNull().default("draft"), // draft, published
+  status: varchar("status", { length: 50 }).notNull().default("draft"), // draft, scheduled, published
+  publishAt: timestamp("publish_at"),
+  unpublishAt: timestamp("unpublish_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   authorId: varchar("author_id").references(() => users.id),
 });
 
-// Media table
-export const media = pgTable("media", {
+// Project revisions table - snapshot of a project taken before each update
+export const projectRevisions = pgTable(
+  "project_revisions",
+  {
+    id: serial("id").primaryKey(),
+    projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+    title: varchar("title", { length: 255 }).notNull(),
+    description: text("description").notNull(),
+    content: text("content").notNull(),
+    tags: text("tags").array(),
+    createdAt: timestamp("created_at").defaultNow(),
+    createdBy: varchar("created_by").references(() => users.id),
+  },
+  (table) => [index("IDX_project_revisions_project").on(table.projectId)],
+);
+
+// Folders that group files in the media library
+export const mediaFolders = pgTable("media_folders", {
   id: serial("id").primaryKey(),
-  filename: varchar("filename", { length: 255 }).notNull(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+// Media table
+export const media = pgTable(
+  "media",
+  {
+    id: serial("id").primaryKey(),
+    filename: varchar("filename", { length: 255 }).notNull(),
+    originalName: varchar("original_name", { length: 255 }).notNull(),
+    mimeType: varchar("mime_type", { length: 100 }).notNull(),
+    size: varchar("size", { length: 50 }).notNull(),
+    url: varchar("url", { length: 500 }).notNull(),
+    altText: varchar("alt_text", { length: 255 }),
+    caption: text("caption"),
+    tags: text("tags").array(),
+    // Files in a deleted folder become unfiled
+    folderId: integer("folder_id").references(() => mediaFolders.id, { onDelete: "set null" }),
+    // Filled in for images when they are uploaded; see server/images.ts.
+    // Videos record their frame size too.
+    width: integer("width"),
+    height: integer("height"),
+    variants: jsonb("variants").$type<ImageVariant[]>(),
+    placeholder: text("placeholder"), // tiny blurred preview as a data URL
+    // A poster frame for videos and the first page for PDFs; see server/previews.ts
+    preview: jsonb("preview").$type<MediaPreview>(),
+    duration: real("duration"), // seconds, for videos
+    pageCount: integer("page_count"), // for PDFs
+    createdAt: timestamp("created_at").defaultNow(),
+    uploadedBy: varchar("uploaded_by").references(() => users.id),
+  },
+  (table) => [index("IDX_media_folder").on(table.folderId)],
+);
+
+// Images in a project's case study gallery, in display order
+export const projectMedia = pgTable(
+  "project_media",
+  {
+    id: serial("id").primaryKey(),
+    projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+    mediaId: integer("media_id").notNull().references(() => media.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    caption: text("caption"), // shown instead of the file's own caption
+    layout: varchar("layout", { length: 20 }).$type<GalleryLayout>().notNull().default("half"), // full, half, third
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_project_media_project").on(table.projectId, table.position)],
+);
+
+// A chunked upload in progress. Parts are staged on the server's disk until
+// the upload is completed or aborted; see server/uploads.ts.
+export const uploadSessions = pgTable("upload_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   originalName: varchar("original_name", { length: 255 }).notNull(),
-  mimeType: varchar("mime_type", { length: 100 }).notNull(),
-  size: varchar("size", { length: 50 }).notNull(),
-  url: varchar("url", { length: 500 }).notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  chunkSize: integer("chunk_size").notNull(),
+  folderId: integer("folder_id").references(() => mediaFolders.id, { onDelete: "set null" }),
   altText: varchar("alt_text", { length: 255 }),
+  createdBy: varchar("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow(),
-  uploadedBy: varchar("uploaded_by").references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
 });
 
 // Contact submissions table
@@ -71,21 +267,70 @@ export const contactSubmissions = pgTable("contact_submissions", {
   email: varchar("email", { length: 255 }).notNull(),
   subject: varchar("subject", { length: 255 }).notNull(),
   message: text("message").notNull(),
-  status: varchar("status", { length: 50 }).notNull().default("new"), // new, read, replied
+  status: varchar("status", { length: 50 }).notNull().default("new"), // new, read, replied, spam
+  // Filled in when the submission is screened; see server/spam.ts
+  spamScore: integer("spam_score").notNull().default(0),
+  spamReasons: text("spam_reasons").array(),
+  assignedTo: varchar("assigned_to").references(() => users.id, { onDelete: "set null" }),
+  starred: boolean("starred").notNull().default(false),
+  archivedAt: timestamp("archived_at"),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Internal notes on a contact submission, visible only to the team
+export const contactNotes = pgTable(
+  "contact_notes",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id").notNull().references(() => contactSubmissions.id, { onDelete: "cascade" }),
+    authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+    body: text("body").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_contact_notes_contact").on(table.contactId)],
+);
+
+// Replies emailed to the sender from the inbox. messageId lets each reply
+// reference the previous one, so mail clients show a single thread.
+export const contactReplies = pgTable(
+  "contact_replies",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id").notNull().references(() => contactSubmissions.id, { onDelete: "cascade" }),
+    authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+    subject: varchar("subject", { length: 255 }).notNull(),
+    body: text("body").notNull(),
+    messageId: varchar("message_id", { length: 255 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_contact_replies_contact").on(table.contactId)],
+);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   projects: many(projects),
   media: many(media),
 }));
 
-export const projectsRelations = relations(projects, ({ one }) => ({
+export const projectsRelations = relations(projects, ({ one, many }) => ({
   author: one(users, {
     fields: [projects.authorId],
     references: [users.id],
   }),
+  revisions: many(projectRevisions),
+  gallery: many(projectMedia),
+}));
+
+export const projectRevisionsRelations = relations(projectRevisions, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectRevisions.projectId],
+    references: [projects.id],
+  }),
+  author: one(users, {
+    fields: [projectRevisions.createdBy],
+    references: [users.id],
+  }),
 }));
 
 export const mediaRelations = relations(media, ({ one }) => ({
@@ -93,37 +338,559 @@ export const mediaRelations = relations(media, ({ one }) => ({
     fields: [media.uploadedBy],
     references: [users.id],
   }),
+  folder: one(mediaFolders, {
+    fields: [media.folderId],
+    references: [mediaFolders.id],
+  }),
+}));
+
+export const projectMediaRelations = relations(projectMedia, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectMedia.projectId],
+    references: [projects.id],
+  }),
+  media: one(media, {
+    fields: [projectMedia.mediaId],
+    references: [media.id],
+  }),
+}));
+
+export const mediaFoldersRelations = relations(mediaFolders, ({ many }) => ({
+  media: many(media),
 }));
 
 // Insert schemas
-export const insertProjectSchema = createInsertSchema(projects).omit({
+// A point in an image, as percentages from its top left corner
+export const focalPointSchema = z.object({
+  x: z.number().min(0).max(100),
+  y: z.number().min(0).max(100),
+});
+
+export const insertProjectSchema = createInsertSchema(projects, {
+  // Accept ISO strings from JSON request bodies
+  publishAt: z.coerce.date().nullish(),
+  unpublishAt: z.coerce.date().nullish(),
+  featuredImageFocus: focalPointSchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertMediaSchema = createInsertSchema(media).omit({
+export const insertProjectRevisionSchema = createInsertSchema(projectRevisions).omit({
   id: true,
   createdAt: true,
 });
 
+// A resized copy of an uploaded image
+export const imageVariantSchema = z.object({
+  url: z.string(),
+  format: z.enum(["webp", "avif"]),
+  width: z.number().int(),
+  height: z.number().int(),
+  size: z.number().int(),
+});
+
+export const mediaPreviewSchema = z.object({
+  url: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+});
+
+export const insertMediaSchema = createInsertSchema(media, {
+  variants: z.array(imageVariantSchema).nullish(),
+  preview: mediaPreviewSchema.nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+const mediaTag = z.string().trim().toLowerCase().min(1).max(50);
+
+// Details editable from the media library
+export const updateMediaSchema = z
+  .object({
+    altText: z.string().trim().max(255),
+    caption: z.string().trim().max(1000),
+    tags: z.array(mediaTag).max(20).transform((tags) => Array.from(new Set(tags))),
+    folderId: z.number().int().nullable(),
+  })
+  .partial();
+
+export const insertMediaFolderSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+// "document" covers everything that is not an image or a video
+export const mediaKinds = ["image", "video", "document"] as const;
+export const mediaSorts = ["newest", "oldest", "name", "largest", "smallest"] as const;
+
+export const mediaFiltersSchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  kind: z.enum(mediaKinds).optional(),
+  // A folder id, or "none" for files outside any folder
+  folder: z.union([z.literal("none"), z.coerce.number().int()]).optional(),
+  tag: mediaTag.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sort: z.enum(mediaSorts).default("newest"),
+  limit: z.coerce.number().int().min(1).max(200).default(48),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// How much of the gallery's width an image takes on larger screens
+export const galleryLayouts = ["full", "half", "third"] as const;
+
+export const galleryItemSchema = z.object({
+  mediaId: z.number().int(),
+  caption: z.string().trim().max(1000).nullish(),
+  layout: z.enum(galleryLayouts).default("half"),
+});
+
+// A project's whole gallery, in display order
+export const projectGallerySchema = z.object({
+  items: z
+    .array(galleryItemSchema)
+    .max(100)
+    .refine((items) => new Set(items.map((item) => item.mediaId)).size === items.length, {
+      message: "An image can only appear once in a gallery",
+    }),
+});
+
+export const bulkMediaMoveSchema = z.object({
+  ids: z.array(z.number().int()).min(1).max(500),
+  folderId: z.number().int().nullable(),
+});
+
+export const bulkMediaDeleteSchema = z.object({
+  ids: z.array(z.number().int()).min(1).max(500),
+  // Needed to delete files that projects still use
+  force: z.boolean().default(false),
+});
+
+export const createUploadSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  size: z.number().int().positive(),
+  folderId: z.number().int().nullable().default(null),
+  altText: z.string().trim().max(255).optional(),
+});
+
+export const completeUploadSchema = z.object({
+  // Hex SHA-256 of the raw SHA-256 digests of the parts, in order. Each part
+  // can be hashed as it is read, so no one has to hold the whole file in memory.
+  checksum: z
+    .string()
+    .regex(/^[a-f0-9]{64}$/i, "Checksum must be a hex SHA-256")
+    .transform((checksum) => checksum.toLowerCase()),
+});
+
 export const insertContactSchema = createInsertSchema(contactSubmissions).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
   status: true,
+  spamScore: true,
+  spamReasons: true,
+  assignedTo: true,
+  starred: true,
+  archivedAt: true,
+});
+
+// What the public form posts: the message plus its anti-spam fields
+export const contactFormSchema = insertContactSchema.extend({
+  website: z.string().optional(), // honeypot, left empty by people
+  formToken: z.string().optional(),
+});
+
+export const contactStatuses = ["new", "read", "replied", "spam"] as const;
+
+export const updateContactSchema = z
+  .object({
+    status: z.enum(contactStatuses),
+    assignedTo: z.string().nullable(),
+    starred: z.boolean(),
+    archived: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "Nothing to update");
+
+export const bulkContactActionSchema = z.object({
+  ids: z.array(z.number().int()).min(1).max(500),
+  update: updateContactSchema,
+});
+
+export const bulkContactDeleteSchema = z.object({
+  ids: z.array(z.number().int()).min(1).max(500),
+});
+
+export const insertContactNoteSchema = z.object({
+  body: z.string().trim().min(1, "Note cannot be empty").max(5000),
+});
+
+export const contactReplySchema = z.object({
+  body: z.string().trim().min(1, "Reply cannot be empty").max(20000),
+});
+
+export const contactFiltersSchema = z.object({
+  status: z.enum(contactStatuses).optional(),
+  // The inbox hides archived submissions unless asked for them
+  archived: z.enum(["true", "false"]).transform((value) => value === "true").default("false"),
+  starred: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  assignedTo: z.string().optional(),
+  search: z.string().trim().max(200).optional(),
 });
 
 export const upsertUserSchema = createInsertSchema(users).omit({
+  role: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const updateUserRoleSchema = z.object({
+  role: z.enum(roles),
+});
+
+export const insertAuthTokenSchema = createInsertSchema(authTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(32),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(permissions)).min(1, "Pick at least one scope"),
+  // null means the token never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+});
+
+export const webhookEvents = ["contact.created", "project.published", "media.uploaded"] as const;
+
+const webhookUrl = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//i.test(url), "Webhook URLs must use http or https");
+
+export const insertWebhookSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  url: webhookUrl,
+  events: z.array(z.enum(webhookEvents)).min(1, "Pick at least one event"),
+  active: z.boolean().default(true),
+});
+
+export const updateWebhookSchema = insertWebhookSchema.partial();
+
+export const socialPlatforms = [
+  "linkedin",
+  "github",
+  "dribbble",
+  "behance",
+  "twitter",
+  "instagram",
+  "youtube",
+  "website",
+] as const;
+
+const httpUrl = z
+  .string()
+  .trim()
+  .url()
+  .refine((url) => /^https?:\/\//i.test(url), "Links must use http or https");
+
+export const siteSettingsSchema = z.object({
+  general: z.object({
+    siteName: z.string().trim().min(1, "Site name is required").max(100),
+  }),
+  hero: z.object({
+    title: z.string().trim().min(1, "Title is required").max(150),
+    // Part of the title shown in the accent colour; may be empty
+    highlight: z.string().trim().max(100),
+    subtitle: z.string().trim().max(500),
+  }),
+  about: z.object({
+    heading: z.string().trim().min(1, "Heading is required").max(100),
+    // Paragraphs are separated by blank lines
+    body: z.string().trim().max(5000),
+    skills: z.array(z.string().trim().min(1).max(100)).max(30),
+    tools: z.array(z.string().trim().min(1).max(100)).max(30),
+  }),
+  contact: z.object({
+    heading: z.string().trim().min(1, "Heading is required").max(100),
+    intro: z.string().trim().max(500),
+    email: z.union([z.literal(""), z.string().trim().email()]),
+    phone: z.string().trim().max(50),
+    location: z.string().trim().max(100),
+  }),
+  social: z
+    .array(
+      z.object({
+        platform: z.enum(socialPlatforms),
+        url: httpUrl,
+      }),
+    )
+    .max(12),
+  footer: z.object({
+    text: z.string().trim().max(300),
+  }),
+});
+
+export const siteSettingsKeys = siteSettingsSchema.keyof().options;
+
+export const updateSiteSettingsSchema = siteSettingsSchema
+  .partial()
+  .refine((settings) => Object.keys(settings).length > 0, "Nothing to update");
+
+export const auditActions = [
+  "project.create",
+  "project.update",
+  "project.delete",
+  "project.restore",
+  "project.gallery_update",
+  "media.upload",
+  "media.update",
+  "media.delete",
+  "media_folder.create",
+  "media_folder.update",
+  "media_folder.delete",
+  "user.role_change",
+  "user.two_factor_enable",
+  "user.two_factor_disable",
+  "user.two_factor_reset",
+  "session.revoke",
+  "api_token.create",
+  "api_token.revoke",
+  "contact.update",
+  "contact.delete",
+  "contact.note_add",
+  "contact.reply",
+  "webhook.create",
+  "webhook.update",
+  "webhook.delete",
+  "settings.update",
+] as const;
+
+export const auditEntityTypes = [
+  "project",
+  "media",
+  "media_folder",
+  "user",
+  "session",
+  "api_token",
+  "contact",
+  "webhook",
+  "settings",
+] as const;
+
+export const auditEventFiltersSchema = z.object({
+  actorId: z.string().optional(),
+  action: z.enum(auditActions).optional(),
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const localLoginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+export const localRegisterSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(10, "Password must be at least 10 characters"),
+  firstName: z.string().max(100).optional(),
+  lastName: z.string().max(100).optional(),
+});
+
+export const emailRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(10, "Password must be at least 10 characters"),
+});
+
 // Types
 export type UpsertUser = z.infer<typeof upsertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+export type AuthTokenType = "password_reset" | "magic_link";
+
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type InsertUserTwoFactor = typeof userTwoFactor.$inferInsert;
+
+// The signed-in user as returned by /api/auth/user
+export type AuthUser = User & {
+  twoFactorEnabled: boolean;
+  // Signed in, but the second factor has not been verified in this session
+  twoFactorPending: boolean;
+};
+
+export type TeamMember = User & { twoFactorEnabled: boolean };
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data URL
+}
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+// What clients see of a token; the hash never leaves the server
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = typeof webhooks.$inferInsert;
+export type WebhookEvent = (typeof webhookEvents)[number];
+export type CreateWebhook = z.infer<typeof insertWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+// Body of every webhook request. "ping" is only sent by the test button.
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent | "ping";
+  createdAt: string;
+  data: unknown;
+}
+
+export type SiteSettings = z.infer<typeof siteSettingsSchema>;
+export type SiteSettingsKey = keyof SiteSettings;
+export type UpdateSiteSettings = z.infer<typeof updateSiteSettingsSchema>;
+export type SiteSetting = typeof siteSettings.$inferSelect;
+export type SocialPlatform = (typeof socialPlatforms)[number];
+export type SocialLink = SiteSettings["social"][number];
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type AuditAction = (typeof auditActions)[number];
+export type AuditEntityType = (typeof auditEntityTypes)[number];
+export type AuditEventFilters = z.infer<typeof auditEventFiltersSchema>;
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+}
+
+// A signed-in session as listed in the admin sessions view
+export interface ActiveSession {
+  id: string;
+  userId: string;
+  userEmail: string | null;
+  userName: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string | null;
+  current: boolean;
+}
+
+// Sign-in options the login page offers
+export interface AuthProviderInfo {
+  name: string;
+  label: string;
+  loginUrl?: string;
+  signupOpen?: boolean;
+}
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
+export interface ContentHeading {
+  level: number;
+  text: string;
+  id: string;
+}
+// Public project payload: raw Markdown source plus the rendered HTML and
+// the gallery
+export type RenderedProject = ProjectWithMedia & {
+  contentHtml: string;
+  headings: ContentHeading[];
+  gallery: GalleryImage[];
+};
+// What the HTML sanitizer removed from submitted content
+export interface StrippedItem {
+  kind: "tag" | "attribute";
+  tag: string;
+  attribute?: string;
+  value?: string;
+  count: number;
+}
+export interface SanitizeReport {
+  stripped: StrippedItem[];
+}
+export type ProjectRevision = typeof projectRevisions.$inferSelect;
+export type InsertProjectRevision = z.infer<typeof insertProjectRevisionSchema>;
 export type Media = typeof media.$inferSelect;
 export type InsertMedia = z.infer<typeof insertMediaSchema>;
+export type ImageVariant = z.infer<typeof imageVariantSchema>;
+// What <ResponsiveImage> needs to build srcset and a blur-up placeholder
+export type ResponsiveImageSource = Pick<Media, "url" | "width" | "height" | "variants" | "placeholder">;
+// Public project responses carry the media record behind featuredImage, when
+// it is an upload
+export type ProjectWithMedia = Project & { featuredMedia: ResponsiveImageSource | null };
+export type MediaPreview = z.infer<typeof mediaPreviewSchema>;
+export type FocalPoint = z.infer<typeof focalPointSchema>;
+// What case study content needs to embed an uploaded video or PDF
+export type MediaEmbed = Pick<
+  Media,
+  "url" | "mimeType" | "originalName" | "altText" | "caption" | "width" | "height" | "preview" | "duration" | "pageCount"
+>;
+// A project that uses a media file, from its featured image, content or gallery
+export type MediaUsage = Pick<Project, "id" | "title" | "slug">;
+export type MediaWithUsage = Media & { usedIn: MediaUsage[] };
+export type UpdateMedia = z.infer<typeof updateMediaSchema>;
+export type MediaFilters = z.infer<typeof mediaFiltersSchema>;
+export type MediaKind = (typeof mediaKinds)[number];
+export type MediaSort = (typeof mediaSorts)[number];
+export interface MediaPage<T extends Media = Media> {
+  files: T[];
+  total: number;
+}
+export type ProjectMedia = typeof projectMedia.$inferSelect;
+export type GalleryLayout = (typeof galleryLayouts)[number];
+export type GalleryItemInput = z.infer<typeof galleryItemSchema>;
+// A gallery item with its media record, as the project editor lists it
+export type ProjectMediaItem = ProjectMedia & { media: Media };
+// A gallery image as a case study shows it; caption falls back to the file's own
+export type GalleryImage = Pick<ProjectMedia, "id" | "caption" | "layout"> & {
+  image: ResponsiveImageSource & Pick<Media, "altText">;
+};
+export type MediaFolder = typeof mediaFolders.$inferSelect;
+export type InsertMediaFolder = typeof mediaFolders.$inferInsert;
+export type MediaFolderWithCount = MediaFolder & { fileCount: number };
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type InsertUploadSession = typeof uploadSessions.$inferInsert;
+export type CreateUpload = z.infer<typeof createUploadSchema>;
+// What a client needs to start or resume sending parts
+export interface UploadStatus {
+  id: string;
+  chunkSize: number;
+  partCount: number;
+  receivedParts: number[];
+  expiresAt: Date;
+}
 export type ContactSubmission = typeof contactSubmissions.$inferSelect;
 export type InsertContact = z.infer<typeof insertContactSchema>;
+export type ContactForm = z.infer<typeof contactFormSchema>;
+// A submission as stored, along with the outcome of spam screening
+export type NewContact = InsertContact & Partial<Pick<ContactSubmission, "status" | "spamScore" | "spamReasons">>;
+export type ContactStatus = (typeof contactStatuses)[number];
+export type UpdateContact = z.infer<typeof updateContactSchema>;
+// Workflow fields the inbox can change, as stored
+export type ContactChanges = Partial<Pick<ContactSubmission, "status" | "assignedTo" | "starred" | "archivedAt">>;
+export type ContactFilters = Partial<z.infer<typeof contactFiltersSchema>>;
+export type ContactNote = typeof contactNotes.$inferSelect;
+export type InsertContactNote = typeof contactNotes.$inferInsert;
+// A note as shown in the inbox, with its author's name resolved
+export type ContactNoteWithAuthor = ContactNote & { authorName: string | null };
+export type ContactReply = typeof contactReplies.$inferSelect;
+export type InsertContactReply = typeof contactReplies.$inferInsert;
+export type ContactReplyWithAuthor = ContactReply & { authorName: string | null };
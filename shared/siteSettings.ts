@@ -0,0 +1,35 @@
+import type { SiteSettings } from "./schema";
+
+// What the site shows until a section is saved from the Settings tab
+export const defaultSiteSettings: SiteSettings = {
+  general: {
+    siteName: "Portfolio",
+  },
+  hero: {
+    title: "Creative Digital Experiences",
+    highlight: "Digital",
+    subtitle:
+      "I craft user-friendly and visually engaging digital solutions that combine aesthetic excellence with functional design principles.",
+  },
+  about: {
+    heading: "About Me",
+    body: [
+      "I'm a passionate digital designer with over 5 years of experience creating user-centered solutions. My approach combines strategic thinking with creative execution to deliver designs that not only look beautiful but also solve real problems.",
+      "Specializing in web design, mobile applications, and brand identity, I work closely with clients to understand their vision and transform it into compelling digital experiences.",
+    ].join("\n\n"),
+    skills: ["UI/UX Design", "Web Development", "Brand Identity", "Prototyping"],
+    tools: ["Figma, Adobe XD", "React, Next.js", "Tailwind CSS", "Framer Motion"],
+  },
+  contact: {
+    heading: "Get In Touch",
+    intro: "Ready to start your next project? Let's discuss how I can help.",
+    email: "",
+    phone: "",
+    location: "",
+  },
+  social: [],
+  footer: {
+    text: "All rights reserved.",
+  },
+};
+
@@ -0,0 +1,42 @@
+import { mediaKinds, type MediaKind } from "./schema";
+
+const MB = 1024 * 1024;
+
+// Large files are sent in parts of this size through /api/admin/uploads
+export const UPLOAD_CHUNK_SIZE = 8 * MB;
+
+// The single-request upload endpoint only takes files up to this size
+export const SIMPLE_UPLOAD_LIMIT = 10 * MB;
+
+export const uploadExtensions: Record<MediaKind, string[]> = {
+  image: [".jpg", ".jpeg", ".png", ".gif", ".webp", ".svg"],
+  video: [".mp4", ".mov", ".avi"],
+  document: [".pdf", ".doc", ".docx"],
+};
+
+export const uploadSizeLimits: Record<MediaKind, number> = {
+  image: 25 * MB,
+  video: 2048 * MB,
+  document: 100 * MB,
+};
+
+export function uploadKind(filename: string): MediaKind | undefined {
+  const extension = filename.slice(filename.lastIndexOf(".")).toLowerCase();
+  return mediaKinds.find((kind) => uploadExtensions[kind].includes(extension));
+}
+
+// Why a file cannot be uploaded, or undefined when it can
+export function uploadProblem(filename: string, size: number): string | undefined {
+  const kind = uploadKind(filename);
+  if (!kind) {
+    return "Only images, videos, and documents are allowed";
+  }
+  if (size > uploadSizeLimits[kind]) {
+    return `${kind[0].toUpperCase()}${kind.slice(1)}s can be at most ${uploadSizeLimits[kind] / MB}MB`;
+  }
+  return undefined;
+}
+
+export function uploadPartCount(size: number, chunkSize: number): number {
+  return Math.max(1, Math.ceil(size / chunkSize));
+}